@@ -2,11 +2,19 @@ import { nanoid } from "nanoid"
 import type { ZodSchema } from "zod"
 import { EventEmitter } from "eventemitter3"
 import { getProcessor } from "./processors/registry.js"
+import { ModelRoutes, resolveModelRoute, RoutedProcessor } from "./processors/modelRoutes.js"
 import { zodToJsonSchema } from "zod-to-json-schema"
 import type { UsageNumbers } from "./processors/Processor.js"
 import type { MemoryTransformationOptions, PostProcessReturn, TransformOptions, TransformReturnNonStreaming, TransformReturnStreaming } from "./cognitiveStep.js"
 import { indentNicely } from "./utils.js"
+import { forkStream } from "./forkStream.js"
+import { DeepPartial, partialJSONAttemptsStream, partialJSONStream } from "./partialJson.js"
 import { ChatMessageRoleEnum, InputMemory, Memory } from "./Memory.js"
+import { ContextBudget, contextBudgetLimit, fitToContextBudget } from "./contextBudget.js"
+import type { ImageTokenProvider } from "./images.js"
+import { parseSerializedWorkingMemory, SerializedWorkingMemory, serializableProcessorOptions, WORKING_MEMORY_FORMAT_VERSION } from "./serialization.js"
+import { executeToolCalls, parseToolCalls, RawToolCall, toolCallMemory, ToolDefinitions, ToolResponse, toolResultMemory } from "./tools.js"
+import { addUsage, CumulativeUsage, emptyCumulativeUsage, ModelPrices, sumUsage, usageDifference } from "./usage.js"
 
 const DEFAULT_REGION = "default"
 
@@ -26,6 +34,30 @@ export interface WorkingMemoryInitOptions {
   soulName: string
   memories?: InputMemory[]
   processor?: ProcessorSpecification
+  /**
+   * routes model aliases ("fast", "quality", etc.) to a processor and concrete model. These are kept through clones
+   * and take precedence over routes registered with registerModelRoutes.
+   */
+  modelRoutes?: ModelRoutes
+  /**
+   * prices (in USD per million tokens) used for the cost in totalUsage. These are kept through clones
+   * and take precedence over prices registered with registerModelPrices.
+   */
+  modelPrices?: ModelPrices
+  /**
+   * usage to start counting from (eg. the totalUsage of a working memory that was saved and restored).
+   */
+  totalUsage?: CumulativeUsage
+  /**
+   * keeps the memories sent to a processor within a token budget, evicting memories before a transformation when
+   * they would not fit. This is kept through clones.
+   */
+  contextBudget?: ContextBudget
+  /**
+   * aborts the processor requests of every transformation (unless a step passes its own signal), eg. to cancel a
+   * subprocess once it is no longer needed. This is kept through clones.
+   */
+  signal?: AbortSignal
   regionOrder?: string[]
   /*
    *  postCloneTransformation is a hook for library developers who want to shape a working memory or provide hooks or defaults on every return of a new working memory. 
@@ -44,6 +76,10 @@ const defaultPostProcessor = <SchemaType = string>(_workingMemory: WorkingMemory
   return [memory, response]
 }
 
+const toolPostProcessor = (_workingMemory: WorkingMemory, response: ToolResponse): PostProcessReturn<ToolResponse> => {
+  return [{ role: ChatMessageRoleEnum.Assistant, content: response.content }, response]
+}
+
 interface PendingInfo {
   pending?: Promise<void>
   pendingResolve?: () => void
@@ -68,6 +104,12 @@ const usageFactory = (): (() => UsageNumbers) => {
   return () => usage
 }
 
+// see the pending factory for notes here
+const totalUsageFactory = (initialUsage?: CumulativeUsage): (() => { totals: CumulativeUsage }) => {
+  const totalUsage = { totals: initialUsage ?? emptyCumulativeUsage() }
+  return () => totalUsage
+}
+
 // see the pending factory for notes here
 const memoryFactory = (initialMemories?: Memory[]): (() => Memory[]) => {
   const memories: Memory[] = [...initialMemories || []]
@@ -78,6 +120,7 @@ export class WorkingMemory extends EventEmitter {
   readonly id
   private _memories: ReturnType<typeof memoryFactory>
   private _usage: ReturnType<typeof usageFactory>
+  private _totalUsage: ReturnType<typeof totalUsageFactory>
   private _postCloneTransformation: (workingMemory: WorkingMemory) => WorkingMemory
 
   protected regionOrder?: string[]
@@ -89,7 +132,12 @@ export class WorkingMemory extends EventEmitter {
     name: "openai",
   })
 
-  constructor({ soulName, memories, postCloneTransformation, processor, regionOrder }: WorkingMemoryInitOptions) {
+  readonly modelRoutes?: ModelRoutes
+  readonly modelPrices?: ModelPrices
+  readonly contextBudget?: ContextBudget
+  readonly signal?: AbortSignal
+
+  constructor({ soulName, memories, postCloneTransformation, processor, modelRoutes, modelPrices, totalUsage, contextBudget, signal, regionOrder }: WorkingMemoryInitOptions) {
     super()
     this.id = nanoid()
     this._memories = memoryFactory(this.memoriesFromInputMemories(memories || []))
@@ -97,12 +145,17 @@ export class WorkingMemory extends EventEmitter {
     if (processor) {
       this.processor = processor
     }
+    this.modelRoutes = modelRoutes
+    this.modelPrices = modelPrices
+    this.contextBudget = contextBudget
+    this.signal = signal
 
     this.regionOrder = regionOrder
 
     this._pending = pendingFactory()
     this._postCloneTransformation = postCloneTransformation || ((workingMemory) => workingMemory)
     this._usage = usageFactory()
+    this._totalUsage = totalUsageFactory(totalUsage)
   }
 
   /**
@@ -121,6 +174,37 @@ export class WorkingMemory extends EventEmitter {
     return { ...this._usage() }
   }
 
+  /**
+   * The usage of every transformation that led to this WorkingMemory (across all of the clones it was made from),
+   * in total and per model. The cost is calculated from the model prices and is left out when no model used has a price.
+   *
+   * @example
+   * ```
+   * const { input, output, cost } = workingMemory.totalUsage;
+   * console.log(`${input + output} tokens so far, costing $${cost?.toFixed(4)}`);
+   * ```
+   */
+  get totalUsage(): CumulativeUsage {
+    return this._totalUsage().totals
+  }
+
+  /**
+   * The usage added since an earlier WorkingMemory this one was made from, for example the WorkingMemory a
+   * MentalProcess received, to report the cost of handling a perception.
+   *
+   * @example
+   * ```
+   * const gainsTrust: MentalProcess = async ({ workingMemory }) => {
+   *   const [withDialog, said] = await externalDialog(workingMemory, "Talk to the user")
+   *   log("this perception cost", withDialog.usageSince(workingMemory).cost)
+   *   return withDialog
+   * }
+   * ```
+   */
+  usageSince(earlier: WorkingMemory): CumulativeUsage {
+    return usageDifference(this.totalUsage, earlier.totalUsage)
+  }
+
   /**
    * The `memories` attribute returns a copy of the memories currently stored in the WorkingMemory instance.
    * 
@@ -220,7 +304,7 @@ export class WorkingMemory extends EventEmitter {
    * const clonedMemory = originalMemory.clone([optionalNewMemories]);
    * ```
    */
-  clone(replacementMemories?: InputMemory[], overrides: Partial<{ regionOrder: string[] }> = {}) {
+  clone(replacementMemories?: InputMemory[], overrides: Partial<{ regionOrder: string[], contextBudget: ContextBudget | undefined, signal: AbortSignal | undefined }> = {}) {
     const { regionOrder } = overrides
 
     const newMemory = new WorkingMemory({
@@ -228,9 +312,26 @@ export class WorkingMemory extends EventEmitter {
       memories: replacementMemories || this.internalMemories,
       postCloneTransformation: this._postCloneTransformation,
       processor: this.processor,
+      modelRoutes: this.modelRoutes,
+      modelPrices: this.modelPrices,
+      totalUsage: this.totalUsage,
+      contextBudget: "contextBudget" in overrides ? overrides.contextBudget : this.contextBudget,
+      signal: "signal" in overrides ? overrides.signal : this.signal,
       regionOrder: regionOrder || this.regionOrder,
     })
-    return this._postCloneTransformation(newMemory)
+
+    const transformed = this._postCloneTransformation(newMemory)
+
+    // a clone of a pending WorkingMemory still counts the transformation that is in flight.
+    if (this._pending().pending) {
+      const usageAtClone = this.totalUsage
+      this.finished.then(() => {
+        const totalUsage = transformed._totalUsage()
+        totalUsage.totals = sumUsage(totalUsage.totals, usageDifference(this.totalUsage, usageAtClone))
+      })
+    }
+
+    return transformed
   }
 
   /**
@@ -268,6 +369,46 @@ export class WorkingMemory extends EventEmitter {
     return clone
   }
 
+  /**
+   * Returns a new WorkingMemory that keeps the memories sent to a processor within a token budget. Before every
+   * transformation that would go over the budget, the budget's eviction strategies shrink the memories, and the
+   * WorkingMemory returned by the transformation keeps the shrunk memories.
+   *
+   * @param contextBudget - The budget, or undefined to remove it.
+   * @returns A new WorkingMemory instance with the budget.
+   *
+   * @example
+   * ```
+   * const budgeted = workingMemory.withContextBudget({
+   *   maxTokens: 16_000,
+   *   models: { "gpt-3.5-turbo-0125": 8_000 },
+   *   strategies: [summarizeAndReplace({ model: "fast" }), dropOldest()],
+   * });
+   * ```
+   */
+  withContextBudget(contextBudget: ContextBudget | undefined) {
+    return this.clone(undefined, { contextBudget })
+  }
+
+  /**
+   * Returns a new WorkingMemory whose transformations are aborted when the signal is. A transformation that is
+   * aborted rejects, and the processor request in flight is cancelled.
+   *
+   * @param signal - The signal, or undefined to remove it.
+   * @returns A new WorkingMemory instance with the signal.
+   *
+   * @example
+   * ```
+   * const controller = new AbortController();
+   * const cancellable = workingMemory.withSignal(controller.signal);
+   * setTimeout(() => controller.abort(), 1_000);
+   * await internalMonologue(cancellable, "Think it over.");
+   * ```
+   */
+  withSignal(signal: AbortSignal | undefined) {
+    return this.clone(undefined, { signal })
+  }
+
   /**
    * Replaces the current memories in the WorkingMemory instance with new ones provided by the caller.
    * This method is nearly an alias of the `clone` method, with the key difference being that `replacementMemories` are required.
@@ -614,14 +755,14 @@ export class WorkingMemory extends EventEmitter {
    * Transforms the WorkingMemory using a specified processor and returns a new WorkingMemory instance along with the results of the transformation.
    * This function is a low-level API that is rarely used directly by users. Instead, users typically interact with CognitiveSteps defined in ./cognitiveStep.
    * The transformation can operate in two modes, determined by the `stream` option in the `opts` parameter:
-   * - If `stream: true` is passed, the function returns a stream of transformed data.
+   * - If `stream: true` is passed, the function returns a stream of transformed data (and, for transformations with a schema, a stream of the partially parsed response).
    * - Otherwise, it returns a single transformed result.
    * 
    * @param transformation - The transformation options to apply, including the processor to use.
    * @param opts - Options for the transformation, including whether to use streaming.
    * @returns A Promise resolving to a new WorkingMemory instance and the results of the transformation. The nature of the results depends on the `stream` option.
    */
-  async transform<SchemaType, PostProcessType>(transformation: MemoryTransformationOptions<SchemaType, PostProcessType>, opts: { stream: true } & TransformOptions): Promise<TransformReturnStreaming<PostProcessType>>;
+  async transform<SchemaType, PostProcessType>(transformation: MemoryTransformationOptions<SchemaType, PostProcessType>, opts: { stream: true } & TransformOptions): Promise<TransformReturnStreaming<PostProcessType, SchemaType>>;
   async transform<SchemaType, PostProcessType>(transformation: MemoryTransformationOptions<SchemaType, PostProcessType>, opts?: Omit<TransformOptions, 'stream'>): Promise<TransformReturnNonStreaming<PostProcessType>>;
   async transform<SchemaType, PostProcessType>(transformation: MemoryTransformationOptions<SchemaType, PostProcessType>, opts?: { stream: false } & Omit<TransformOptions, 'stream'>): Promise<TransformReturnNonStreaming<PostProcessType>>;
   async transform<SchemaType, PostProcessType>(transformation: MemoryTransformationOptions<SchemaType, PostProcessType>, opts: TransformOptions = {}) {
@@ -633,6 +774,63 @@ export class WorkingMemory extends EventEmitter {
     return newMemory.doTransform<SchemaType, PostProcessType>(transformation, opts)
   }
 
+  /**
+   * Returns a versioned, JSON serializable representation of the WorkingMemory: the memories, soul name, processor,
+   * region order and usage. Configuration that is not data (model routes, prices, the context budget and the
+   * postCloneTransformation) is not included, pass it to fromJSON again. Processor options that are not plain JSON
+   * are left out.
+   *
+   * @returns The serialized WorkingMemory, to be loaded with WorkingMemory.fromJSON.
+   *
+   * @example
+   * ```
+   * await writeFile("checkpoint.json", JSON.stringify(workingMemory));
+   * ```
+   */
+  toJSON(): SerializedWorkingMemory {
+    const options = serializableProcessorOptions(this.processor.options)
+    return {
+      version: WORKING_MEMORY_FORMAT_VERSION,
+      soulName: this.soulName,
+      memories: this.memories,
+      processor: {
+        name: this.processor.name,
+        ...(options && { options }),
+      },
+      ...(this.regionOrder && { regionOrder: this.regionOrder }),
+      usage: this.usage,
+      totalUsage: this.totalUsage,
+    }
+  }
+
+  /**
+   * Loads a WorkingMemory serialized with toJSON (or from its JSON string). Serializations from older versions are
+   * migrated and everything is validated, so a corrupted checkpoint throws instead of producing a broken WorkingMemory.
+   *
+   * @param json - The serialized WorkingMemory.
+   * @param opts - Options that take precedence over the serialized ones (and the configuration that is not serialized).
+   *               The soulName is needed for memories stored before the soul name was serialized.
+   * @returns A new WorkingMemory instance.
+   *
+   * @example
+   * ```
+   * const workingMemory = WorkingMemory.fromJSON(await readFile("checkpoint.json", "utf8"), { modelRoutes });
+   * ```
+   */
+  static fromJSON(json: unknown, opts: Partial<WorkingMemoryInitOptions> = {}) {
+    const serialized = parseSerializedWorkingMemory(json, { soulName: opts.soulName })
+    const workingMemory = new WorkingMemory({
+      soulName: serialized.soulName,
+      memories: serialized.memories,
+      processor: serialized.processor,
+      regionOrder: serialized.regionOrder,
+      totalUsage: serialized.totalUsage,
+      ...opts,
+    })
+    Object.assign(workingMemory._usage(), serialized.usage)
+    return workingMemory
+  }
+
   /**
    * Returns a string representation of the internal memories of the WorkingMemory instance.
    * This method formats the internal memories into a readable string, showcasing each memory in a JSON stringified format.
@@ -676,16 +874,29 @@ export class WorkingMemory extends EventEmitter {
     }
     try {
       const {
-        postProcess = defaultPostProcessor<SchemaType>,
         command,
         schema,
         skipAutoSchemaAddition,
         streamProcessor,
+        tools,
+        toolChoice,
       } = transformation
+      const postProcess = transformation.postProcess ?? (tools ? toolPostProcessor : defaultPostProcessor<SchemaType>) as NonNullable<typeof transformation.postProcess>
+
+      if (schema && tools) {
+        throw new Error("a transformation cannot have both a schema and tools")
+      }
+
+      const signal = opts.signal ?? this.signal
+      signal?.throwIfAborted()
 
       const processorSpec = opts.processor || this.processor
 
-      const processor = getProcessor(processorSpec.name, processorSpec.options)
+      // a model alias is routed to its processor, unless the step explicitly asked for a processor.
+      const route = opts.processor ? undefined : resolveModelRoute(opts.model, this.modelRoutes)
+      const processor = route ?
+        new RoutedProcessor(opts.model!, route, this.modelRoutes) :
+        getProcessor(processorSpec.name, processorSpec.options)
 
       const commandMemory = typeof command === "string" ? {
         role: ChatMessageRoleEnum.System,
@@ -699,44 +910,70 @@ export class WorkingMemory extends EventEmitter {
         `
       }
 
+      if (this.contextBudget) {
+        const limit = contextBudgetLimit(this.contextBudget, {
+          models: [opts.model, route?.model],
+          processor: typeof route?.processor === "object" ? route.processor.name : route?.processor ?? processorSpec.name,
+        })
+        await this.fitContextBudget(limit - (opts.maxTokens ?? 0), commandMemory, processor.imageTokenProvider)
+      }
+
       const memoryWithCommand = this.withMemory(commandMemory)
 
       const response = await processor.process<SchemaType>({
         memory: memoryWithCommand,
         schema: (schema as ZodSchema<SchemaType>),
+        tools,
+        toolChoice,
         ...opts,
+        signal,
       })
 
+      const complete = async () => {
+        if (!tools) {
+          const [memory, value] = await postProcess(this, await response.parsed)
+          this.internalMemories.push(...this.memoriesFromInputMemories([memory]))
+          this.recordUsage(await response.usage)
+          return value
+        }
+        const toolResponse = await this.toolResponse(tools, response.parsed as Promise<string>, response.toolCalls)
+        const [memory, value] = await postProcess(this, toolResponse as SchemaType)
+        const results = toolResponse.toolCalls.filter(({ name }) => tools[name].execute).map(toolResultMemory)
+        this.internalMemories.push(...this.memoriesFromInputMemories([toolCallMemory(toolResponse, memory), ...results]))
+        this.recordUsage(await response.usage)
+        return value
+      }
+
       if (opts.stream) {
         const valuePromise = new Promise(async (resolve, reject) => {
           try {
-            const [memory, value] = await postProcess(this, await response.parsed)
-            this.internalMemories.push(...this.memoriesFromInputMemories([memory]))
-            const usageNumbers = await response.usage
-            const usageObj = this._usage()
-            Object.entries(usageNumbers).forEach(([key, value]) => {
-              (usageObj as any)[key] = value
-            })
-            resolve(value)
+            resolve(await complete())
           } catch (err) {
             reject(err)
           } finally {
             this.resolvePending()
           }
         })
+        // an aborted (eg. interrupted) stream rejects the value, which the step's caller might never await.
+        valuePromise.catch(() => undefined)
+
+        let textStream = response.stream
+        let partialStream: AsyncIterable<DeepPartial<SchemaType>> = (async function* () {})()
+        if (schema) {
+          if (response.attempts) {
+            partialStream = partialJSONAttemptsStream<SchemaType>(response.attempts)
+          } else {
+            const [forText, forPartials] = forkStream(response.stream, 2)
+            textStream = forText
+            partialStream = partialJSONStream<SchemaType>(forPartials)
+          }
+        }
 
-        const stream = streamProcessor ? await streamProcessor(this, response.stream) : response.stream
-        return [this, stream, valuePromise]
+        const stream = streamProcessor ? await streamProcessor(this, textStream) : textStream
+        return [this, stream, valuePromise, partialStream]
       }
 
-      const [memory, value] = await postProcess(this, await response.parsed)
-      this.internalMemories.push(...this.memoriesFromInputMemories([memory]))
-      const usageNumbers = await response.usage
-
-      const usageObj = this._usage()
-      Object.entries(usageNumbers).forEach(([key, value]) => {
-        (usageObj as any)[key] = value
-      })
+      const value = await complete()
       this.resolvePending()
 
       return [this, value]
@@ -747,6 +984,36 @@ export class WorkingMemory extends EventEmitter {
     }
   }
 
+  // validates the tools the model called and runs them.
+  private async toolResponse(tools: ToolDefinitions, content: Promise<string>, rawToolCalls: Promise<RawToolCall[]> = Promise.resolve([])): Promise<ToolResponse> {
+    const toolCalls = parseToolCalls(tools, await rawToolCalls)
+    return {
+      content: await content,
+      toolCalls: await executeToolCalls(tools, toolCalls),
+    }
+  }
+
+  // shrinks the memories of this (pending) working memory in place, so the transformation's result keeps them shrunk.
+  private async fitContextBudget(limit: number, commandMemory: InputMemory, imageTokenProvider?: ImageTokenProvider) {
+    const fitted = await fitToContextBudget(this, this.contextBudget!, limit, [commandMemory], imageTokenProvider)
+    if (fitted === this) {
+      return
+    }
+    this.internalMemories.splice(0, this.internalMemories.length, ...fitted.memories)
+    // strategies that use a cognitive step (like summarizeAndReplace) add its usage.
+    const totalUsage = this._totalUsage()
+    totalUsage.totals = sumUsage(totalUsage.totals, usageDifference(fitted.totalUsage, this.totalUsage))
+  }
+
+  private recordUsage(usageNumbers: UsageNumbers) {
+    const usageObj = this._usage()
+    Object.entries(usageNumbers).forEach(([key, value]) => {
+      (usageObj as any)[key] = value
+    })
+    const totalUsage = this._totalUsage()
+    totalUsage.totals = addUsage(totalUsage.totals, usageNumbers, this.modelPrices)
+  }
+
   private memoriesFromInputMemories(memories: InputMemory[]) {
     return memories.map((memory) => {
       return {
@@ -2,6 +2,8 @@ import type { ZodSchema } from "zod"
 import type { ProcessorSpecification, WorkingMemory } from "./WorkingMemory.js"
 import type { RequestOptions } from "./processors/Processor.js"
 import { InputMemory } from "./Memory.js"
+import type { DeepPartial } from "./partialJson.js"
+import type { ToolChoice, ToolDefinitions } from "./tools.js"
 
 export type StreamProcessor = (workingMemory: WorkingMemory, stream: AsyncIterable<string>) => (AsyncIterable<string> | Promise<AsyncIterable<string>>)
 
@@ -15,6 +17,16 @@ export interface MemoryTransformationOptions<SchemaType = string, PostProcessTyp
   postProcess?: (originalMemory: WorkingMemory, response: SchemaType) => (Promise<PostProcessReturn<PostProcessType>> | PostProcessReturn<PostProcessType>)
   streamProcessor?: StreamProcessor
   skipAutoSchemaAddition?: boolean
+  /**
+   * tools the model can choose to call. The response of the step is then a ToolResponse with the calls it made,
+   * which are validated against the params of the tools and (for tools with execute) run. The call and its results
+   * are added to the WorkingMemory. Tools cannot be combined with a schema.
+   */
+  tools?: ToolDefinitions
+  /**
+   * defaults to "auto".
+   */
+  toolChoice?: ToolChoice
 }
 
 export type TransformOptions =
@@ -24,12 +36,16 @@ export type TransformOptions =
     processor?: ProcessorSpecification
   }
 
-export type TransformReturnStreaming<PostProcessType> = [WorkingMemory, AsyncIterable<string>, Promise<PostProcessType>]
+/**
+ * The streamed text, the final value and (for steps with a schema) the partially parsed response as it streams in.
+ * Steps without a schema end their partial stream right away.
+ */
+export type TransformReturnStreaming<PostProcessType, SchemaType = PostProcessType> = [WorkingMemory, AsyncIterable<string>, Promise<PostProcessType>, AsyncIterable<DeepPartial<SchemaType>>]
 export type TransformReturnNonStreaming<PostProcessType> = [WorkingMemory, PostProcessType]
 export type TransformReturn<PostProcessType> = TransformReturnStreaming<PostProcessType> | TransformReturnNonStreaming<PostProcessType>
 
-export type CognitiveStep<UserArgType, PostProcessReturnType> = {
-  (memory: WorkingMemory, userArgs: UserArgType, transformOpts: TransformOptions & { stream: true }): Promise<TransformReturnStreaming<PostProcessReturnType>>
+export type CognitiveStep<UserArgType, PostProcessReturnType, SchemaType = PostProcessReturnType> = {
+  (memory: WorkingMemory, userArgs: UserArgType, transformOpts: TransformOptions & { stream: true }): Promise<TransformReturnStreaming<PostProcessReturnType, SchemaType>>
   (memory: WorkingMemory, userArgs: UserArgType, transformOpts?: Omit<TransformOptions, "stream">): Promise<TransformReturnNonStreaming<PostProcessReturnType>>
   (memory: WorkingMemory, userArgs: UserArgType, transformOpts: Omit<TransformOptions, "stream"> & { stream: false }): Promise<TransformReturnNonStreaming<PostProcessReturnType>>
 }
@@ -63,15 +79,38 @@ export type CognitiveStep<UserArgType, PostProcessReturnType> = {
  * const [newMemory, result] = await myCognitiveStep(workingMemory, userArgs);
  * // or
  * const [newMemory, stream, resultPromise] = await myCognitiveStep(workingMemory, userArgs, { stream: true })
+ * // or, to show the schema response field by field while it streams in
+ * const [, , resultPromise, partials] = await myCognitiveStep(workingMemory, userArgs, { stream: true })
+ * for await (const partial of partials) {
+ *   console.log(partial.answer)
+ * }
+ * ```
+ *
+ * Steps with tools respond with the tools the model chose to call:
+ * ```
+ * const tools = {
+ *   lookUpWeather: defineTool({
+ *     description: "Looks up the current weather in a city.",
+ *     params: z.object({ city: z.string() }),
+ *     execute: async ({ city }) => weatherIn(city),
+ *   }),
+ * }
+ * const chooseTool = createCognitiveStep((instructions: string) => ({
+ *   command: instructions,
+ *   tools,
+ *   postProcess: (memory, response: ToolResponse<typeof tools>) => [toolCallMemory(response), response],
+ * }));
+ *
+ * const [withWeather, { toolCalls }] = await chooseTool(workingMemory, "Find out what the weather is like where the user is.");
  * ```
  */
 export const createCognitiveStep =
   <UserArgType = undefined, SchemaType = string, PostProcessType = SchemaType>(
     transformationOptionsGenerator: (singleArg: UserArgType) => MemoryTransformationOptions<SchemaType, PostProcessType>
-  ): CognitiveStep<UserArgType, PostProcessType> => {
+  ): CognitiveStep<UserArgType, PostProcessType, SchemaType> => {
 
     return (async (workingMemory: WorkingMemory, singleArg: UserArgType, opts: TransformOptions = {}) => {
       const transformOpts = transformationOptionsGenerator(singleArg)
       return workingMemory.transform(transformOpts, opts)
-    }) as CognitiveStep<UserArgType, PostProcessType>
+    }) as CognitiveStep<UserArgType, PostProcessType, SchemaType>
   }
@@ -0,0 +1,226 @@
+import { encode } from "gpt-tokenizer/model/gpt-4"
+import type { WorkingMemory } from "./WorkingMemory.js"
+import { createCognitiveStep, CognitiveStep } from "./cognitiveStep.js"
+import { ChatMessageRoleEnum, InputMemory, Memory } from "./Memory.js"
+import { ImageTokenProvider, imageTokens } from "./images.js"
+import { SupportedModel } from "./sharedTypes/supportedModels.js"
+import { indentNicely } from "./utils.js"
+
+const DEFAULT_PINNED_REGIONS = ["core", "summary"]
+// what a chat message costs on top of its content.
+const MESSAGE_OVERHEAD = 4
+
+export interface EvictionContext {
+  /**
+   * how many tokens the memories may use in total.
+   */
+  maxTokens: number
+  tokensOf: (memory: InputMemory) => number
+  /**
+   * pinned memories are never evicted.
+   */
+  isPinned: (memory: Memory) => boolean
+}
+
+/**
+ * Shrinks a WorkingMemory towards the token budget. Strategies are applied in order until the memories fit, so a
+ * strategy does not need to get all the way under the budget by itself.
+ *
+ * Strategies run while a transformation is pending, so they must not transform the WorkingMemory they are given
+ * (transform a clone instead).
+ */
+export type EvictionStrategy = (memory: WorkingMemory, context: EvictionContext) => WorkingMemory | Promise<WorkingMemory>
+
+export interface ContextBudget {
+  /**
+   * the most tokens sent to a processor: the memories, the command and the maxTokens of the response.
+   */
+  maxTokens: number
+  /**
+   * limits for specific models (or model aliases), these take precedence over the processor limits and maxTokens.
+   */
+  models?: Partial<Record<SupportedModel, number>>
+  /**
+   * limits for specific processors, these take precedence over maxTokens.
+   */
+  processors?: Record<string, number>
+  /**
+   * defaults to dropping the oldest memories.
+   */
+  strategies?: EvictionStrategy[]
+  /**
+   * regions that are never evicted, defaults to "core" (where the soul engine puts the soul's core memory) and "summary".
+   */
+  pinnedRegions?: string[]
+  /**
+   * defaults to counting with the GPT-4 tokenizer (and images the way the step's processor charges for them).
+   */
+  countTokens?: (memory: InputMemory) => number
+  /**
+   * called when the strategies could not shrink the memory to fit (eg. because most of it is pinned), the
+   * transformation still goes ahead with the memory as it was left.
+   */
+  onOverBudget?: (memory: WorkingMemory, usage: { tokens: number, maxTokens: number }) => void
+}
+
+export const countMemoryTokens = (memory: InputMemory, imageTokenProvider: ImageTokenProvider = "openai"): number => {
+  if (typeof memory.content === "string") {
+    return encode(memory.content).length + MESSAGE_OVERHEAD
+  }
+  return memory.content.reduce((sum, part) => {
+    return sum + (part.type === "text" ? encode(part.text).length : imageTokens(part.image_url, imageTokenProvider))
+  }, MESSAGE_OVERHEAD)
+}
+
+export const contextBudgetLimit = (budget: ContextBudget, { models, processor }: { models: (string | undefined)[], processor: string }) => {
+  for (const model of models) {
+    const limit = model && budget.models?.[model as SupportedModel]
+    if (limit) {
+      return limit
+    }
+  }
+  return budget.processors?.[processor] ?? budget.maxTokens
+}
+
+/**
+ * Drops the oldest memories (only the ones in a region, when one is passed) until the memories fit the budget.
+ */
+export const dropOldest = ({ region }: { region?: string } = {}): EvictionStrategy => {
+  return (memory, { maxTokens, tokensOf, isPinned }) => {
+    let total = memory.memories.reduce((sum, m) => sum + tokensOf(m), 0)
+    const dropped = new Set<string>()
+
+    for (const m of memory.memories) {
+      if (total <= maxTokens) {
+        break
+      }
+      if (isPinned(m) || (region !== undefined && (m.region ?? "default") !== region)) {
+        continue
+      }
+      dropped.add(m._id)
+      total -= tokensOf(m)
+    }
+
+    return dropped.size > 0 ? memory.filter((m) => !dropped.has(m._id)) : memory
+  }
+}
+
+const conversationSummary = createCognitiveStep((instructions: string) => {
+  return {
+    command: ({ soulName: name }: WorkingMemory) => {
+      return {
+        role: ChatMessageRoleEnum.System,
+        content: indentNicely`
+          ## Instructions
+          ${instructions}
+
+          ## Rules
+          * Keep the summary to a short paragraph.
+          * Keep everything from an existing summary that is still relevant.
+          * Keep details that ${name} would want to remember.
+
+          Please reply with only the summary.
+        `,
+      }
+    },
+  }
+})
+
+export interface SummarizeAndReplaceOpts {
+  /**
+   * the step that writes the summary, it gets the memories that are evicted (and the existing summary).
+   */
+  step?: CognitiveStep<string, string>
+  /**
+   * the model used for the summary, defaults to the processor's default model.
+   */
+  model?: SupportedModel
+  /**
+   * where the summary goes, defaults to "summary".
+   */
+  region?: string
+  /**
+   * how many of the latest memories are never summarized, defaults to 4.
+   */
+  keepLatest?: number
+}
+
+/**
+ * Replaces the older memories with a summary of them, written by a cognitive step. An existing summary is
+ * summarized together with the evicted memories.
+ *
+ * @example
+ * ```ts
+ * workingMemory.withContextBudget({
+ *   maxTokens: 8_000,
+ *   strategies: [summarizeAndReplace({ model: "fast" }), dropOldest()],
+ * })
+ * ```
+ */
+export const summarizeAndReplace = ({ step = conversationSummary, model, region = "summary", keepLatest = 4 }: SummarizeAndReplaceOpts = {}): EvictionStrategy => {
+  return async (memory, { isPinned }) => {
+    const existingSummary = memory.memories.filter((m) => m.region === region)
+    const candidates = memory.memories.filter((m) => m.region !== region && !isPinned(m))
+    const evicted = candidates.slice(0, Math.max(0, candidates.length - keepLatest))
+    if (evicted.length === 0) {
+      return memory
+    }
+
+    const evictedIds = new Set(evicted.map((m) => m._id))
+    const [summarized, summary] = await step(
+      memory.clone([...existingSummary, ...evicted], { contextBudget: undefined }),
+      `Summarize the conversation above for ${memory.soulName}.`,
+      { model },
+    )
+
+    // cloned from the summarized memory, so the summary is counted in the usage.
+    return summarized
+      .clone(memory.memories.filter((m) => m.region !== region && !evictedIds.has(m._id)), { contextBudget: memory.contextBudget })
+      .withRegion(region, {
+        role: ChatMessageRoleEnum.System,
+        content: indentNicely`
+          ## Conversation so far
+          ${summary}
+        `,
+      })
+  }
+}
+
+/**
+ * the memory shrunk (with the budget's strategies) to fit within maxTokens, or the very same memory when it already fits.
+ * The tokens of the reserved memories (eg. the command of a transformation) are taken off the budget.
+ */
+export const fitToContextBudget = async (
+  memory: WorkingMemory,
+  budget: ContextBudget,
+  limit: number,
+  reserved: InputMemory[] = [],
+  imageTokenProvider?: ImageTokenProvider,
+) => {
+  const {
+    strategies = [dropOldest()],
+    pinnedRegions = DEFAULT_PINNED_REGIONS,
+    countTokens = (m: InputMemory) => countMemoryTokens(m, imageTokenProvider),
+  } = budget
+  const maxTokens = limit - reserved.reduce((sum, m) => sum + countTokens(m), 0)
+  const context: EvictionContext = {
+    maxTokens,
+    tokensOf: countTokens,
+    isPinned: (m) => !!m.region && pinnedRegions.includes(m.region),
+  }
+  const total = (m: WorkingMemory) => m.memories.reduce((sum, memory) => sum + countTokens(memory), 0)
+
+  let fitted = memory
+  for (const strategy of strategies) {
+    if (total(fitted) <= maxTokens) {
+      return fitted
+    }
+    fitted = await strategy(fitted, context)
+  }
+
+  const tokens = total(fitted)
+  if (tokens > maxTokens) {
+    budget.onOverBudget?.(fitted, { tokens, maxTokens })
+  }
+  return fitted
+}
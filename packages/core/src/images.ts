@@ -0,0 +1,221 @@
+import type { ImageURL } from "./Memory.js"
+
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+export type ImageTokenProvider = "openai" | "anthropic"
+
+// what images are assumed to be when their size is unknown (eg. images that are only a URL).
+const DEFAULT_DIMENSIONS: ImageDimensions = { width: 1024, height: 1024 }
+// the sizes are read from this much of the base64 data. JPEGs put their size after the metadata segments
+// (EXIF thumbnails among them), which rarely take up more than 64KB.
+const HEADER_BASE64_LENGTH = 4 * Math.ceil(64 * 1024 / 3)
+
+const OPENAI_LOW_DETAIL_TOKENS = 85
+const OPENAI_TILE_TOKENS = 170
+const OPENAI_TILE_SIZE = 512
+const OPENAI_MAX_SIZE = 2048
+const OPENAI_SHORT_SIDE = 768
+
+const ANTHROPIC_MAX_LONG_EDGE = 1568
+const ANTHROPIC_MAX_PIXELS = 1_150_000
+const ANTHROPIC_PIXELS_PER_TOKEN = 750
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  let binary = ""
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * The base64 data (and the media type, for data URLs) of an image url that is a `data:` URL or plain base64 encoded
+ * image data, undefined for images that need to be downloaded.
+ */
+export const inlineImageData = (url: string): { mediaType?: string, data: string } | undefined => {
+  const match = url.match(/^data:([^;,]*)?(?:;[^,]*)?;base64,(.*)$/s)
+  if (match) {
+    return { mediaType: match[1] || undefined, data: match[2] }
+  }
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(url)) {
+    return { data: url }
+  }
+  return undefined
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) => {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+/**
+ * Recognizes PNG, JPEG, GIF and WebP images by their first bytes.
+ */
+export const detectImageMediaType = (bytes: Uint8Array): string | undefined => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    return "image/png"
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg"
+  }
+  if (startsWith(bytes, ascii("GIF8"))) {
+    return "image/gif"
+  }
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) {
+    return "image/webp"
+  }
+  return undefined
+}
+
+const jpegDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | undefined => {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return undefined
+    }
+    const marker = bytes[offset + 1]
+    // fill bytes, and markers without a length.
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2
+      continue
+    }
+    // the start of frame markers (except the huffman, arithmetic coding and JPEG extension ones) hold the size.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return undefined
+}
+
+const webpDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | undefined => {
+  if (startsWith(bytes, ascii("VP8 "), 12)) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+  }
+  if (startsWith(bytes, ascii("VP8L"), 12)) {
+    const [b0, b1, b2, b3] = bytes.slice(21, 25)
+    return {
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+    }
+  }
+  if (startsWith(bytes, ascii("VP8X"), 12)) {
+    const uint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+    return { width: 1 + uint24(24), height: 1 + uint24(27) }
+  }
+  return undefined
+}
+
+/**
+ * The media type of base64 encoded image data, from its first bytes.
+ */
+export const detectBase64ImageMediaType = (data: string): string | undefined => {
+  try {
+    return detectImageMediaType(base64ToBytes(data.slice(0, 16)))
+  } catch (err) {
+    // not valid base64.
+    return undefined
+  }
+}
+
+/**
+ * Reads the width and height from the header of a PNG, JPEG, GIF or WebP image.
+ */
+export const imageDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  try {
+    switch (detectImageMediaType(bytes)) {
+      case "image/png":
+        return { width: view.getUint32(16), height: view.getUint32(20) }
+      case "image/gif":
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+      case "image/jpeg":
+        return jpegDimensions(bytes, view)
+      case "image/webp":
+        return webpDimensions(bytes, view)
+      default:
+        return undefined
+    }
+  } catch (err) {
+    // a truncated header.
+    return undefined
+  }
+}
+
+/**
+ * The dimensions of an image that is inlined (as a data URL or base64), undefined for remote images (or unknown formats).
+ */
+export const imageUrlDimensions = (url: string): ImageDimensions | undefined => {
+  const inline = inlineImageData(url)
+  if (!inline) {
+    return undefined
+  }
+  try {
+    return imageDimensions(base64ToBytes(inline.data.slice(0, HEADER_BASE64_LENGTH)))
+  } catch (err) {
+    // not valid base64.
+    return undefined
+  }
+}
+
+// images without a width or height (eg. a broken header) count as an image of unknown size.
+const knownDimensions = (dimensions: ImageDimensions) => dimensions.width > 0 && dimensions.height > 0 ? dimensions : DEFAULT_DIMENSIONS
+
+/**
+ * What OpenAI charges for an image: low detail images are a flat 85 tokens, others are scaled to fit 2048x2048 and
+ * then to 768 pixels on their short side, and cost 170 tokens per 512x512 tile (plus 85).
+ */
+export const openAIImageTokens = (dimensions: ImageDimensions = DEFAULT_DIMENSIONS, detail: ImageURL["detail"] = "auto") => {
+  if (detail === "low") {
+    return OPENAI_LOW_DETAIL_TOKENS
+  }
+  let { width, height } = knownDimensions(dimensions)
+  const fit = Math.min(1, OPENAI_MAX_SIZE / Math.max(width, height))
+  width *= fit
+  height *= fit
+  const shortSide = Math.min(1, OPENAI_SHORT_SIDE / Math.min(width, height))
+  width *= shortSide
+  height *= shortSide
+  const tiles = Math.ceil(width / OPENAI_TILE_SIZE) * Math.ceil(height / OPENAI_TILE_SIZE)
+  return tiles * OPENAI_TILE_TOKENS + OPENAI_LOW_DETAIL_TOKENS
+}
+
+/**
+ * What Anthropic charges for an image: about one token per 750 pixels, after images are scaled down to at most
+ * 1568 pixels on their long edge and about 1.15 megapixels.
+ */
+export const anthropicImageTokens = (dimensions: ImageDimensions = DEFAULT_DIMENSIONS) => {
+  const { width, height } = knownDimensions(dimensions)
+  const scale = Math.min(
+    1,
+    ANTHROPIC_MAX_LONG_EDGE / Math.max(width, height),
+    Math.sqrt(ANTHROPIC_MAX_PIXELS / (width * height)),
+  )
+  return Math.ceil((width * scale) * (height * scale) / ANTHROPIC_PIXELS_PER_TOKEN)
+}
+
+/**
+ * Estimates the tokens of an image from its dimensions (remote images, whose size is unknown, count as 1024x1024).
+ */
+export const imageTokens = (image: ImageURL, provider: ImageTokenProvider = "openai") => {
+  const dimensions = imageUrlDimensions(image.url)
+  return provider === "anthropic" ? anthropicImageTokens(dimensions) : openAIImageTokens(dimensions, image.detail)
+}
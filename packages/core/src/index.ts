@@ -3,8 +3,14 @@ export { z } from 'zod';
 export * from './cognitiveStep.js'
 export * from './processors/index.js'
 export * from './forkStream.js'
+export * from './partialJson.js'
 export * from './utils.js'
 export * from './WorkingMemory.js'
+export * from './usage.js'
+export * from './contextBudget.js'
+export * from './tools.js'
+export * from './images.js'
+export * from './serialization.js'
 export * from './Memory.js'
 
 export * from "./sharedTypes/index.js"
@@ -2,5 +2,6 @@ export { z } from 'zod';
 
 export * from './cognitiveStep.js'
 export * from './forkStream.js'
+export * from './partialJson.js'
 export * from './utils.js'
 export * from "./Memory.js"
\ No newline at end of file
@@ -0,0 +1,143 @@
+import type { Json } from "./sharedTypes/index.js"
+
+/**
+ * What a partially streamed schema response looks like: every property (at any depth) might still be missing,
+ * and strings or arrays might not be complete yet.
+ */
+export type DeepPartial<T> =
+  T extends (infer U)[] ? DeepPartial<U>[] :
+  T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } :
+  T
+
+interface SafePoint {
+  end: number
+  closing: string
+}
+
+const tryParse = (text: string): Json | undefined => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Parses the (possibly incomplete) JSON at the start of a completion. Open strings, arrays and objects
+ * are closed, and whatever can not be completed yet (a half written key, number or literal) is left out.
+ * Any text before the first `{` or `[` is skipped, like extractJSON does.
+ *
+ * @example
+ * ```ts
+ * parsePartialJSON('{"decision": "ye') // { decision: "ye" }
+ * parsePartialJSON('{"items": [1, 2, tr') // { items: [1, 2] }
+ * ```
+ */
+export const parsePartialJSON = (text: string): Json | undefined => {
+  const start = text.search(/[[{]/)
+  if (start === -1) {
+    return undefined
+  }
+
+  const closers: string[] = []
+  const safePoints: SafePoint[] = []
+  const closing = () => [...closers].reverse().join("")
+
+  let inString = false
+  let escaped = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === "\\") {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    switch (char) {
+      case '"':
+        inString = true
+        break
+      case "{":
+        closers.push("}")
+        safePoints.push({ end: i + 1, closing: closing() })
+        break
+      case "[":
+        closers.push("]")
+        safePoints.push({ end: i + 1, closing: closing() })
+        break
+      case "}":
+      case "]":
+        closers.pop()
+        if (closers.length === 0) {
+          return tryParse(text.slice(start, i + 1))
+        }
+        safePoints.push({ end: i + 1, closing: closing() })
+        break
+      case ",":
+        // everything before a comma is a complete member (or element).
+        safePoints.push({ end: i, closing: closing() })
+        break
+    }
+  }
+
+  let body = text.slice(start)
+  if (inString) {
+    // drop a half written escape sequence before closing the string.
+    body = escaped ? body.slice(0, -1) : body.replace(/\\u[0-9a-fA-F]{0,3}$/, "")
+    body += '"'
+  }
+
+  const completed = tryParse(body + closing())
+  if (completed !== undefined) {
+    return completed
+  }
+
+  for (let i = safePoints.length - 1; i >= 0; i--) {
+    const { end, closing } = safePoints[i]
+    const parsed = tryParse(text.slice(start, end) + closing)
+    if (parsed !== undefined) {
+      return parsed
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Turns the text stream of a schema step into a stream of partial objects, yielding whenever the parsed value changed.
+ * The partial objects are not validated against the schema (they could not pass it before they are complete).
+ */
+export async function* partialJSONStream<T>(stream: AsyncIterable<string>): AsyncIterable<DeepPartial<T>> {
+  let text = ""
+  let previous: string | undefined
+
+  for await (const chunk of stream) {
+    text += chunk
+    const partial = parsePartialJSON(text)
+    if (partial === undefined) {
+      continue
+    }
+    const serialized = JSON.stringify(partial)
+    if (serialized === previous) {
+      continue
+    }
+    previous = serialized
+    yield partial as DeepPartial<T>
+  }
+}
+
+/**
+ * The partial objects of every attempt at a schema step (see `attempts` in ProcessResponse). When an attempt did not
+ * parse, the next partial object is the start of the retry, so the last one is always of the attempt that parsed.
+ */
+export async function* partialJSONAttemptsStream<T>(attempts: AsyncIterable<AsyncIterable<string>>): AsyncIterable<DeepPartial<T>> {
+  for await (const attempt of attempts) {
+    yield* partialJSONStream<T>(attempt)
+  }
+}
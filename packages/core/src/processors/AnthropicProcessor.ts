@@ -1,29 +1,38 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { trace, context } from "@opentelemetry/api";
 import { registerProcessor } from "./registry.js";
-import { ChatMessageRoleEnum, Memory } from "../Memory.js";
+import { ChatMessageRoleEnum, ContentImage, ImageURL, Memory } from "../Memory.js";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 
 import {
-  extractJSON,
   Processor,
   prepareMemoryForJSON,
+  processWithRetries,
+  structuredOutputSchema,
   UsageNumbers,
   ProcessOpts,
   ProcessResponse
 } from "./Processor.js";
-import { backOff } from "exponential-backoff";
 import { ChatMessage } from "gpt-tokenizer/GptEncoding";
 import { fixMessageRoles } from './messageRoleFixer.js';
 import { forkStream } from '../forkStream.js';
+import { RawToolCall, toolCallIdFromMemory, toolCallsToSend } from '../tools.js';
+import { arrayBufferToBase64, detectBase64ImageMediaType, inlineImageData } from '../images.js';
 
 const tracer = trace.getTracer(
-  'open-souls-OpenAIProcessor',
+  'open-souls-AnthropicProcessor',
   '0.0.1',
 );
 
+// the SDK types predate tool use, these are the blocks the API accepts.
+type AnthropicContentBlock =
+  { type: "text", text: string } |
+  { type: "tool_use", id: string, name: string, input: unknown } |
+  { type: "tool_result", tool_use_id: string, content: string } |
+  { type: "image", source: { type: "base64", media_type: string, data: string } }
+
 interface AnthropicMessage {
-  content: string
+  content: string | AnthropicContentBlock[]
   role: ChatMessageRoleEnum.Assistant | ChatMessageRoleEnum.User
 }
 
@@ -46,10 +55,29 @@ export type AnthropicDefaultCompletionParams = AnthropicCompletionParams & {
   model: AnthropicCompletionParams["model"] | string;
 };
 
-const memoryToChatMessage = (memory: Memory): ChatCompletionMessageParam => {
+// tool calls and their results become content blocks, which fixMessageRoles keeps when it merges messages.
+const memoryToChatMessage = (memory: Memory, memories: Memory[]): ChatCompletionMessageParam => {
+  const toolCallId = toolCallIdFromMemory(memory)
+  if (toolCallId) {
+    const block: AnthropicContentBlock = { type: "tool_result", tool_use_id: toolCallId, content: memory.content as string }
+    return {
+      role: ChatMessageRoleEnum.User,
+      content: [block],
+    } as unknown as ChatCompletionMessageParam
+  }
+
+  const { toolCalls, content } = toolCallsToSend(memory, memories)
+  if (toolCalls) {
+    const blocks: AnthropicContentBlock[] = toolCalls.map(({ id, name, params }) => ({ type: "tool_use", id, name, input: params }))
+    return {
+      role: memory.role,
+      content: [...(typeof content === "string" ? [{ type: "text", text: content }] : content), ...blocks],
+    } as unknown as ChatCompletionMessageParam
+  }
+
   return {
     role: memory.role,
-    content: memory.content,
+    content,
     ...(memory.name && { name: memory.name })
   } as ChatCompletionMessageParam
 }
@@ -59,29 +87,74 @@ export interface AnthropicProcessorOpts {
   defaultCompletionParams?: Partial<AnthropicDefaultCompletionParams>
   defaultRequestOptions?: Partial<AnthropicRequestOptions>
   customClient?: ICompatibleAnthropicClient
+  /**
+   * sends the schema of schema steps as the input schema of a tool that claude is forced to call, instead of
+   * only describing it in the prompt. Schemas that are not objects, and clients that reject tools, fall back
+   * to the prompt-based path.
+   */
+  structuredOutput?: boolean
+  /**
+   * replaces the global fetch used to download images that are sent as a URL (for proxies and tests).
+   */
+  fetch?: typeof fetch
+}
+
+const STRUCTURED_OUTPUT_TOOL = "respond"
+
+const IMAGE_MEDIA_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"]
+
+type ImageBlock = (image: ImageURL) => Promise<AnthropicContentBlock>
+
+const textOf = (content: ChatCompletionMessageParam["content"]) => {
+  if (!Array.isArray(content)) {
+    return content || ""
+  }
+  return content.flatMap((part) => part.type === "text" ? [part.text] : []).join("\n")
+}
+
+const anthropicContent = async (content: ChatCompletionMessageParam["content"], imageBlock: ImageBlock): Promise<AnthropicMessage["content"]> => {
+  if (!Array.isArray(content)) {
+    return content as string
+  }
+  // claude rejects empty text blocks (and merged messages end in whitespace).
+  const blocks = await Promise.all((content as (AnthropicContentBlock | ContentImage)[]).map(async (block): Promise<AnthropicContentBlock[]> => {
+    if (block.type === "image_url") {
+      return [await imageBlock(block.image_url)]
+    }
+    if (block.type !== "text") {
+      return [block]
+    }
+    const text = block.text.trim()
+    return text ? [{ type: "text", text }] : []
+  }))
+  // tool results have to come before anything else in a message.
+  return [
+    ...blocks.flat().filter((block) => block.type === "tool_result"),
+    ...blocks.flat().filter((block) => block.type !== "tool_result"),
+  ]
 }
 
-const openAiToAnthropicMessages = (openAiMessages: ChatCompletionMessageParam[]): { system?: string, messages: AnthropicMessage[] } => {
+const openAiToAnthropicMessages = async (openAiMessages: ChatCompletionMessageParam[], imageBlock: ImageBlock): Promise<{ system?: string, messages: AnthropicMessage[] }> => {
   let systemMessage: string | undefined
 
-  const messages = openAiMessages.map((m) => {
+  const messages = (await Promise.all(openAiMessages.map(async (m) => {
     if (m.role === ChatMessageRoleEnum.System) {
       if (openAiMessages.length > 1) {
         systemMessage ||= ""
-        systemMessage += m.content + "\n"
+        systemMessage += textOf(m.content) + "\n"
         return undefined
       }
 
       return {
-        content: m.content,
+        content: await anthropicContent(m.content, imageBlock),
         role: ChatMessageRoleEnum.User,
       } as AnthropicMessage
     }
     return {
-      content: m.content,
+      content: await anthropicContent(m.content, imageBlock),
       role: m.role
     } as AnthropicMessage
-  }).filter(Boolean) as AnthropicMessage[]
+  }))).filter(Boolean) as AnthropicMessage[]
 
   // claude requires the first message to be user.
   if (messages[0]?.role === ChatMessageRoleEnum.Assistant) {
@@ -94,14 +167,23 @@ const openAiToAnthropicMessages = (openAiMessages: ChatCompletionMessageParam[])
   return { system: systemMessage, messages: messages }
 }
 
-async function* chunkStreamToTextStream(chunkStream: AsyncIterable<Anthropic.MessageStreamEvent>) {
+async function* chunkStreamToTextStream(chunkStream: AsyncIterable<Anthropic.MessageStreamEvent>, structuredOutput: boolean) {
   try {
     for await (const evt of chunkStream) {
       if (evt.type !== "content_block_delta") {
         continue
       }
   
-      yield evt.delta.text;
+      // forced tool calls (structured output) stream their input as JSON instead of text, the input of other tools
+      // is not part of the text.
+      const delta = evt.delta as { type: string, text?: string, partial_json?: string }
+      if (delta.type === "input_json_delta") {
+        if (structuredOutput) {
+          yield delta.partial_json || ""
+        }
+        continue
+      }
+      yield delta.text || "";
     }
   } catch (err: any) {
     if (err.message?.toLowerCase().includes("abort")) {
@@ -111,6 +193,31 @@ async function* chunkStreamToTextStream(chunkStream: AsyncIterable<Anthropic.Mes
   }
 }
 
+async function chunkStreamToToolCalls(chunkStream: AsyncIterable<Anthropic.MessageStreamEvent>) {
+  const toolCalls = new Map<number, RawToolCall>()
+
+  try {
+    for await (const evt of chunkStream) {
+      const block = evt.type === "content_block_start" ? evt.content_block as unknown as { type: string, id: string, name: string } : undefined
+      if (evt.type === "content_block_start" && block?.type === "tool_use") {
+        toolCalls.set(evt.index, { id: block.id, name: block.name, arguments: "" })
+      }
+
+      const delta = evt.type === "content_block_delta" ? evt.delta as { type: string, partial_json?: string } : undefined
+      const toolCall = evt.type === "content_block_delta" ? toolCalls.get(evt.index) : undefined
+      if (toolCall && delta?.type === "input_json_delta") {
+        toolCall.arguments += delta.partial_json || ""
+      }
+    }
+  } catch (err: any) {
+    if (!err.message?.toLowerCase().includes("abort")) {
+      throw err
+    }
+  }
+
+  return [...toolCalls.values()]
+}
+
 async function chunkStreamToUsage(chunkStream: AsyncIterable<Anthropic.MessageStreamEvent>) {
   const usage = { input: 0, output: 0 }
 
@@ -131,23 +238,31 @@ const DEFAULT_MODEL = "claude-3-opus-20240229"
 
 export class AnthropicProcessor implements Processor {
   static label = "anthropic"
+  readonly imageTokenProvider = "anthropic"
   private client: CompatibleAnthropicClient
 
   private defaultRequestOptions: Partial<AnthropicRequestOptions>
   private defaultCompletionParams: Partial<AnthropicDefaultCompletionParams>
+  private structuredOutput: boolean
+  private fetch: typeof fetch
 
-  constructor({ clientOptions, defaultRequestOptions, defaultCompletionParams, customClient }: AnthropicProcessorOpts) {
+  constructor({ clientOptions, defaultRequestOptions, defaultCompletionParams, customClient, structuredOutput, fetch: customFetch }: AnthropicProcessorOpts) {
     this.client = new (customClient ?? Anthropic)(clientOptions)
+    this.fetch = customFetch || ((...args) => globalThis.fetch(...args))
     this.defaultRequestOptions = defaultRequestOptions || {}
     this.defaultCompletionParams = defaultCompletionParams || {}
+    this.structuredOutput = structuredOutput || false
   }
 
   async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
-    return tracer.startActiveSpan("OpenAIProcessor.process", async (span) => {
+    return tracer.startActiveSpan("AnthropicProcessor.process", async (span) => {
       context.active()
 
+      // tool inputs are always objects, so only object schemas can use structured output.
+      let structuredOutput = !!(opts.schema && this.structuredOutput && structuredOutputSchema(opts.schema).type === "object")
+
       let memory = opts.memory
-      if (opts.schema) {
+      if (opts.schema && !structuredOutput) {
         memory = prepareMemoryForJSON(memory)
       }
 
@@ -156,48 +271,44 @@ export class AnthropicProcessor implements Processor {
         memory: JSON.stringify(memory),
       })
 
-      return backOff(
-        async () => {
+      // remote images are downloaded once, not again for every retry.
+      const imageBlocks = new Map<string, Promise<AnthropicContentBlock>>()
+      const imageBlock: ImageBlock = (image) => {
+        let block = imageBlocks.get(image.url)
+        if (!block) {
+          block = this.imageBlock(image, opts)
+          imageBlocks.set(image.url, block)
+        }
+        return block
+      }
+
+      return processWithRetries({
+        schema: opts.schema,
+        memory,
+        span,
+        execute: async (memory) => {
+          const usedStructuredOutput = structuredOutput
           const resp = await this.execute({
             ...opts,
-            memory,
-          })
-
-          // TODO: how do we both return a stream *and* also parse the json and retry?
-          if (opts.schema) {
-            const completion = await resp.rawCompletion
-            const extracted = extractJSON(completion)
-            span.addEvent("extracted")
-            span.setAttribute("extracted", extracted || "none")
-            if (!extracted) {
-              throw new Error('no json found in completion')
-            }
-            const parsed = opts.schema.parse(JSON.parse(extracted))
-            span.addEvent("parsed")
-            span.end()
-            return {
-              ...resp,
-              parsed: Promise.resolve(parsed),
-            }
+            memory: opts.schema && !usedStructuredOutput ? prepareMemoryForJSON(memory) : memory,
+          }, imageBlock, usedStructuredOutput)
+          if (!usedStructuredOutput) {
+            return resp
           }
-
           return {
             ...resp,
-            parsed: (resp.rawCompletion as Promise<SchemaType>)
+            // the request only fails once the stream is read.
+            rawCompletion: resp.rawCompletion.catch((err) => {
+              if (err?.status === 400) {
+                console.warn("structured output was rejected, falling back to the prompt", err.message)
+                span.addEvent("structured-output-fallback")
+                structuredOutput = false
+              }
+              throw err
+            }),
           }
         },
-        {
-          numOfAttempts: 5,
-          retry: (err) => {
-            if (err.message.includes("aborted")) {
-              return false
-            }
-            span.addEvent("retry")
-            console.error("retrying due to error", err)
-
-            return true
-          },
-        })
+      })
     })
 
   }
@@ -206,15 +317,22 @@ export class AnthropicProcessor implements Processor {
     maxTokens,
     memory,
     model: developerSpecifiedModel,
+    schema,
     signal,
     timeout,
     temperature,
-  }: ProcessOpts<SchemaType>): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
+    tools,
+    toolChoice,
+  }: ProcessOpts<SchemaType>, imageBlock: ImageBlock, structuredOutput = false): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
     return tracer.startActiveSpan("AnthropicProcessor.execute", async (span) => {
       try {
         const model = developerSpecifiedModel || this.defaultCompletionParams.model || DEFAULT_MODEL
 
-        const { system, messages } = openAiToAnthropicMessages(this.possiblyFixMessageRoles(memory.memories.map(memoryToChatMessage)))
+        const memories = memory.memories
+        const { system, messages } = await openAiToAnthropicMessages(
+          this.possiblyFixMessageRoles(memories.map((m) => memoryToChatMessage(m, memories))),
+          imageBlock,
+        )
 
         const params = {
           system,
@@ -228,12 +346,21 @@ export class AnthropicProcessor implements Processor {
           outgoingParams: JSON.stringify(params),
         })
 
-        // TODO, do we want to do anything with schema here to make claude more aware of JSON?
         const stream = this.client.messages.stream(
           {
             ...this.defaultCompletionParams,
             ...params,
-          },
+            ...(schema && structuredOutput && {
+              tools: [{
+                name: STRUCTURED_OUTPUT_TOOL,
+                description: "Respond with JSON conforming to the input schema.",
+                input_schema: structuredOutputSchema(schema),
+              }],
+              tool_choice: { type: "tool", name: STRUCTURED_OUTPUT_TOOL },
+            }),
+            ...(tools && this.toolParams(tools, toolChoice)),
+            // the SDK types predate tool use, the API accepts it.
+          } as AnthropicCompletionParams,
           {
             ...this.defaultRequestOptions,
             signal,
@@ -241,8 +368,8 @@ export class AnthropicProcessor implements Processor {
           }
         )
 
-        const [baseStream1, baseStream2] = forkStream(stream, 2)
-        const [textStream1, textStream2] = forkStream(chunkStreamToTextStream(baseStream1), 2)
+        const [baseStream1, baseStream2, toolCallStream] = forkStream(stream, tools ? 3 : 2)
+        const [textStream1, textStream2] = forkStream(chunkStreamToTextStream(baseStream1, !!(schema && structuredOutput)), 2)
 
         // const baseStream = new ReusableStream(stream)
 
@@ -263,6 +390,10 @@ export class AnthropicProcessor implements Processor {
           }
         })
 
+        const toolCalls = tools ? chunkStreamToToolCalls(toolCallStream) : undefined
+        // a failed stream also fails the rawCompletion, callers that only read that should not see it again.
+        toolCalls?.catch(() => {})
+
         const usagePromise = new Promise<UsageNumbers>(async (resolve, reject) => {
           try {
             const { input: inputTokenCount, output: outputTokenCount } = await chunkStreamToUsage(baseStream2)
@@ -282,12 +413,11 @@ export class AnthropicProcessor implements Processor {
           }
         })
 
-        // TODO: schema
-
         return {
           rawCompletion: fullContentPromise,
           stream: textStream2,
           usage: usagePromise,
+          ...(toolCalls && { toolCalls }),
         }
       } catch (err: any) {
         span.recordException(err)
@@ -296,6 +426,64 @@ export class AnthropicProcessor implements Processor {
     })
   }
 
+  private toolParams(tools: NonNullable<ProcessOpts["tools"]>, toolChoice: ProcessOpts["toolChoice"] = "auto") {
+    return {
+      tools: Object.entries(tools).map(([name, { description, params }]) => ({
+        name,
+        description,
+        input_schema: structuredOutputSchema(params),
+      })),
+      tool_choice: toolChoice === "auto" ? { type: "auto" } : toolChoice === "required" ? { type: "any" } : { type: "tool", name: toolChoice },
+    }
+  }
+
+  // claude only takes base64 encoded images, so remote images are downloaded first.
+  private async imageBlock({ url }: ImageURL, { signal, timeout }: Pick<ProcessOpts, "signal" | "timeout">): Promise<AnthropicContentBlock> {
+    let image = inlineImageData(url)
+    if (!image) {
+      image = await this.downloadImage(url, { signal, timeout })
+    }
+
+    // the bytes are more reliable than what a data URL (or a server) says the image is.
+    const mediaType = detectBase64ImageMediaType(image.data) ?? image.mediaType
+    if (!mediaType || !IMAGE_MEDIA_TYPES.includes(mediaType)) {
+      throw new Error(`claude does not support images of type ${mediaType ?? "unknown"} (${url.slice(0, 64)})`)
+    }
+
+    return {
+      type: "image",
+      source: { type: "base64", media_type: mediaType, data: image.data },
+    }
+  }
+
+  // a download gives up with the step (or after its timeout).
+  private async downloadImage(url: string, { signal, timeout }: Pick<ProcessOpts, "signal" | "timeout">) {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener("abort", abort)
+    const timer = setTimeout(abort, timeout || 10_000)
+
+    try {
+      signal?.throwIfAborted()
+      const response = await this.fetch(url, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`could not download image ${url}: ${response.status}`)
+      }
+      return {
+        mediaType: response.headers.get("content-type")?.split(";")[0].trim(),
+        data: arrayBufferToBase64(await response.arrayBuffer()),
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted || signal?.aborted) {
+        throw new Error(`the download of image ${url} was aborted: ${err.message}`)
+      }
+      throw err
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", abort)
+    }
+  }
+
   private possiblyFixMessageRoles(messages: (ChatMessage | ChatCompletionMessageParam)[]): ChatCompletionMessageParam[] {
     return fixMessageRoles({ singleSystemMessage: true, forcedRoleAlternation: true }, messages)
   }
@@ -0,0 +1,193 @@
+import { trace, context } from "@opentelemetry/api";
+
+import { registerProcessor, getProcessor } from "./registry.js";
+import { ProcessorSpecification } from "../WorkingMemory.js";
+import { SupportedModel } from "../sharedTypes/supportedModels.js";
+import { Processor, ProcessOpts, ProcessResponse } from "./Processor.js";
+
+const tracer = trace.getTracer(
+  'open-souls-FallbackProcessor',
+  '0.0.1',
+);
+
+const DEFAULT_FAILURE_THRESHOLD = 3
+const DEFAULT_COOLDOWN = 30_000
+
+export interface FallbackProcessorEntry extends ProcessorSpecification {
+  /**
+   * the model sent to this processor, the cognitive step's model is used when left out.
+   */
+  model?: SupportedModel
+  /**
+   * entries sharing a circuit open and close together, defaults to the processor name.
+   */
+  circuit?: string
+}
+
+export interface FallbackProcessorOpts {
+  /**
+   * the processors to try, in order.
+   */
+  processors: FallbackProcessorEntry[]
+  /**
+   * how many failures in a row open the circuit of a processor, defaults to 3.
+   */
+  failureThreshold?: number
+  /**
+   * milliseconds an open circuit skips its processor before a single request is let through again, defaults to 30 seconds.
+   */
+  cooldown?: number
+  /**
+   * decides if an error moves on to the next processor. Defaults to rate limits, 5xx responses, timeouts and connection errors,
+   * anything else (like a bad request) is thrown right away.
+   */
+  shouldFailOver?: (err: any) => boolean
+}
+
+interface CircuitState {
+  failures: number
+  openUntil: number
+}
+
+// processors are created for every request, so circuits are kept for the whole process.
+const circuits = new Map<string, CircuitState>()
+
+/**
+ * Closes every circuit opened by FallbackProcessors.
+ */
+export const resetProcessorCircuits = () => {
+  circuits.clear()
+}
+
+const FAILOVER_MESSAGE = /timed? ?out|timeout|rate limit|overloaded|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|fetch failed|socket hang up/i
+
+/**
+ * true for errors another provider might not have: rate limits, 5xx responses, timeouts and connection errors.
+ */
+export const isFailoverError = (err: any): boolean => {
+  const status = err?.status ?? err?.statusCode ?? err?.response?.status
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500
+  }
+  if (err?.name === "APIConnectionError" || err?.name === "APIConnectionTimeoutError") {
+    return true
+  }
+  return FAILOVER_MESSAGE.test(err?.message ?? "")
+}
+
+/**
+ * A processor that sends a request to the first of several processors that is available, and fails over to the next one
+ * when a provider is rate limited, erroring or timing out. A provider that keeps failing has its circuit opened: it is
+ * skipped for a cooldown, after which a single request is let through to see if it recovered.
+ *
+ * The returned usage records which processor actually answered.
+ *
+ * @example
+ * ```ts
+ * const memory = new WorkingMemory({
+ *   soulName: "Samantha",
+ *   processor: {
+ *     name: "fallback",
+ *     options: {
+ *       processors: [
+ *         { name: "openai", model: "gpt-4o" },
+ *         { name: "anthropic", model: "claude-3-opus-20240229" },
+ *       ],
+ *       cooldown: 60_000,
+ *     },
+ *   },
+ * })
+ * ```
+ */
+export class FallbackProcessor implements Processor {
+  static label = "fallback"
+
+  private processors: FallbackProcessorEntry[]
+  private failureThreshold: number
+  private cooldown: number
+  private shouldFailOver: (err: any) => boolean
+
+  constructor({ processors, failureThreshold, cooldown, shouldFailOver }: FallbackProcessorOpts) {
+    if (!processors || processors.length === 0) {
+      throw new Error("FallbackProcessor needs at least one processor")
+    }
+    this.processors = processors
+    this.failureThreshold = failureThreshold ?? DEFAULT_FAILURE_THRESHOLD
+    this.cooldown = cooldown ?? DEFAULT_COOLDOWN
+    this.shouldFailOver = shouldFailOver ?? isFailoverError
+  }
+
+  async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
+    return tracer.startActiveSpan("FallbackProcessor.process", async (span) => {
+      context.active()
+
+      try {
+        // when every circuit is open, all of the processors are tried anyway rather than failing without a request.
+        const closed = this.processors.filter((entry) => !this.isOpen(entry))
+        const candidates = closed.length > 0 ? closed : this.processors
+
+        let lastError: unknown
+        for (const entry of candidates) {
+          try {
+            const resp = await getProcessor(entry.name, entry.options).process<SchemaType>({
+              ...opts,
+              model: entry.model ?? opts.model,
+            })
+            this.recordSuccess(entry)
+            span.setAttribute("processor", entry.name)
+            return {
+              ...resp,
+              usage: resp.usage.then((usage) => ({ ...usage, processor: entry.name })),
+            }
+          } catch (err: any) {
+            lastError = err
+            if (opts.signal?.aborted || !this.shouldFailOver(err)) {
+              throw err
+            }
+            this.recordFailure(entry)
+            span.addEvent("failover", { processor: entry.name })
+            console.error(`processor ${entry.name} failed, failing over`, err)
+          }
+        }
+
+        throw lastError
+      } catch (err: any) {
+        span.recordException(err)
+        throw err
+      } finally {
+        span.end()
+      }
+    })
+  }
+
+  private circuitFor(entry: FallbackProcessorEntry) {
+    const key = entry.circuit ?? entry.name
+    let circuit = circuits.get(key)
+    if (!circuit) {
+      circuit = { failures: 0, openUntil: 0 }
+      circuits.set(key, circuit)
+    }
+    return circuit
+  }
+
+  private isOpen(entry: FallbackProcessorEntry) {
+    return this.circuitFor(entry).openUntil > Date.now()
+  }
+
+  private recordSuccess(entry: FallbackProcessorEntry) {
+    const circuit = this.circuitFor(entry)
+    circuit.failures = 0
+    circuit.openUntil = 0
+  }
+
+  private recordFailure(entry: FallbackProcessorEntry) {
+    const circuit = this.circuitFor(entry)
+    circuit.failures += 1
+    // a failed request after the cooldown opens the circuit again right away.
+    if (circuit.failures >= this.failureThreshold || circuit.openUntil > 0) {
+      circuit.openUntil = Date.now() + this.cooldown
+    }
+  }
+}
+
+registerProcessor(FallbackProcessor.label, (opts: Partial<FallbackProcessorOpts> = {}) => new FallbackProcessor(opts as FallbackProcessorOpts))
@@ -0,0 +1,275 @@
+import { ZodError } from "zod"
+import { registerProcessor } from "./registry.js";
+import { ChatMessageContent, Memory } from "../Memory.js";
+import { Json } from "../sharedTypes/index.js";
+import { ProcessorSpecification, WorkingMemory } from "../WorkingMemory.js";
+import type { RawToolCall } from "../tools.js";
+import {
+  extractJSON,
+  jsonRepairMemories,
+  prepareMemoryForJSON,
+  Processor,
+  ProcessOpts,
+  ProcessResponse,
+  UsageNumbers,
+} from "./Processor.js";
+
+const DEFAULT_CHUNK_SIZE = 4
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_MODEL = "mock"
+
+export interface MockResponseMatcher {
+  /**
+   * matches against the text of the last memory sent to the processor, which is the command of the cognitive step.
+   */
+  command?: string | RegExp
+  /**
+   * matches when the memory sent to the processor has a memory in this region.
+   */
+  region?: string
+  /**
+   * matches only the nth (zero based) call to the processor, retries count as calls.
+   */
+  callIndex?: number
+}
+
+export interface MockResponse extends MockResponseMatcher {
+  /**
+   * the completion. Anything that is not a string is sent as JSON, a function computes the completion from the call.
+   */
+  response: string | Json | ((opts: ProcessOpts<any>) => string | Json)
+  /**
+   * how the completion is streamed, defaults to splitting it into chunks of `chunkSize` characters.
+   */
+  chunks?: string[]
+  chunkSize?: number
+  /**
+   * milliseconds to wait before every chunk.
+   */
+  chunkDelay?: number
+  usage?: Partial<UsageNumbers>
+  /**
+   * the tools the model calls (for steps with tools), ids default to `call_{callIndex}_{n}`.
+   */
+  toolCalls?: { name: string, params: Json, id?: string }[]
+  /**
+   * when true the response is never used up, otherwise it is only used for a single call.
+   */
+  repeat?: boolean
+}
+
+export interface MockProcessorOpts {
+  responses?: MockResponse[]
+  /**
+   * how many calls a schema step makes before giving up on getting valid JSON. Defaults to 5 (like the OpenAIProcessor).
+   */
+  maxAttempts?: number
+}
+
+/**
+ * What was sent to the MockProcessor. The memory is the one the processor received, after any schema preparation
+ * or JSON repair memories were added.
+ */
+export type MockProcessorCall = ProcessOpts<any> & { callIndex: number }
+
+interface ScriptedResponse {
+  response: MockResponse
+  used: boolean
+}
+
+const textFromContent = (content: ChatMessageContent) => {
+  if (typeof content === "string") {
+    return content
+  }
+  return content.map((c) => c.type === "text" ? c.text : "").join("")
+}
+
+const completionText = (completion: string | Json) => typeof completion === "string" ? completion : JSON.stringify(completion)
+
+// a rough (but deterministic) token count, good enough for usage numbers in tests.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+const splitIntoChunks = (text: string, size: number) => {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * A Processor that replays scripted responses instead of calling a model, so that cognitive steps (and
+ * WorkingMemory#transform) can be tested offline and deterministically.
+ *
+ * Responses are matched in order: the first unused response whose matchers all match the call is used.
+ * Schema steps go through the same JSON extraction and repair retries as the OpenAIProcessor, so scripting
+ * invalid JSON followed by valid JSON exercises the repair path.
+ *
+ * @example
+ * ```ts
+ * const mock = new MockProcessor({
+ *   responses: [
+ *     { command: /answer the question/, response: { answer: "blue" } },
+ *     { response: "Hello there!", repeat: true },
+ *   ]
+ * })
+ * const memory = new WorkingMemory({ soulName: "Samantha", processor: mock.specification })
+ * const [, answer] = await externalDialog(memory, "say hello")
+ * expect(mock.calls).to.have.length(1)
+ * ```
+ */
+export class MockProcessor implements Processor {
+  static label = "mock"
+
+  /**
+   * every call the processor received, in order.
+   */
+  readonly calls: MockProcessorCall[] = []
+
+  private scripted: ScriptedResponse[]
+  private maxAttempts: number
+
+  constructor({ responses = [], maxAttempts = DEFAULT_MAX_ATTEMPTS }: MockProcessorOpts = {}) {
+    this.scripted = responses.map((response) => ({ response, used: false }))
+    this.maxAttempts = maxAttempts
+  }
+
+  /**
+   * a ProcessorSpecification that makes a WorkingMemory (or a cognitive step) use this very instance.
+   */
+  get specification(): ProcessorSpecification {
+    return { name: MockProcessor.label, options: { mock: this } }
+  }
+
+  /**
+   * adds responses to the end of the script.
+   */
+  enqueue(...responses: MockResponse[]) {
+    this.scripted.push(...responses.map((response) => ({ response, used: false })))
+    return this
+  }
+
+  /**
+   * the scripted responses that were not used yet (repeating responses are never used up).
+   */
+  get remaining(): MockResponse[] {
+    return this.scripted.filter(({ used, response }) => !used && !response.repeat).map(({ response }) => response)
+  }
+
+  async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
+    // retries add JSON repair memories after the command, so matching always uses the original command.
+    const command = opts.memory.at(opts.memory.length - 1)
+    const commandText = command ? textFromContent(command.content) : ""
+
+    let memory = opts.memory
+    if (opts.schema) {
+      memory = prepareMemoryForJSON(memory)
+    }
+
+    let lastError: unknown
+    for (let attempt = 0; attempt < (opts.schema ? this.maxAttempts : 1); attempt++) {
+      const resp = await this.execute({ ...opts, memory }, commandText)
+
+      if (!opts.schema) {
+        return {
+          ...resp,
+          parsed: resp.rawCompletion as Promise<SchemaType>,
+        }
+      }
+
+      const extracted = extractJSON(await resp.rawCompletion)
+      if (!extracted) {
+        lastError = new Error("no json found in completion")
+        continue
+      }
+
+      try {
+        const parsed = opts.schema.parse(JSON.parse(extracted))
+        return {
+          ...resp,
+          parsed: Promise.resolve(parsed),
+        }
+      } catch (err) {
+        lastError = err
+        if (err instanceof ZodError) {
+          memory = memory.concat(jsonRepairMemories(extracted, err))
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  private async execute<SchemaType>(opts: ProcessOpts<SchemaType>, commandText: string): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
+    if (opts.signal?.aborted) {
+      throw new Error("the request was aborted")
+    }
+
+    const callIndex = this.calls.length
+    this.calls.push({ ...opts, callIndex })
+
+    const scripted = this.findResponse(opts.memory, commandText, callIndex)
+    if (!scripted) {
+      throw new Error(`MockProcessor has no scripted response for call #${callIndex}: ${commandText || "(empty command)"}`)
+    }
+    if (!scripted.response.repeat) {
+      scripted.used = true
+    }
+
+    const { response, chunks, chunkSize = DEFAULT_CHUNK_SIZE, chunkDelay, usage, toolCalls } = scripted.response
+    const completion = completionText(typeof response === "function" ? response(opts) : response)
+    const streamedChunks = chunks ?? splitIntoChunks(completion, chunkSize)
+    const signal = opts.signal
+
+    async function* stream() {
+      for (const chunk of streamedChunks) {
+        if (chunkDelay) {
+          await new Promise((resolve) => setTimeout(resolve, chunkDelay))
+        }
+        if (signal?.aborted) {
+          return
+        }
+        yield chunk
+      }
+    }
+
+    const input = opts.memory.memories.reduce((sum, memory) => sum + estimateTokens(textFromContent(memory.content)), 0)
+
+    return {
+      rawCompletion: Promise.resolve(streamedChunks.join("")),
+      stream: stream(),
+      usage: Promise.resolve({
+        model: opts.model ?? DEFAULT_MODEL,
+        input,
+        output: estimateTokens(completion),
+        ...usage,
+      }),
+      ...(opts.tools && {
+        toolCalls: Promise.resolve((toolCalls ?? []).map(({ name, params, id }, i): RawToolCall => ({
+          id: id ?? `call_${callIndex}_${i}`,
+          name,
+          arguments: JSON.stringify(params),
+        }))),
+      }),
+    }
+  }
+
+  private findResponse(memory: WorkingMemory, commandText: string, callIndex: number) {
+    const matches = ({ command: commandMatcher, region, callIndex: index }: MockResponseMatcher) => {
+      if (index !== undefined && index !== callIndex) {
+        return false
+      }
+      if (region !== undefined && !memory.some((m: Memory) => m.region === region)) {
+        return false
+      }
+      if (commandMatcher !== undefined) {
+        return typeof commandMatcher === "string" ? commandText.includes(commandMatcher) : commandMatcher.test(commandText)
+      }
+      return true
+    }
+
+    return this.scripted.find(({ response, used }) => !used && matches(response))
+  }
+}
+
+registerProcessor(MockProcessor.label, (opts: MockProcessorOpts & { mock?: MockProcessor } = {}) => opts.mock ?? new MockProcessor(opts))
@@ -0,0 +1,327 @@
+import { trace, context } from "@opentelemetry/api";
+import { ChatMessage } from "gpt-tokenizer/GptEncoding";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+import { registerProcessor } from "./registry.js";
+import { ChatMessageContent, Memory } from "../Memory.js";
+import { SupportedModel } from "../sharedTypes/supportedModels.js";
+import {
+  prepareMemoryForJSON,
+  processWithRetries,
+  Processor,
+  ProcessOpts,
+  ProcessResponse,
+  UsageNumbers,
+} from "./Processor.js";
+import { fixMessageRoles } from "./messageRoleFixer.js";
+import { forkStream } from "../forkStream.js";
+import { arrayBufferToBase64, inlineImageData } from "../images.js";
+
+const tracer = trace.getTracer(
+  'open-souls-OllamaProcessor',
+  '0.0.1',
+);
+
+const DEFAULT_BASE_URL = "http://localhost:11434"
+const DEFAULT_MODEL = "llama3"
+const MODEL_PREFIX = "ollama/"
+
+export type OllamaModelAlias = "fast" | "quality" | "vision"
+
+export interface OllamaProcessorOpts {
+  /**
+   * where the Ollama server listens, defaults to http://localhost:11434
+   */
+  baseURL?: string
+  /**
+   * the local model used when a step does not ask for one.
+   */
+  defaultModel?: string
+  /**
+   * the local models the "fast", "quality" and "vision" aliases run on (they all use the defaultModel otherwise).
+   */
+  models?: Partial<Record<OllamaModelAlias, string>>
+  /**
+   * Ollama model options (num_ctx, top_p, etc.) sent with every request.
+   */
+  defaultOptions?: Record<string, any>
+  /**
+   * how long Ollama keeps the model loaded after a request (eg. "10m").
+   */
+  keepAlive?: string | number
+  headers?: Record<string, string>
+  singleSystemMessage?: boolean
+  forcedRoleAlternation?: boolean
+  /**
+   * replaces the global fetch (for proxies and tests).
+   */
+  fetch?: typeof fetch
+}
+
+interface OllamaMessage {
+  role: string
+  content: string
+  images?: string[]
+}
+
+interface OllamaChatChunk {
+  model: string
+  message?: { role: string, content: string }
+  done: boolean
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+const memoryToChatMessage = (memory: Memory): ChatCompletionMessageParam => {
+  return {
+    role: memory.role,
+    content: memory.content,
+  } as ChatCompletionMessageParam
+}
+
+async function* ndjsonChunks(body: ReadableStream<Uint8Array>): AsyncIterable<OllamaChatChunk> {
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line)
+      }
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) {
+    yield JSON.parse(buffer)
+  }
+}
+
+/**
+ * A processor for models running locally on Ollama. It talks to Ollama's native /api/chat streaming protocol,
+ * so usage numbers are the token counts reported by the server and schema steps use Ollama's JSON format mode.
+ *
+ * Steps pick a model with an alias ("fast", "quality", "vision"), which is mapped to the configured local models,
+ * or with the name of a local model prefixed by "ollama/" (eg. "ollama/llama3:70b").
+ *
+ * @example
+ * ```ts
+ * registerProcessor("local", (opts = {}) => new OllamaProcessor({
+ *   models: { fast: "llama3:8b", quality: "llama3:70b", vision: "llava" },
+ *   ...opts,
+ * }))
+ * ```
+ */
+export class OllamaProcessor implements Processor {
+  static label = "ollama"
+
+  private baseURL: string
+  private defaultModel: string
+  private models: Partial<Record<OllamaModelAlias, string>>
+  private defaultOptions: Record<string, any>
+  private keepAlive?: string | number
+  private headers: Record<string, string>
+  private singleSystemMessage: boolean
+  private forcedRoleAlternation: boolean
+  private fetch: typeof fetch
+
+  constructor({ baseURL, defaultModel, models, defaultOptions, keepAlive, headers, singleSystemMessage, forcedRoleAlternation, fetch: customFetch }: OllamaProcessorOpts = {}) {
+    this.baseURL = (baseURL || DEFAULT_BASE_URL).replace(/\/+$/, "")
+    this.defaultModel = defaultModel || DEFAULT_MODEL
+    this.models = models || {}
+    this.defaultOptions = defaultOptions || {}
+    this.keepAlive = keepAlive
+    this.headers = headers || {}
+    this.singleSystemMessage = singleSystemMessage || false
+    this.forcedRoleAlternation = forcedRoleAlternation || false
+    this.fetch = customFetch || ((...args) => globalThis.fetch(...args))
+  }
+
+  /**
+   * the local model a step runs on.
+   */
+  resolveModel(model?: string) {
+    if (!model) {
+      return this.defaultModel
+    }
+    if (model in { fast: true, quality: true, vision: true }) {
+      return this.models[model as OllamaModelAlias] || this.defaultModel
+    }
+    return model.startsWith(MODEL_PREFIX) ? model.slice(MODEL_PREFIX.length) : model
+  }
+
+  async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
+    if (opts.tools) {
+      throw new Error("the OllamaProcessor does not support tools")
+    }
+    return tracer.startActiveSpan("OllamaProcessor.process", async (span) => {
+      context.active()
+
+      let memory = opts.memory
+      if (opts.schema) {
+        memory = prepareMemoryForJSON(memory)
+      }
+
+      span.setAttributes({
+        processOptions: JSON.stringify(opts),
+        memory: JSON.stringify(memory),
+      })
+
+      return processWithRetries({
+        schema: opts.schema,
+        memory,
+        span,
+        execute: (memory) => this.execute({
+          ...opts,
+          memory,
+        }),
+      })
+    })
+  }
+
+  private async execute<SchemaType = any>({
+    maxTokens,
+    memory,
+    model: developerSpecifiedModel,
+    schema,
+    signal,
+    timeout,
+    temperature,
+  }: ProcessOpts<SchemaType>): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
+    const model = this.resolveModel(developerSpecifiedModel)
+    const messages = await Promise.all(this.possiblyFixMessageRoles(memory.memories.map(memoryToChatMessage)).map((m) => this.toOllamaMessage(m)))
+
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener("abort", abort)
+    // local models can take a while to load, so the timeout only applies when a step asks for one.
+    const timer = timeout ? setTimeout(abort, timeout) : undefined
+    const cleanUp = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", abort)
+    }
+
+    let response: Response
+    try {
+      response = await this.fetch(`${this.baseURL}/api/chat`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...this.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          ...(schema && { format: "json" }),
+          ...(this.keepAlive !== undefined && { keep_alive: this.keepAlive }),
+          options: {
+            ...this.defaultOptions,
+            ...(temperature !== undefined && { temperature }),
+            ...(maxTokens && { num_predict: maxTokens }),
+          },
+        }),
+        signal: controller.signal,
+      })
+    } catch (err: any) {
+      cleanUp()
+      if (controller.signal.aborted) {
+        throw new Error(`the request to ollama was aborted: ${err.message}`)
+      }
+      throw err
+    }
+
+    if (!response.ok || !response.body) {
+      cleanUp()
+      const text = await response.text().catch(() => "")
+      throw Object.assign(new Error(`ollama responded with ${response.status}: ${text}`), { status: response.status })
+    }
+
+    let usage: UsageNumbers = { model: model as SupportedModel, input: 0, output: 0 }
+
+    const body = response.body
+    async function* textStream() {
+      try {
+        for await (const chunk of ndjsonChunks(body)) {
+          if (chunk.error) {
+            throw new Error(`ollama: ${chunk.error}`)
+          }
+          if (chunk.done) {
+            usage = {
+              model: model as SupportedModel,
+              input: chunk.prompt_eval_count ?? 0,
+              output: chunk.eval_count ?? 0,
+            }
+          }
+          if (chunk.message?.content) {
+            yield chunk.message.content
+          }
+        }
+      } finally {
+        // the timeout covers reading the stream too, a stalled stream is aborted.
+        cleanUp()
+      }
+    }
+
+    const [textStream1, textStream2] = forkStream(textStream(), 2)
+
+    const fullContentPromise = new Promise<string>(async (resolve, reject) => {
+      try {
+        let fullText = ""
+        for await (const message of textStream1 as unknown as AsyncIterable<string>) {
+          fullText += message
+        }
+        resolve(fullText)
+      } catch (err) {
+        reject(err)
+      }
+    })
+
+    return {
+      rawCompletion: fullContentPromise,
+      stream: textStream2 as unknown as AsyncIterable<string>,
+      usage: fullContentPromise.then(() => usage),
+    }
+  }
+
+  private async toOllamaMessage({ role, content }: ChatCompletionMessageParam): Promise<OllamaMessage> {
+    if (typeof content === "string" || !content) {
+      return { role, content: content || "" }
+    }
+
+    const parts = content as Exclude<ChatMessageContent, string>
+    const text = parts.flatMap((part) => part.type === "text" ? [part.text] : []).join("\n")
+    const images = await Promise.all(
+      parts.flatMap((part) => part.type === "image_url" ? [this.imageToBase64(part.image_url.url)] : [])
+    )
+
+    return {
+      role,
+      content: text,
+      ...(images.length > 0 && { images }),
+    }
+  }
+
+  // ollama only takes base64 encoded images, so remote images are downloaded first.
+  private async imageToBase64(url: string) {
+    const inline = inlineImageData(url)
+    if (inline) {
+      return inline.data
+    }
+    const response = await this.fetch(url)
+    if (!response.ok) {
+      throw new Error(`could not download image ${url}: ${response.status}`)
+    }
+    return arrayBufferToBase64(await response.arrayBuffer())
+  }
+
+  private possiblyFixMessageRoles(messages: (ChatMessage | ChatCompletionMessageParam)[]): ChatCompletionMessageParam[] {
+    return fixMessageRoles({ singleSystemMessage: this.singleSystemMessage, forcedRoleAlternation: this.forcedRoleAlternation }, messages)
+  }
+}
+
+registerProcessor(OllamaProcessor.label, (opts: Partial<OllamaProcessorOpts> = {}) => new OllamaProcessor(opts))
@@ -2,25 +2,25 @@ import OpenAI from "openai";
 import { encodeChatGenerator, encodeGenerator } from "gpt-tokenizer/model/gpt-4"
 import { RequestOptions } from "openai/core";
 import { trace, context } from "@opentelemetry/api";
-import { backOff } from "exponential-backoff";
 import { ChatMessage } from "gpt-tokenizer/GptEncoding";
-import { ZodError, fromZodError } from 'zod-validation-error';
 
 import { registerProcessor } from "./registry.js";
-import { ChatMessageRoleEnum, ContentText, Memory } from "../Memory.js";
+import { ContentImage, ContentText, Memory } from "../Memory.js";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 
 import {
-  extractJSON,
   Processor,
   prepareMemoryForJSON,
+  processWithRetries,
+  structuredOutputSchema,
   UsageNumbers,
   ProcessOpts,
   ProcessResponse
 } from "./Processor.js";
 import { fixMessageRoles } from "./messageRoleFixer.js";
-import { indentNicely } from "../utils.js";
 import { forkStream } from "../forkStream.js";
+import { imageTokens } from "../images.js";
+import { RawToolCall, toolCallIdFromMemory, toolCallsToSend } from "../tools.js";
 
 const tracer = trace.getTracer(
   'open-souls-OpenAIProcessor',
@@ -44,9 +44,8 @@ const tokenLength = (messagesOrContent: ChatMessage[] | string): number => {
       return m
     }
     const text = m.content.find((c) => c.type === "text") as ContentText
-    const images = m.content.filter((c) => c.type === "image_url")
-    // TODO: for now let's treat everything as a 1024x1024 image
-    tokenCount += images.length * 765
+    const images = m.content.filter((c) => c.type === "image_url") as ContentImage[]
+    tokenCount += images.reduce((sum, image) => sum + imageTokens(image.image_url, "openai"), 0)
     return {
       ...m,
       content: text?.text || ""
@@ -62,11 +61,28 @@ const tokenLength = (messagesOrContent: ChatMessage[] | string): number => {
 
 export type OpenAIClientConfig = ConstructorParameters<typeof OpenAI>[0];
 
-const memoryToChatMessage = (memory: Memory): ChatCompletionMessageParam => {
+const memoryToChatMessage = (memory: Memory, memories: Memory[]): ChatCompletionMessageParam => {
+  const toolCallId = toolCallIdFromMemory(memory)
+  if (toolCallId) {
+    return {
+      role: "tool",
+      tool_call_id: toolCallId,
+      content: memory.content as string,
+    }
+  }
+
+  const { toolCalls, content } = toolCallsToSend(memory, memories)
   return {
     role: memory.role,
-    content: memory.content,
-    ...(memory.name && { name: memory.name })
+    content,
+    ...(memory.name && { name: memory.name }),
+    ...(toolCalls && {
+      tool_calls: toolCalls.map(({ id, name, params }) => ({
+        id,
+        type: "function",
+        function: { name, arguments: JSON.stringify(params) },
+      })),
+    }),
   } as ChatCompletionMessageParam
 }
 
@@ -77,12 +93,34 @@ export interface OpenAIProcessorOpts {
   singleSystemMessage?: boolean,
   forcedRoleAlternation?: boolean,
   disableResponseFormat?: boolean,
+  /**
+   * sends the schema of schema steps as a `json_schema` response_format (structured outputs) instead of
+   * only describing it in the prompt. Endpoints that reject it fall back to the prompt-based path.
+   * Pass `{ strict: true }` for strict schema adherence (which requires every property of the schema to be required).
+   */
+  structuredOutput?: boolean | { strict?: boolean },
+  /**
+   * by default the usage is read from the stream (with `stream_options.include_usage`). Endpoints that do not support
+   * that option can turn it off, the usage is then estimated with the GPT-4 tokenizer. Endpoints that reject the option
+   * with a 400 are retried without it (and get the estimate too).
+   */
+  disableStreamUsage?: boolean,
+}
+
+// OpenAI compatible endpoints answer parameters they do not support with a 400 that names them.
+const isRejectedParam = (err: unknown, ...params: string[]) => {
+  if (!(err instanceof OpenAI.BadRequestError)) {
+    return false
+  }
+  const text = `${err.param ?? ""} ${err.message}`
+  return params.some((param) => text.includes(param))
 }
 
 async function* chunkStreamToTextStream(chunkStream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>) {
   try {
     for await (const chunk of chunkStream) {
-      yield chunk.choices[0].delta.content || ""
+      // the chunk with the usage (when it was asked for) comes without choices.
+      yield chunk.choices[0]?.delta.content || ""
     }
   } catch (err) {
     console.error("chunkStreamToTextStream error", err)
@@ -90,6 +128,36 @@ async function* chunkStreamToTextStream(chunkStream: AsyncIterable<OpenAI.Chat.C
   }
 }
 
+async function chunkStreamToUsage(chunkStream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>) {
+  let usage: { input: number, output: number } | undefined
+
+  for await (const chunk of chunkStream) {
+    // the SDK types predate stream_options, the API sends the usage with the last chunk.
+    const chunkUsage = (chunk as { usage?: { prompt_tokens: number, completion_tokens: number } | null }).usage
+    if (chunkUsage) {
+      usage = { input: chunkUsage.prompt_tokens, output: chunkUsage.completion_tokens }
+    }
+  }
+
+  return usage
+}
+
+async function chunkStreamToToolCalls(chunkStream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>) {
+  const toolCalls: RawToolCall[] = []
+
+  for await (const chunk of chunkStream) {
+    // the first delta of a call has its id and name, the ones after it stream its arguments.
+    for (const delta of chunk.choices[0]?.delta.tool_calls ?? []) {
+      const toolCall = toolCalls[delta.index] ??= { id: "", name: "", arguments: "" }
+      toolCall.id ||= delta.id ?? ""
+      toolCall.name += delta.function?.name ?? ""
+      toolCall.arguments += delta.function?.arguments ?? ""
+    }
+  }
+
+  return toolCalls.filter(Boolean)
+}
+
 const DEFAULT_MODEL = "gpt-3.5-turbo-0125"
 
 export class OpenAIProcessor implements Processor {
@@ -99,17 +167,21 @@ export class OpenAIProcessor implements Processor {
   private singleSystemMessage: boolean
   private forcedRoleAlternation: boolean
   private disableResponseFormat: boolean // default this one to true
+  private disableStreamUsage: boolean
+  private structuredOutput: false | { strict: boolean }
 
   private defaultRequestOptions: Partial<RequestOptions>
   private defaultCompletionParams: Partial<OpenAI.Chat.Completions.ChatCompletionCreateParams>
 
-  constructor({ clientOptions, singleSystemMessage, forcedRoleAlternation, defaultRequestOptions, defaultCompletionParams, disableResponseFormat }: OpenAIProcessorOpts) {
+  constructor({ clientOptions, singleSystemMessage, forcedRoleAlternation, defaultRequestOptions, defaultCompletionParams, disableResponseFormat, structuredOutput, disableStreamUsage }: OpenAIProcessorOpts) {
     this.client = new OpenAI(clientOptions)
     this.singleSystemMessage = singleSystemMessage || false
     this.forcedRoleAlternation = forcedRoleAlternation || false
     this.defaultRequestOptions = defaultRequestOptions || {}
     this.disableResponseFormat = disableResponseFormat || false
+    this.disableStreamUsage = disableStreamUsage || false
     this.defaultCompletionParams = defaultCompletionParams || {}
+    this.structuredOutput = structuredOutput ? { strict: typeof structuredOutput === "object" && !!structuredOutput.strict } : false
   }
 
   async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
@@ -117,8 +189,10 @@ export class OpenAIProcessor implements Processor {
       try {
         context.active()
 
+        let structuredOutput = !!(opts.schema && this.structuredOutput)
+
         let memory = opts.memory
-        if (opts.schema) {
+        if (opts.schema && !structuredOutput) {
           memory = prepareMemoryForJSON(memory)
         }
 
@@ -127,72 +201,26 @@ export class OpenAIProcessor implements Processor {
           memory: JSON.stringify(memory),
         })
 
-        return backOff(
-          async () => {
-            const resp = await this.execute({
-              ...opts,
-              memory,
-            })
-
-            // TODO: how do we both return a stream *and* also parse the json and retry?
-            if (opts.schema) {
-              const completion = await resp.rawCompletion
-              const extracted = extractJSON(completion)
-              span.addEvent("extracted")
-              span.setAttribute("extracted", extracted || "none")
-              if (!extracted) {
-                console.error("no json found in completion", completion)
-                throw new Error('no json found in completion')
-              }
-              try {
-                const parsed = opts.schema.parse(JSON.parse(extracted))
-                span.addEvent("parsed")
-                span.end()
-                return {
-                  ...resp,
-                  parsed: Promise.resolve(parsed),
-                }
-              } catch (err: any) {
-                span.recordException(err)
-                const zodError = fromZodError(err as ZodError)
-                console.log("zod error", zodError.toString())
-                memory = memory.concat([
-                  {
-                    role: ChatMessageRoleEnum.Assistant,
-                    content: extracted,
-                  },
-                  {
-                    role: ChatMessageRoleEnum.User,
-                    content: indentNicely`
-                      ## JSON Errors
-                      ${zodError.toString()}.
-                      
-                      Please fix the error(s) and try again, conforming exactly to the provided JSON schema.
-                    `
-                  }
-                ])
-                throw err
+        return processWithRetries({
+          schema: opts.schema,
+          memory,
+          span,
+          execute: async (memory) => {
+            try {
+              return await this.execute({
+                ...opts,
+                memory: opts.schema && !structuredOutput ? prepareMemoryForJSON(memory) : memory,
+              }, structuredOutput)
+            } catch (err: any) {
+              if (structuredOutput && isRejectedParam(err, "response_format", "json_schema")) {
+                console.warn("structured output was rejected, falling back to the prompt", err.message)
+                span.addEvent("structured-output-fallback")
+                structuredOutput = false
               }
-
-            }
-
-            return {
-              ...resp,
-              parsed: (resp.rawCompletion as Promise<SchemaType>)
+              throw err
             }
           },
-          {
-            numOfAttempts: 5,
-            retry: (err) => {
-              if (err.message.includes("aborted")) {
-                return false
-              }
-              span.addEvent("retry")
-              console.error("retrying due to error", err)
-
-              return true
-            },
-          })
+        })
       } catch (err: any) {
         console.error("error in process", err)
         span.recordException(err)
@@ -211,11 +239,14 @@ export class OpenAIProcessor implements Processor {
     signal,
     timeout,
     temperature,
-  }: ProcessOpts<SchemaType>): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
+    tools,
+    toolChoice,
+  }: ProcessOpts<SchemaType>, structuredOutput = false): Promise<Omit<ProcessResponse<SchemaType>, "parsed">> {
     return tracer.startActiveSpan("OpenAIProcessor.execute", async (span) => {
       try {
         const model = developerSpecifiedModel || this.defaultCompletionParams.model || DEFAULT_MODEL
-        const messages = this.possiblyFixMessageRoles(memory.memories.map(memoryToChatMessage))
+        const memories = memory.memories
+        const messages = this.possiblyFixMessageRoles(memories.map((m) => memoryToChatMessage(m, memories)))
         const params = {
           ...this.defaultCompletionParams,
           ...(maxTokens && { max_tokens: maxTokens }),
@@ -229,12 +260,14 @@ export class OpenAIProcessor implements Processor {
           outgoingParams: JSON.stringify(params),
         })
 
-        const stream = await this.client.chat.completions.create(
+        const createStream = () => this.client.chat.completions.create(
           {
             ...params,
             stream: true,
-            ...(!this.disableResponseFormat && { response_format: { type: schema ? "json_object" : "text" } })
-          },
+            ...(!this.disableStreamUsage && { stream_options: { include_usage: true } }),
+            ...this.responseFormat(schema, structuredOutput),
+            ...(tools && this.toolParams(tools, toolChoice)),
+          } as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
           {
             ...this.defaultRequestOptions,
             signal,
@@ -242,7 +275,21 @@ export class OpenAIProcessor implements Processor {
           }
         )
 
-        const [textStream1, textStream2] = forkStream(chunkStreamToTextStream(stream), 2)
+        let stream: Awaited<ReturnType<typeof createStream>>
+        try {
+          stream = await createStream()
+        } catch (err: any) {
+          if (this.disableStreamUsage || !isRejectedParam(err, "stream_options")) {
+            throw err
+          }
+          // the endpoint does not report usage, so it is estimated (from now on without asking again).
+          span.addEvent("stream-usage-fallback")
+          this.disableStreamUsage = true
+          stream = await createStream()
+        }
+
+        const [baseStream1, baseStream2, toolCallStream] = forkStream(stream, tools ? 3 : 2)
+        const [textStream1, textStream2] = forkStream(chunkStreamToTextStream(baseStream1), 2)
 
         // const textStream = new ReusableStream(chunkStreamToTextStream(stream))
 
@@ -261,14 +308,22 @@ export class OpenAIProcessor implements Processor {
           }
         })
 
+        const toolCalls = tools ? chunkStreamToToolCalls(toolCallStream) : undefined
+        // a failed stream also fails the rawCompletion, callers that only read that should not see it again.
+        toolCalls?.catch(() => {})
+
         const usagePromise = new Promise<UsageNumbers>(async (resolve, reject) => {
           try {
-            const fullContent = await fullContentPromise
-
-            const [inputTokenCount, outputTokenCount] = await Promise.all([
-              tokenLength(messages as ChatMessage[]),
-              tokenLength(fullContent),
-            ]);
+            const [fullContent, reportedUsage] = await Promise.all([
+              fullContentPromise,
+              chunkStreamToUsage(baseStream2),
+            ])
+
+            // endpoints that do not report usage get an estimate.
+            const { input: inputTokenCount, output: outputTokenCount } = reportedUsage ?? {
+              input: tokenLength(messages as ChatMessage[]),
+              output: tokenLength(fullContent),
+            }
 
             span.setAttribute("model", model)
             span.setAttribute("usage-input", inputTokenCount)
@@ -289,6 +344,7 @@ export class OpenAIProcessor implements Processor {
           rawCompletion: fullContentPromise,
           stream: textStream2,
           usage: usagePromise,
+          ...(toolCalls && { toolCalls }),
         }
       } catch (err: any) {
         span.recordException(err)
@@ -298,6 +354,37 @@ export class OpenAIProcessor implements Processor {
     })
   }
 
+  private toolParams(tools: NonNullable<ProcessOpts["tools"]>, toolChoice: ProcessOpts["toolChoice"] = "auto") {
+    return {
+      tools: Object.entries(tools).map(([name, { description, params }]) => ({
+        type: "function",
+        function: { name, description, parameters: structuredOutputSchema(params) },
+      })),
+      // the SDK types predate "required", the API accepts it.
+      tool_choice: toolChoice === "auto" || toolChoice === "required" ? toolChoice : { type: "function", function: { name: toolChoice } },
+    }
+  }
+
+  private responseFormat(schema: ProcessOpts<any>["schema"], structuredOutput: boolean) {
+    if (schema && structuredOutput && this.structuredOutput) {
+      // the SDK types predate json_schema, the API accepts it.
+      return {
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "response",
+            schema: structuredOutputSchema(schema),
+            strict: this.structuredOutput.strict,
+          },
+        },
+      }
+    }
+    if (this.disableResponseFormat) {
+      return {}
+    }
+    return { response_format: { type: schema ? "json_object" : "text" } }
+  }
+
   private possiblyFixMessageRoles(messages: (ChatMessage | ChatCompletionMessageParam)[]): ChatCompletionMessageParam[] {
     return fixMessageRoles({ singleSystemMessage: this.singleSystemMessage, forcedRoleAlternation: this.forcedRoleAlternation }, messages)
   }
@@ -1,12 +1,24 @@
-import { ZodSchema } from "zod"
+import { ZodError, ZodSchema } from "zod"
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { fromZodError } from "zod-validation-error"
+import type { Span } from "@opentelemetry/api"
+import { backOff } from "exponential-backoff"
 import { WorkingMemory } from "../WorkingMemory.js"
-import { ChatMessageContent, ChatMessageRoleEnum, ContentText } from "../Memory.js"
+import { ChatMessageContent, ChatMessageRoleEnum, ContentText, InputMemory } from "../Memory.js"
 import { SupportedModel } from "../sharedTypes/supportedModels.js"
+import { indentNicely } from "../utils.js"
+import { forkStream } from "../forkStream.js"
+import type { ImageTokenProvider } from "../images.js"
+import type { RawToolCall, ToolChoice, ToolDefinitions } from "../tools.js"
 
 export interface UsageNumbers {
   model: SupportedModel,
   input: number,
   output: number
+  /**
+   * the registered processor that answered, set by processors (like the FallbackProcessor) that delegate to others.
+   */
+  processor?: string
 }
 
 export interface ProcessResponse<SchemaType = string> {
@@ -14,6 +26,15 @@ export interface ProcessResponse<SchemaType = string> {
   parsed: Promise<SchemaType>
   stream: AsyncIterable<string>
   usage: Promise<UsageNumbers>
+  /**
+   * the tools the model called, set by processors that support tools when the request had any.
+   */
+  toolCalls?: Promise<RawToolCall[]>
+  /**
+   * the live text streams of every attempt at a schema step, in order. A new attempt starts whenever the previous
+   * one did not parse, while `stream` only holds the text of the attempt that did.
+   */
+  attempts?: AsyncIterable<AsyncIterable<string>>
 }
 
 export type Headers = Record<string, string | null | undefined>;
@@ -33,10 +54,16 @@ export interface RequestOptions {
 export interface ProcessOpts<SchemaType = string> extends RequestOptions {
   memory: WorkingMemory,
   schema?: ZodSchema<SchemaType>
+  tools?: ToolDefinitions
+  toolChoice?: ToolChoice
 }
 
 export interface Processor {
   process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>>
+  /**
+   * how the provider charges for images, the context budget counts them that way. Defaults to "openai".
+   */
+  readonly imageTokenProvider?: ImageTokenProvider
 }
 
 export interface ProcessorCreationOpts {
@@ -85,6 +112,169 @@ export const prepareMemoryForJSON = (workingMemory: WorkingMemory, jsonMessage =
 }
 
 
+type Attempt<SchemaType> = Omit<ProcessResponse<SchemaType>, "parsed">
+
+export interface SchemaAttempts<SchemaType> {
+  /**
+   * resolves with the first attempt that started.
+   */
+  first: Promise<Attempt<SchemaType>>
+  /**
+   * processors call this with the response of each attempt before parsing it, and continue with the returned
+   * response (which has its own fork of the stream).
+   */
+  started<T extends Attempt<SchemaType>>(attempt: T): T
+  end(): void
+  streams(): AsyncIterable<AsyncIterable<string>>
+}
+
+/**
+ * Collects the attempts of a schema step as they start.
+ */
+export const schemaAttempts = <SchemaType>(): SchemaAttempts<SchemaType> => {
+  const started: Attempt<SchemaType>[] = []
+  let done = false
+  let wake = () => {}
+  let onFirst: (attempt: Attempt<SchemaType>) => void = () => {}
+  const first = new Promise<Attempt<SchemaType>>((resolve) => { onFirst = resolve })
+
+  async function* streams() {
+    for (let i = 0; ; i++) {
+      while (i >= started.length && !done) {
+        await new Promise<void>((resolve) => { wake = resolve })
+      }
+      if (i >= started.length) {
+        return
+      }
+      yield started[i].stream
+    }
+  }
+
+  return {
+    first,
+    started(attempt) {
+      const [live, rest] = forkStream(attempt.stream, 2)
+      started.push({ ...attempt, stream: live as unknown as AsyncIterable<string> })
+      onFirst(attempt)
+      wake()
+      return { ...attempt, stream: rest as unknown as AsyncIterable<string> }
+    },
+    end() {
+      done = true
+      wake()
+    },
+    streams,
+  }
+}
+
+/**
+ * Schema steps retry until their completion parses, which would hold every stream back until the very end.
+ * This returns as soon as the first attempt started instead: `attempts` streams each attempt live (so partial
+ * objects can be shown while the model writes them), while `stream`, `parsed` and the rawCompletion and usage
+ * are of the attempt that parsed, once the retries are done.
+ */
+export const liveSchemaResponse = async <SchemaType>(attempts: SchemaAttempts<SchemaType>, result: Promise<ProcessResponse<SchemaType>>): Promise<ProcessResponse<SchemaType>> => {
+  result.then(attempts.end, attempts.end)
+  await Promise.race([attempts.first, result])
+
+  const handled = <T>(promise: Promise<T>) => {
+    // the failure is reported through `parsed`, callers that never look at the others should not see it again.
+    promise.catch(() => {})
+    return promise
+  }
+
+  return {
+    stream: (async function* () {
+      yield* (await result).stream
+    })(),
+    attempts: attempts.streams(),
+    parsed: result.then(({ parsed }) => parsed),
+    rawCompletion: handled(result.then(({ rawCompletion }) => rawCompletion)),
+    usage: handled(result.then(({ usage }) => usage)),
+  }
+}
+
+export interface RetryingProcessOpts<SchemaType> {
+  schema?: ZodSchema<SchemaType>
+  /**
+   * the memory of the first attempt, the json repair memories of rejected attempts are appended to it.
+   */
+  memory: WorkingMemory
+  span: Span
+  /**
+   * runs a single attempt with the memory so far.
+   */
+  execute: (memory: WorkingMemory) => Promise<Attempt<SchemaType>>
+}
+
+/**
+ * Runs a request, backing off and retrying when it fails. For schema steps the completion is parsed, and
+ * retried with the validation errors until it conforms to the schema (returning a liveSchemaResponse).
+ */
+export const processWithRetries = async <SchemaType>({ schema, memory, span, execute }: RetryingProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> => {
+  const attempts = schemaAttempts<SchemaType>()
+
+  const result = backOff(
+    async (): Promise<ProcessResponse<SchemaType>> => {
+      const resp = await execute(memory)
+      if (!schema) {
+        return {
+          ...resp,
+          parsed: resp.rawCompletion as Promise<SchemaType>,
+        }
+      }
+
+      const attempt = attempts.started(resp)
+      const extracted = extractJSON(await attempt.rawCompletion)
+      span.addEvent("extracted")
+      span.setAttribute("extracted", extracted || "none")
+      if (!extracted) {
+        throw new Error("no json found in completion")
+      }
+      try {
+        const parsed = schema.parse(JSON.parse(extracted))
+        span.addEvent("parsed")
+        span.end()
+        return {
+          ...attempt,
+          parsed: Promise.resolve(parsed),
+        }
+      } catch (err: any) {
+        span.recordException(err)
+        if (err instanceof ZodError) {
+          memory = memory.concat(jsonRepairMemories(extracted, err))
+        }
+        throw err
+      }
+    },
+    {
+      numOfAttempts: 5,
+      retry: (err) => {
+        if (err.message.includes("aborted")) {
+          return false
+        }
+        span.addEvent("retry")
+        console.error("retrying due to error", err)
+
+        return true
+      },
+    })
+
+  if (!schema) {
+    return result
+  }
+  return liveSchemaResponse(attempts, result)
+}
+
+/**
+ * The JSON schema sent to providers that support structured output natively (OpenAI's json_schema
+ * response_format, Anthropic's tool input schemas).
+ */
+export const structuredOutputSchema = (schema: ZodSchema): Record<string, any> => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema) as Record<string, any>
+  return jsonSchema
+}
+
 export function extractJSON(str?: string | null) {
   if (!str) return null;
 
@@ -105,3 +295,26 @@ export function extractJSON(str?: string | null) {
 
   return null;
 }
+
+/**
+ * The memories appended to a conversation when a completion did not conform to the schema,
+ * asking the model to fix its previous answer.
+ */
+export const jsonRepairMemories = (extracted: string, err: ZodError): InputMemory[] => {
+  const zodError = fromZodError(err)
+  return [
+    {
+      role: ChatMessageRoleEnum.Assistant,
+      content: extracted,
+    },
+    {
+      role: ChatMessageRoleEnum.User,
+      content: indentNicely`
+        ## JSON Errors
+        ${zodError.toString()}.
+        
+        Please fix the error(s) and try again, conforming exactly to the provided JSON schema.
+      `
+    }
+  ]
+}
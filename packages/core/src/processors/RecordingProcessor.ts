@@ -0,0 +1,308 @@
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { forkStream } from "../forkStream.js";
+import { Json } from "../sharedTypes/index.js";
+import { ProcessorSpecification } from "../WorkingMemory.js";
+import { RawToolCall, toolCallIdFromMemory, toolCallsFromMemory } from "../tools.js";
+import { getProcessor, registerProcessor } from "./registry.js";
+import {
+  extractJSON,
+  Processor,
+  ProcessOpts,
+  ProcessResponse,
+  UsageNumbers,
+} from "./Processor.js";
+
+const CASSETTE_VERSION = 1
+
+/**
+ * - `replay` only uses cassettes on disk and throws a CassetteMissError when there is none for a call.
+ * - `record` always calls the wrapped processor and (over)writes the cassette.
+ * - `auto` replays existing cassettes and records the missing ones.
+ */
+export type RecordingMode = "replay" | "record" | "auto"
+
+export interface RecordingProcessorOpts {
+  /**
+   * the registered processor (and its options) that is called when recording.
+   */
+  processor: ProcessorSpecification
+  /**
+   * the directory cassettes are written to (and read from), one JSON file per call.
+   */
+  cassetteDir: string
+  /**
+   * defaults to "replay", so that a missing cassette never silently turns into a network call.
+   */
+  mode?: RecordingMode
+  /**
+   * when false, replayed streams yield every chunk right away instead of waiting the recorded time. Defaults to true.
+   */
+  replayDelays?: boolean
+}
+
+export interface CassetteChunk {
+  text: string
+  /**
+   * milliseconds since the previous chunk (or since the stream started for the first chunk).
+   */
+  delay: number
+}
+
+/**
+ * The file written for every recorded call. The request is only stored to make cassettes (and misses) easy to
+ * inspect, replay only looks at the key.
+ */
+export interface Cassette {
+  version: number
+  key: string
+  processor: string
+  request: Json
+  response: {
+    chunks: CassetteChunk[]
+    rawCompletion: string
+    parsed: Json
+    usage: UsageNumbers
+    /**
+     * only recorded for calls with tools.
+     */
+    toolCalls?: RawToolCall[]
+  }
+}
+
+/**
+ * Thrown in replay mode when there is no cassette for a call.
+ */
+export class CassetteMissError extends Error {
+  constructor(readonly key: string, readonly path: string, readonly request: Json) {
+    super(`no cassette recorded for this call (${path}). Record it by running with the RecordingProcessor in "record" or "auto" mode. Request: ${JSON.stringify(request)}`)
+    this.name = "CassetteMissError"
+  }
+}
+
+/**
+ * JSON.stringify with sorted object keys, so that the same request always produces the same key.
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v === undefined ? null : v)).join(",")}]`
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+const sha256 = async (text: string) => {
+  const subtle = globalThis.crypto?.subtle ?? (await import("node:crypto")).webcrypto.subtle
+  const digest = await subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * The parts of a call that determine its completion. Ids, timestamps, regions and metadata of the memories
+ * are left out (they differ between runs), as are signals, timeouts, headers and tags.
+ */
+export const cassetteRequest = (processorName: string, { memory, schema, tools, toolChoice, model, temperature, maxTokens, additionalRequestOptions }: ProcessOpts<any>): Json => {
+  return JSON.parse(JSON.stringify({
+    processor: processorName,
+    messages: memory.memories.map((memory) => ({
+      role: memory.role,
+      content: memory.content,
+      name: memory.name,
+      // tool calls and their results are sent to the model, unlike the rest of the metadata.
+      toolCalls: toolCallsFromMemory(memory),
+      toolCallId: toolCallIdFromMemory(memory),
+    })),
+    model,
+    temperature,
+    maxTokens,
+    schema: schema ? zodToJsonSchema(schema) : undefined,
+    tools: tools ? Object.entries(tools).map(([name, { description, params }]) => ({ name, description, params: zodToJsonSchema(params) })) : undefined,
+    toolChoice,
+    additionalRequestOptions,
+  }))
+}
+
+/**
+ * The key a call is stored under: a sha256 of the (stably serialized) request.
+ */
+export const cassetteKey = (request: Json) => sha256(stableStringify(request))
+
+/**
+ * A Processor that records the calls to another (registered) processor as cassettes on disk and replays them later,
+ * including the timing of the streamed chunks. This lets cognitive-step regression suites run against real
+ * completions without network access.
+ *
+ * @example
+ * ```ts
+ * const recorder = new RecordingProcessor({
+ *   processor: { name: "openai" },
+ *   cassetteDir: join(__dirname, "cassettes"),
+ *   mode: process.env.RECORD ? "record" : "replay",
+ * })
+ * const memory = new WorkingMemory({ soulName: "Samantha", processor: recorder.specification })
+ * const [, answer] = await externalDialog(memory, "say hello")
+ * ```
+ */
+export class RecordingProcessor implements Processor {
+  static label = "recording"
+
+  private opts: RecordingProcessorOpts
+
+  constructor(opts: RecordingProcessorOpts) {
+    if (!opts?.processor?.name) {
+      throw new Error("RecordingProcessor needs the processor to record")
+    }
+    if (!opts.cassetteDir) {
+      throw new Error("RecordingProcessor needs a cassetteDir")
+    }
+    this.opts = opts
+  }
+
+  /**
+   * a ProcessorSpecification that makes a WorkingMemory (or a cognitive step) use a RecordingProcessor with these options.
+   */
+  get specification(): ProcessorSpecification {
+    return { name: RecordingProcessor.label, options: this.opts }
+  }
+
+  async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
+    const { mode = "replay" } = this.opts
+    const request = cassetteRequest(this.opts.processor.name, opts)
+    const key = await cassetteKey(request)
+    const path = await this.cassettePath(key)
+
+    if (mode !== "record") {
+      const cassette = await this.readCassette(path)
+      if (cassette) {
+        return this.replay<SchemaType>(cassette, opts)
+      }
+      if (mode === "replay") {
+        throw new CassetteMissError(key, path, request)
+      }
+    }
+
+    return this.record<SchemaType>(opts, { key, path, request })
+  }
+
+  private async record<SchemaType>(opts: ProcessOpts<SchemaType>, { key, path, request }: { key: string, path: string, request: Json }): Promise<ProcessResponse<SchemaType>> {
+    const processor = getProcessor(this.opts.processor.name, this.opts.processor.options)
+    const response = await processor.process<SchemaType>(opts)
+
+    const [recordedStream, stream] = forkStream(response.stream, 2)
+
+    const recordChunks = async () => {
+      const chunks: CassetteChunk[] = []
+      let last = Date.now()
+      for await (const text of recordedStream as unknown as AsyncIterable<string>) {
+        const now = Date.now()
+        chunks.push({ text, delay: now - last })
+        last = now
+      }
+      return chunks
+    }
+
+    const written = (async () => {
+      const [chunks, rawCompletion, parsed, usage, toolCalls] = await Promise.all([
+        recordChunks(),
+        response.rawCompletion,
+        response.parsed,
+        response.usage,
+        response.toolCalls,
+      ])
+
+      const cassette: Cassette = {
+        version: CASSETTE_VERSION,
+        key,
+        processor: this.opts.processor.name,
+        request,
+        response: {
+          chunks,
+          rawCompletion,
+          parsed: JSON.parse(JSON.stringify(parsed ?? null)),
+          usage,
+          ...(toolCalls && { toolCalls }),
+        },
+      }
+      await this.writeCassette(path, cassette)
+      return usage
+    })()
+
+    return {
+      ...response,
+      stream: stream as unknown as AsyncIterable<string>,
+      // WorkingMemory waits for the usage before a transform completes, so this makes sure the cassette is on disk by then.
+      usage: written,
+    }
+  }
+
+  private replay<SchemaType>({ response }: Cassette, { schema, signal }: ProcessOpts<SchemaType>): ProcessResponse<SchemaType> {
+    const replayDelays = this.opts.replayDelays ?? true
+
+    async function* stream() {
+      for (const { text, delay } of response.chunks) {
+        if (replayDelays && delay > 0) {
+          await sleep(delay)
+        }
+        if (signal?.aborted) {
+          return
+        }
+        yield text
+      }
+    }
+
+    // the completion is parsed again (like the recorded processor did) so that the schema's transforms and defaults apply.
+    const parsed = async () => {
+      if (!schema) {
+        return response.parsed as SchemaType
+      }
+      const extracted = extractJSON(response.rawCompletion)
+      return schema.parse(extracted ? JSON.parse(extracted) : response.parsed)
+    }
+
+    return {
+      rawCompletion: Promise.resolve(response.rawCompletion),
+      parsed: parsed(),
+      stream: stream(),
+      usage: Promise.resolve(response.usage),
+      ...(response.toolCalls && { toolCalls: Promise.resolve(response.toolCalls) }),
+    }
+  }
+
+  private async cassettePath(key: string) {
+    const { join } = await import("node:path")
+    return join(this.opts.cassetteDir, `${key}.json`)
+  }
+
+  private async readCassette(path: string): Promise<Cassette | undefined> {
+    const { readFile } = await import("node:fs/promises")
+    let contents: string
+    try {
+      contents = await readFile(path, "utf-8")
+    } catch (err: any) {
+      if (err?.code === "ENOENT") {
+        return undefined
+      }
+      throw err
+    }
+    const cassette = JSON.parse(contents) as Cassette
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`cassette ${path} has version ${cassette.version}, expected ${CASSETTE_VERSION}. Record it again.`)
+    }
+    return cassette
+  }
+
+  private async writeCassette(path: string, cassette: Cassette) {
+    const { mkdir, writeFile } = await import("node:fs/promises")
+    await mkdir(this.opts.cassetteDir, { recursive: true })
+    await writeFile(path, JSON.stringify(cassette, null, 2) + "\n")
+  }
+}
+
+registerProcessor(RecordingProcessor.label, (opts?: Partial<RecordingProcessorOpts>) => new RecordingProcessor(opts as RecordingProcessorOpts))
@@ -1,4 +1,9 @@
 export * from "./OpenAIProcessor.js"
 export * from "./AnthropicProcessor.js"
+export * from "./OllamaProcessor.js"
+export * from "./MockProcessor.js"
+export * from "./RecordingProcessor.js"
+export * from "./FallbackProcessor.js"
 export * from "./registry.js"
+export * from "./modelRoutes.js"
 export * from "./Processor.js"
@@ -81,6 +81,15 @@ const extractImageFromContent = (content: ChatMessageContent): ContentImage[] =>
   return []
 }
 
+// parts that are neither text nor images (like the tool blocks of the AnthropicProcessor) are kept as they are.
+const extractOtherPartsFromContent = (content: ChatMessageContent): (ContentText | ContentImage)[] => {
+  if (Array.isArray(content)) {
+    return content.filter((c) => c.type !== "text" && c.type !== "image_url")
+  }
+
+  return []
+}
+
 const mergeContent = (messages: ChatMessageContent[]): ChatMessageContent => {
   const newContent: ChatMessageContent = [
     {
@@ -92,7 +101,7 @@ const mergeContent = (messages: ChatMessageContent[]): ChatMessageContent => {
   for (const message of messages) {
     const txt = extractTextFromContent(message);
     const images = extractImageFromContent(message);
-    newContent.push(...images);
+    newContent.push(...images, ...extractOtherPartsFromContent(message));
     (newContent[0] as ContentText).text += txt + "\n\n"
   }
 
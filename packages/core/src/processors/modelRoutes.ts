@@ -0,0 +1,124 @@
+import type { ProcessorSpecification } from "../WorkingMemory.js"
+import type { SupportedModel } from "../sharedTypes/supportedModels.js"
+import { getProcessor } from "./registry.js"
+import type { Processor, ProcessOpts, ProcessResponse } from "./Processor.js"
+
+export interface ModelRoute {
+  /**
+   * the registered processor that serves the alias, either its name or a full specification (with options).
+   */
+  processor: string | ProcessorSpecification
+  /**
+   * the concrete model sent to the processor, the processor's own default is used when left out.
+   */
+  model?: SupportedModel
+  /**
+   * used when the cognitive step does not pass a temperature itself.
+   */
+  temperature?: number
+  /**
+   * used when the cognitive step does not pass maxTokens itself.
+   */
+  maxTokens?: number
+  /**
+   * other aliases (or routes) that are tried, in order, when the request to this route fails.
+   */
+  fallbacks?: (string | ModelRoute)[]
+}
+
+/**
+ * Maps model aliases (like "fast", "quality" and "vision") to the processor and concrete model that serve them.
+ */
+export type ModelRoutes = Record<string, ModelRoute>
+
+const defaultModelRoutes: ModelRoutes = {}
+
+/**
+ * Registers routes used by every WorkingMemory, routes passed to a WorkingMemory itself take precedence.
+ *
+ * @example
+ * ```ts
+ * registerModelRoutes({
+ *   fast: { processor: "ollama", model: "ollama/llama3:8b" },
+ *   quality: { processor: "anthropic", model: "claude-3-opus-20240229" as SupportedModel, temperature: 0.7, fallbacks: ["fast"] },
+ * })
+ * ```
+ */
+export function registerModelRoutes(routes: ModelRoutes) {
+  Object.assign(defaultModelRoutes, routes)
+}
+
+/**
+ * the route for a model alias, or undefined when the model is not an alias (and goes to the processor as is).
+ */
+export const resolveModelRoute = (model: string | undefined, routes: ModelRoutes = {}): ModelRoute | undefined => {
+  if (!model) {
+    return undefined
+  }
+  return routes[model] ?? defaultModelRoutes[model]
+}
+
+/**
+ * Processes a request on the processor (and concrete model) a model alias is routed to, falling back
+ * to the route's fallbacks when a request fails.
+ */
+export class RoutedProcessor implements Processor {
+  constructor(private alias: string, private route: ModelRoute, private routes: ModelRoutes = {}) {}
+
+  // images are counted the way the processor of the route itself charges for them.
+  get imageTokenProvider() {
+    const { name, options }: ProcessorSpecification = typeof this.route.processor === "string" ? { name: this.route.processor } : this.route.processor
+    return getProcessor(name, options).imageTokenProvider
+  }
+
+  async process<SchemaType = string>(opts: ProcessOpts<SchemaType>): Promise<ProcessResponse<SchemaType>> {
+    const candidates = this.candidates()
+
+    let lastError: unknown
+    for (const [name, route] of candidates) {
+      const { name: processorName, options }: ProcessorSpecification = typeof route.processor === "string" ? { name: route.processor } : route.processor
+      try {
+        return await getProcessor(processorName, options).process<SchemaType>({
+          ...opts,
+          model: route.model,
+          temperature: opts.temperature ?? route.temperature,
+          maxTokens: opts.maxTokens ?? route.maxTokens,
+        })
+      } catch (err) {
+        lastError = err
+        if (opts.signal?.aborted) {
+          break
+        }
+        if (candidates.length > 1) {
+          console.error(`model route ${name} failed`, err)
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  // the route followed by its fallbacks (and theirs), every alias only once.
+  private candidates() {
+    const seen = new Set<string | ModelRoute>()
+    const candidates: [string, ModelRoute][] = []
+
+    const visit = (name: string, route: ModelRoute | undefined) => {
+      if (!route || seen.has(route)) {
+        return
+      }
+      seen.add(route)
+      candidates.push([name, route])
+      for (const fallback of route.fallbacks ?? []) {
+        if (typeof fallback === "string") {
+          visit(fallback, resolveModelRoute(fallback, this.routes))
+        } else {
+          visit(`${name} (fallback)`, fallback)
+        }
+      }
+    }
+
+    visit(this.alias, this.route)
+    return candidates
+  }
+}
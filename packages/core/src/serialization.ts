@@ -0,0 +1,144 @@
+import { nanoid } from "nanoid"
+import { z } from "zod"
+import { fromZodError } from "zod-validation-error"
+import { ChatMessageRoleEnum } from "./Memory.js"
+
+/**
+ * The version of the format WorkingMemory#toJSON writes. Older versions are migrated when they are loaded.
+ */
+export const WORKING_MEMORY_FORMAT_VERSION = 1
+
+const contentSchema = z.union([
+  z.string(),
+  z.array(z.union([
+    z.object({ type: z.literal("text"), text: z.string() }),
+    z.object({
+      type: z.literal("image_url"),
+      image_url: z.object({
+        url: z.string(),
+        detail: z.enum(["auto", "low", "high"]).optional(),
+      }),
+    }),
+  ])),
+])
+
+const memorySchema = z.object({
+  role: z.nativeEnum(ChatMessageRoleEnum),
+  content: contentSchema,
+  name: z.string().optional(),
+  region: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  _id: z.string(),
+  _timestamp: z.number(),
+})
+
+const usageTotalsSchema = z.object({
+  input: z.number(),
+  output: z.number(),
+  cost: z.number().optional(),
+})
+
+const serializedWorkingMemorySchema = z.object({
+  version: z.literal(WORKING_MEMORY_FORMAT_VERSION),
+  soulName: z.string(),
+  memories: z.array(memorySchema),
+  processor: z.object({
+    name: z.string(),
+    options: z.record(z.unknown()).optional(),
+  }),
+  regionOrder: z.array(z.string()).optional(),
+  usage: z.object({
+    model: z.string(),
+    input: z.number(),
+    output: z.number(),
+    processor: z.string().optional(),
+  }),
+  totalUsage: usageTotalsSchema.extend({
+    transformations: z.number(),
+    byModel: z.record(usageTotalsSchema),
+  }),
+})
+
+export type SerializedWorkingMemory = z.infer<typeof serializedWorkingMemorySchema>
+
+type Migration = (json: any, opts: { soulName?: string }) => any
+
+const emptyUsage = () => ({ model: "", input: 0, output: 0 })
+
+// migrations[n] turns version n into version n + 1.
+const migrations: Record<number, Migration> = {
+  // before there was a format, souls stored the memories (eg. the soul engine's debug state), sometimes with the soul name.
+  0: (json, { soulName }) => {
+    const { memories, ...rest } = Array.isArray(json) ? { memories: json } : json
+    const name = rest.soulName ?? soulName
+    if (!name) {
+      throw new Error("working memories stored without a soul name need a soulName to be loaded")
+    }
+    return {
+      version: 1,
+      soulName: name,
+      memories: (memories ?? []).map((memory: any) => ({
+        ...memory,
+        _id: memory._id ?? nanoid(),
+        _timestamp: memory._timestamp ?? Date.now(),
+      })),
+      processor: rest.processor ?? { name: "openai" },
+      regionOrder: rest.regionOrder,
+      usage: emptyUsage(),
+      totalUsage: { input: 0, output: 0, transformations: 0, byModel: {} },
+    }
+  },
+}
+
+const versionOf = (json: any): number => {
+  if (Array.isArray(json) || typeof json !== "object" || json === null || json.version === undefined) {
+    return 0
+  }
+  return json.version
+}
+
+/**
+ * Migrates a serialized WorkingMemory (of any version) to the current format and validates it.
+ *
+ * @param soulName - used for stored memories that do not include the soul name (only the oldest versions).
+ */
+export const parseSerializedWorkingMemory = (json: unknown, { soulName }: { soulName?: string } = {}): SerializedWorkingMemory => {
+  let migrated: any = typeof json === "string" ? JSON.parse(json) : json
+  let version = versionOf(migrated)
+
+  if (typeof version !== "number" || version > WORKING_MEMORY_FORMAT_VERSION) {
+    throw new Error(`unsupported working memory version ${version}, the latest supported version is ${WORKING_MEMORY_FORMAT_VERSION}`)
+  }
+
+  while (version < WORKING_MEMORY_FORMAT_VERSION) {
+    migrated = migrations[version](migrated, { soulName })
+    version = versionOf(migrated)
+  }
+
+  const result = serializedWorkingMemorySchema.safeParse(migrated)
+  if (!result.success) {
+    throw fromZodError(result.error, { prefix: "invalid working memory" })
+  }
+  return result.data
+}
+
+const isJsonValue = (value: unknown): boolean => {
+  if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+    return true
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJsonValue)
+  }
+  if (typeof value === "object" && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+    return Object.values(value as object).every((v) => v === undefined || isJsonValue(v))
+  }
+  return false
+}
+
+/**
+ * the processor options when they can be stored as JSON. Options that can not (like the instance in a
+ * MockProcessor's specification) are left out, pass the processor to WorkingMemory.fromJSON instead.
+ */
+export const serializableProcessorOptions = (options?: Record<string, any>) => {
+  return options && isJsonValue(options) ? options : undefined
+}
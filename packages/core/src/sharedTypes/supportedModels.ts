@@ -5,6 +5,7 @@ export const SUPPORTED_MODELS = ["fast", "quality", "vision", "gpt-3.5-turbo-012
 
 export type OrganizationSlug = string;
 export type CustomModelName = string;
+// also how local models are named, eg. "ollama/llama3:8b" for the OllamaProcessor.
 export type CUSTOM_MODEL = `${OrganizationSlug}/${CustomModelName}`;
 
 export type SupportedModel = typeof SUPPORTED_MODELS[number] | CUSTOM_MODEL;
@@ -0,0 +1,201 @@
+import type { ZodSchema, z } from "zod"
+import { fromZodError, ZodError } from "zod-validation-error"
+import { ChatMessageContent, ChatMessageRoleEnum, InputMemory, Memory } from "./Memory.js"
+
+/**
+ * A tool the model can choose to call in a cognitive step (see `tools` in MemoryTransformationOptions).
+ */
+export interface ToolDefinition<Params = any> {
+  /**
+   * tells the model what the tool does and when to use it.
+   */
+  description: string
+  params: ZodSchema<Params>
+  /**
+   * runs the tool when the model calls it. What it returns is added to the WorkingMemory as a function memory
+   * (and set as the `result` of the call). Tools without execute are only returned to the step's caller.
+   */
+  execute?: (params: Params) => unknown
+}
+
+export type ToolDefinitions = Record<string, ToolDefinition>
+
+/**
+ * "auto" lets the model decide whether to call a tool, "required" makes it call one of them and a tool's name makes
+ * it call that tool.
+ */
+export type ToolChoice<Tools extends ToolDefinitions = ToolDefinitions> = "auto" | "required" | (keyof Tools & string)
+
+/**
+ * A tool call as processors return it, before its arguments are parsed.
+ */
+export interface RawToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+export interface ToolCall<Name extends string = string, Params = unknown> {
+  id: string
+  name: Name
+  params: Params
+  /**
+   * what the tool's execute returned, undefined for tools without execute.
+   */
+  result?: unknown
+}
+
+export type ToolCallOf<Tools extends ToolDefinitions> = {
+  [Name in keyof Tools & string]: ToolCall<Name, z.infer<Tools[Name]["params"]>>
+}[keyof Tools & string]
+
+/**
+ * What a transformation with tools returns: the text the model wrote (often empty) and the tools it called.
+ */
+export interface ToolResponse<Tools extends ToolDefinitions = ToolDefinitions> {
+  content: string
+  toolCalls: ToolCallOf<Tools>[]
+}
+
+/**
+ * The tool calls stored in the metadata of the memory that made them, processors send them back to the model from there.
+ */
+export interface ToolCallsMetadata {
+  toolCalls: Omit<ToolCall, "result">[]
+}
+
+/**
+ * The metadata of a function memory, pointing at the call it is the result of.
+ */
+export interface ToolResultMetadata {
+  toolCallId: string
+}
+
+/**
+ * Infers the params of `execute` from the zod schema of a tool.
+ *
+ * @example
+ * ```ts
+ * const tools = {
+ *   lookUpWeather: defineTool({
+ *     description: "Looks up the current weather in a city.",
+ *     params: z.object({ city: z.string() }),
+ *     execute: async ({ city }) => weatherIn(city),
+ *   }),
+ * }
+ * ```
+ */
+export const defineTool = <Params>(tool: ToolDefinition<Params>) => tool
+
+export class ToolCallParseError extends Error {
+  constructor(readonly toolCall: RawToolCall, message: string) {
+    super(`invalid call of tool ${toolCall.name}: ${message}`)
+    this.name = "ToolCallParseError"
+  }
+}
+
+/**
+ * Parses and validates the arguments of the tool calls a processor returned.
+ */
+export const parseToolCalls = (tools: ToolDefinitions, rawCalls: RawToolCall[]): ToolCall[] => {
+  return rawCalls.map((raw) => {
+    const tool = Object.prototype.hasOwnProperty.call(tools, raw.name) ? tools[raw.name] : undefined
+    if (!tool) {
+      throw new ToolCallParseError(raw, "no such tool")
+    }
+    let args: unknown
+    try {
+      args = raw.arguments.trim() ? JSON.parse(raw.arguments) : {}
+    } catch (err: any) {
+      throw new ToolCallParseError(raw, `arguments are not JSON (${err.message})`)
+    }
+    const parsed = tool.params.safeParse(args)
+    if (!parsed.success) {
+      throw new ToolCallParseError(raw, fromZodError(parsed.error as ZodError).toString())
+    }
+    return { id: raw.id, name: raw.name, params: parsed.data }
+  })
+}
+
+export const toolCallsFromMemory = (memory: Memory | InputMemory): ToolCallsMetadata["toolCalls"] | undefined => {
+  const toolCalls = (memory.metadata as Partial<ToolCallsMetadata> | undefined)?.toolCalls
+  return Array.isArray(toolCalls) && toolCalls.length > 0 ? toolCalls : undefined
+}
+
+export const toolCallIdFromMemory = (memory: Memory | InputMemory): string | undefined => {
+  if (memory.role !== ChatMessageRoleEnum.Function) {
+    return undefined
+  }
+  const toolCallId = (memory.metadata as Partial<ToolResultMetadata> | undefined)?.toolCallId
+  return typeof toolCallId === "string" ? toolCallId : undefined
+}
+
+/**
+ * The tool calls of a memory the way processors send them. Providers reject calls that are not followed by their
+ * result, so calls without a function memory (eg. of tools without execute) are left out, and described in the
+ * content when the model did not write anything along with them.
+ */
+export const toolCallsToSend = (memory: Memory, memories: Memory[]): { toolCalls?: ToolCallsMetadata["toolCalls"], content: ChatMessageContent } => {
+  const toolCalls = memory.role === ChatMessageRoleEnum.Assistant ? toolCallsFromMemory(memory) : undefined
+  if (!toolCalls) {
+    return { content: memory.content }
+  }
+  const answered = new Set(memories.map(toolCallIdFromMemory))
+  const withResult = toolCalls.filter(({ id }) => answered.has(id))
+  const withoutResult = toolCalls.filter(({ id }) => !answered.has(id))
+  const described = withoutResult.map(({ name, params }) => `${name}(${JSON.stringify(params)})`).join("\n")
+  return {
+    ...(withResult.length > 0 && { toolCalls: withResult }),
+    content: memory.content || described,
+  }
+}
+
+/**
+ * The memory of the soul calling tools (and saying whatever the model wrote along with the calls).
+ */
+export const toolCallMemory = (response: ToolResponse, memory: InputMemory = { role: ChatMessageRoleEnum.Assistant, content: response.content }): InputMemory => {
+  if (response.toolCalls.length === 0) {
+    return memory
+  }
+  const metadata: ToolCallsMetadata = {
+    toolCalls: response.toolCalls.map(({ id, name, params }) => ({ id, name, params })),
+  }
+  return {
+    ...memory,
+    metadata: { ...memory.metadata, ...metadata },
+  }
+}
+
+/**
+ * The function memory holding the result of a tool call.
+ */
+export const toolResultMemory = (toolCall: ToolCall): InputMemory => {
+  const metadata: ToolResultMetadata = { toolCallId: toolCall.id }
+  return {
+    role: ChatMessageRoleEnum.Function,
+    name: toolCall.name,
+    content: typeof toolCall.result === "string" ? toolCall.result : JSON.stringify(toolCall.result ?? null),
+    metadata: { ...metadata },
+  }
+}
+
+/**
+ * Runs the execute of every called tool (in order), a tool that throws gets `{ error }` as its result so the model
+ * can see what went wrong.
+ */
+export const executeToolCalls = async (tools: ToolDefinitions, toolCalls: ToolCall[]): Promise<ToolCall[]> => {
+  const executed: ToolCall[] = []
+  for (const toolCall of toolCalls) {
+    const execute = tools[toolCall.name].execute
+    if (!execute) {
+      executed.push(toolCall)
+      continue
+    }
+    try {
+      executed.push({ ...toolCall, result: await execute(toolCall.params) })
+    } catch (err: any) {
+      executed.push({ ...toolCall, result: { error: err?.message ?? String(err) } })
+    }
+  }
+  return executed
+}
@@ -0,0 +1,121 @@
+import type { UsageNumbers } from "./processors/Processor.js"
+
+/**
+ * what a model costs, in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export type ModelPrices = Record<string, ModelPrice>
+
+/**
+ * list prices at the time of writing, register your own with registerModelPrices (or pass modelPrices to a WorkingMemory)
+ * when they change or when you have negotiated rates.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  "gpt-3.5-turbo-0125": { input: 0.5, output: 1.5 },
+  "gpt-4-0125-preview": { input: 10, output: 30 },
+  "gpt-4-vision-preview": { input: 10, output: 30 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4o": { input: 5, output: 15 },
+  "claude-3-opus-20240229": { input: 15, output: 75 },
+  "claude-3-sonnet-20240229": { input: 3, output: 15 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+}
+
+const registeredModelPrices: ModelPrices = { ...DEFAULT_MODEL_PRICES }
+
+/**
+ * Registers prices used by every WorkingMemory, prices passed to a WorkingMemory itself take precedence.
+ *
+ * @example
+ * ```ts
+ * registerModelPrices({ "ollama/llama3:8b": { input: 0, output: 0 } })
+ * ```
+ */
+export function registerModelPrices(prices: ModelPrices) {
+  Object.assign(registeredModelPrices, prices)
+}
+
+export const priceForModel = (model: string, prices: ModelPrices = {}): ModelPrice | undefined => {
+  return prices[model] ?? registeredModelPrices[model]
+}
+
+export interface UsageTotals {
+  input: number
+  output: number
+  /**
+   * in USD, undefined when none of the models used have a price.
+   */
+  cost?: number
+}
+
+/**
+ * The tokens (and cost) of every transformation that led to a WorkingMemory.
+ */
+export interface CumulativeUsage extends UsageTotals {
+  /**
+   * how many transformations were counted.
+   */
+  transformations: number
+  byModel: Record<string, UsageTotals>
+}
+
+export const emptyCumulativeUsage = (): CumulativeUsage => ({
+  input: 0,
+  output: 0,
+  transformations: 0,
+  byModel: {},
+})
+
+const combineTotals = (a: UsageTotals, b: UsageTotals, sign: 1 | -1): UsageTotals => {
+  const cost = a.cost === undefined && b.cost === undefined ? undefined : (a.cost ?? 0) + sign * (b.cost ?? 0)
+  return {
+    input: a.input + sign * b.input,
+    output: a.output + sign * b.output,
+    ...(cost !== undefined && { cost }),
+  }
+}
+
+const combineUsage = (a: CumulativeUsage, b: CumulativeUsage, sign: 1 | -1): CumulativeUsage => {
+  const byModel = { ...a.byModel }
+  for (const [model, totals] of Object.entries(b.byModel)) {
+    const combined = combineTotals(byModel[model] ?? { input: 0, output: 0 }, totals, sign)
+    if (combined.input === 0 && combined.output === 0) {
+      delete byModel[model]
+    } else {
+      byModel[model] = combined
+    }
+  }
+
+  return {
+    ...combineTotals(a, b, sign),
+    transformations: a.transformations + sign * b.transformations,
+    byModel,
+  }
+}
+
+/**
+ * usage with the numbers of one more transformation added.
+ */
+export const addUsage = (total: CumulativeUsage, usage: UsageNumbers, prices?: ModelPrices): CumulativeUsage => {
+  const price = priceForModel(usage.model, prices)
+  const totals: UsageTotals = {
+    input: usage.input,
+    output: usage.output,
+    ...(price && { cost: (usage.input * price.input + usage.output * price.output) / 1_000_000 }),
+  }
+  return combineUsage(total, { ...totals, transformations: 1, byModel: { [usage.model]: totals } }, 1)
+}
+
+/**
+ * the usage of two (independent) working memories together.
+ */
+export const sumUsage = (a: CumulativeUsage, b: CumulativeUsage) => combineUsage(a, b, 1)
+
+/**
+ * the usage added to `later` since `earlier` (which needs to be one of its ancestors).
+ */
+export const usageDifference = (later: CumulativeUsage, earlier: CumulativeUsage) => combineUsage(later, earlier, -1)
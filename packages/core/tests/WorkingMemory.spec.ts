@@ -1,6 +1,8 @@
 import { expect } from "chai"
 import { WorkingMemory } from "../src/WorkingMemory.js"
 import { ChatMessageRoleEnum, InputMemory } from "../src/Memory.js"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { externalDialog } from "./shared/cognitiveSteps.js"
 
 
 describe("WorkingMemory", () => {
@@ -240,6 +242,29 @@ describe("WorkingMemory", () => {
     expect(splicedMemories.memories[1].content).to.equal("Spliced Memory")
   })
 
+  it("aborts transformations with its signal, and keeps the signal through clones", async () => {
+    const mock = new MockProcessor({ responses: [{ response: "Hello!", repeat: true }] })
+    const controller = new AbortController()
+    const memories = new WorkingMemory({
+      soulName: "test",
+      processor: mock.specification,
+    }).withSignal(controller.signal)
+      .withMonologue("Memory #1")
+
+    const [withDialog] = await externalDialog(memories, "Say hello")
+    expect(withDialog.signal).to.equal(controller.signal)
+    expect(mock.calls[0].signal).to.equal(controller.signal)
+
+    controller.abort()
+    const err = await externalDialog(withDialog, "Say hello again").catch((err) => err)
+    expect(err).to.be.instanceOf(Error)
+    expect(mock.calls).to.have.lengthOf(1)
+
+    const [uncancelled] = await externalDialog(withDialog.withSignal(undefined), "Say hello again")
+    expect(uncancelled.signal).to.be.undefined
+    expect(mock.calls).to.have.lengthOf(2)
+  })
+
   describe('regions', () => {
 
     const fakeSystemMemeory: InputMemory = {
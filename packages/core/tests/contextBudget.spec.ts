@@ -0,0 +1,124 @@
+import { expect } from "chai"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { ChatMessageRoleEnum, InputMemory } from "../src/Memory.js"
+import { ContextBudget, dropOldest, summarizeAndReplace } from "../src/contextBudget.js"
+import { externalDialog } from "./shared/cognitiveSteps.js"
+
+const hello = { response: 'Samantha said: "Hello!"', chunks: ['Samantha said: "', "Hello", '!"'], repeat: true }
+
+// every memory costs 10 tokens, which keeps the budgets in these tests easy to follow.
+const countTokens = () => 10
+
+const contentsOf = (memory: WorkingMemory) => memory.memories.map((m) => m.content)
+
+describe("contextBudget", () => {
+  let mock: MockProcessor
+
+  const conversation = (budget?: ContextBudget) => new WorkingMemory({
+    soulName: "Samantha",
+    processor: mock.specification,
+    contextBudget: budget,
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha.", region: "core" },
+      ...Array.from({ length: 6 }, (_, i): InputMemory => ({
+        role: i % 2 === 0 ? ChatMessageRoleEnum.User : ChatMessageRoleEnum.Assistant,
+        content: `message ${i}`,
+      })),
+    ],
+  })
+
+  beforeEach(() => {
+    mock = new MockProcessor({ responses: [hello] })
+  })
+
+  it("drops the oldest memories before a transformation and keeps pinned regions", async () => {
+    // 7 memories and the command are 80 tokens, 20 too many.
+    const [withDialog] = await externalDialog(conversation({ maxTokens: 60, countTokens }), "Say hello")
+
+    expect(mock.calls[0].memory.length).to.equal(6)
+    expect(contentsOf(withDialog)).to.deep.equal([
+      "You are Samantha.",
+      "message 2",
+      "message 3",
+      "message 4",
+      "message 5",
+      'Samantha said: "Hello!"',
+    ])
+  })
+
+  it("leaves memories within the budget alone", async () => {
+    const [withDialog] = await externalDialog(conversation({ maxTokens: 80, countTokens }), "Say hello")
+
+    expect(withDialog.length).to.equal(8)
+  })
+
+  it("uses the limit of the model or processor, and reserves the maxTokens of the response", async () => {
+    const budget: ContextBudget = { maxTokens: 1_000, models: { "gpt-4o": 60 }, processors: { mock: 70 }, countTokens }
+
+    const [forModel] = await externalDialog(conversation(budget), "Say hello", { model: "gpt-4o" })
+    const [forProcessor] = await externalDialog(conversation(budget), "Say hello", { maxTokens: 20 })
+
+    expect(forModel.length).to.equal(6)
+    expect(forProcessor.length).to.equal(5)
+  })
+
+  it("tells the caller when the strategies cannot fit the memory", async () => {
+    const overBudget: { tokens: number, maxTokens: number }[] = []
+    const budget: ContextBudget = {
+      maxTokens: 40,
+      countTokens,
+      // a strategy that cannot evict anything.
+      strategies: [(memory) => memory],
+      onOverBudget: (_memory, usage) => overBudget.push(usage),
+    }
+
+    const [withDialog] = await externalDialog(conversation(budget), "Say hello")
+
+    expect(withDialog.length).to.equal(8)
+    expect(overBudget).to.deep.equal([{ tokens: 70, maxTokens: 30 }])
+  })
+
+  it("only drops memories from a region when asked to", async () => {
+    const memory = conversation({ maxTokens: 70, countTokens, strategies: [dropOldest({ region: "notes" })] })
+      .withRegion("notes", { role: ChatMessageRoleEnum.Assistant, content: "an old note" })
+
+    const [withDialog] = await externalDialog(memory, "Say hello")
+
+    expect(contentsOf(withDialog)).not.to.include("an old note")
+    expect(contentsOf(withDialog)).to.include("message 0")
+  })
+
+  it("summarizes the evicted memories with a cognitive step", async () => {
+    mock = new MockProcessor({
+      responses: [
+        { command: "Summarize the conversation", response: "They said hi.", usage: { input: 50, output: 5 } },
+        hello,
+      ],
+    })
+    const memory = conversation({ maxTokens: 60, countTokens, strategies: [summarizeAndReplace({ keepLatest: 2 }), dropOldest()] })
+
+    const [withDialog] = await externalDialog(memory, "Say hello", { model: "gpt-4o" })
+
+    const summarized = mock.calls[0].memory.memories.map((m) => m.content)
+    expect(summarized.slice(0, 4)).to.deep.equal(["message 0", "message 1", "message 2", "message 3"])
+    expect(withDialog.memories.map(({ region, content }) => region ?? content)).to.deep.equal([
+      "core",
+      "summary",
+      "message 4",
+      "message 5",
+      'Samantha said: "Hello!"',
+    ])
+    expect(withDialog.memories[1].content).to.include("They said hi.")
+    expect(withDialog.totalUsage.transformations).to.equal(2)
+    expect(withDialog.totalUsage.byModel.mock).to.deep.include({ input: 50, output: 5 })
+  })
+
+  it("is kept through clones and can be removed", async () => {
+    const budgeted = conversation().withContextBudget({ maxTokens: 60, countTokens })
+    const [withDialog] = await externalDialog(budgeted.withMonologue("a thought"), "Say hello")
+
+    expect(withDialog.contextBudget).to.deep.include({ maxTokens: 60 })
+    expect(withDialog.withContextBudget(undefined).contextBudget).to.be.undefined
+  })
+})
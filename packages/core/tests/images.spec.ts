@@ -0,0 +1,111 @@
+import { expect } from "chai"
+import {
+  anthropicImageTokens,
+  detectBase64ImageMediaType,
+  imageTokens,
+  imageUrlDimensions,
+  inlineImageData,
+  openAIImageTokens,
+} from "../src/images.js"
+import { countMemoryTokens } from "../src/contextBudget.js"
+import { ChatMessageRoleEnum } from "../src/Memory.js"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { externalDialog } from "./shared/cognitiveSteps.js"
+
+const uint16 = (value: number, littleEndian = false) => {
+  const bytes = [value >> 8, value & 0xff]
+  return littleEndian ? bytes.reverse() : bytes
+}
+const uint32 = (value: number) => [...uint16(value >>> 16), ...uint16(value & 0xffff)]
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+// just the headers, which is all that is read of an image.
+const headers = {
+  png: (width: number, height: number) => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...uint32(13), ...ascii("IHDR"), ...uint32(width), ...uint32(height), 8, 6, 0, 0, 0],
+  gif: (width: number, height: number) => [...ascii("GIF89a"), ...uint16(width, true), ...uint16(height, true), 0, 0, 0],
+  jpeg: (width: number, height: number) => [
+    0xff, 0xd8,
+    0xff, 0xe0, ...uint16(16), ...ascii("JFIF"), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+    0xff, 0xc0, ...uint16(17), 8, ...uint16(height), ...uint16(width), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1,
+  ],
+  webp: (width: number, height: number) => [
+    ...ascii("RIFF"), 0, 0, 0, 0, ...ascii("WEBP"), ...ascii("VP8X"), 10, 0, 0, 0, 0, 0, 0, 0,
+    (width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16,
+    (height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16,
+  ],
+}
+
+const dataUrl = (mediaType: string, bytes: number[]) => `data:${mediaType};base64,${Buffer.from(bytes).toString("base64")}`
+
+describe("images", () => {
+  it("reads the dimensions of inlined images", () => {
+    expect(imageUrlDimensions(dataUrl("image/png", headers.png(640, 480)))).to.deep.equal({ width: 640, height: 480 })
+    expect(imageUrlDimensions(dataUrl("image/gif", headers.gif(320, 200)))).to.deep.equal({ width: 320, height: 200 })
+    expect(imageUrlDimensions(dataUrl("image/jpeg", headers.jpeg(1920, 1080)))).to.deep.equal({ width: 1920, height: 1080 })
+    expect(imageUrlDimensions(dataUrl("image/webp", headers.webp(3000, 2000)))).to.deep.equal({ width: 3000, height: 2000 })
+    // plain base64 works too, remote images have no known size.
+    expect(imageUrlDimensions(Buffer.from(headers.png(10, 20)).toString("base64"))).to.deep.equal({ width: 10, height: 20 })
+    expect(imageUrlDimensions("https://example.com/dog.png")).to.be.undefined
+  })
+
+  it("detects the media type from the bytes", () => {
+    const mislabeled = dataUrl("image/png", headers.jpeg(100, 100))
+    expect(inlineImageData(mislabeled)?.mediaType).to.equal("image/png")
+    expect(detectBase64ImageMediaType(inlineImageData(mislabeled)!.data)).to.equal("image/jpeg")
+    expect(detectBase64ImageMediaType(Buffer.from("hello").toString("base64"))).to.be.undefined
+  })
+
+  it("estimates the tokens OpenAI charges", () => {
+    expect(openAIImageTokens({ width: 1024, height: 1024 })).to.equal(765)
+    expect(openAIImageTokens({ width: 4096, height: 8192 })).to.equal(1105)
+    expect(openAIImageTokens({ width: 500, height: 300 })).to.equal(255)
+    expect(openAIImageTokens({ width: 4096, height: 8192 }, "low")).to.equal(85)
+  })
+
+  it("estimates the tokens Anthropic charges", () => {
+    expect(anthropicImageTokens({ width: 1000, height: 1000 })).to.equal(1334)
+    expect(anthropicImageTokens({ width: 200, height: 200 })).to.equal(54)
+    // scaled down to about 1.15 megapixels.
+    expect(anthropicImageTokens({ width: 4000, height: 3000 })).to.equal(1534)
+  })
+
+  it("counts images without a width or height as images of unknown size", () => {
+    expect(openAIImageTokens({ width: 0, height: 480 })).to.equal(765)
+    expect(anthropicImageTokens({ width: 640, height: 0 })).to.equal(anthropicImageTokens({ width: 1024, height: 1024 }))
+    expect(imageTokens({ url: dataUrl("image/png", headers.png(0, 0)) }, "anthropic")).to.equal(1399)
+  })
+
+  it("only reads the header of large images", () => {
+    const pixels = new Array(200_000).fill(0)
+    expect(imageUrlDimensions(dataUrl("image/png", [...headers.png(640, 480), ...pixels]))).to.deep.equal({ width: 640, height: 480 })
+  })
+
+  it("counts images by their size in the context budget", () => {
+    const image = { url: dataUrl("image/png", headers.png(500, 300)) }
+    const tokens = countMemoryTokens({ role: ChatMessageRoleEnum.User, content: [{ type: "image_url", image_url: image }] })
+
+    expect(tokens - countMemoryTokens({ role: ChatMessageRoleEnum.User, content: [] })).to.equal(255)
+    expect(imageTokens(image, "anthropic")).to.equal(200)
+    expect(imageTokens({ url: "https://example.com/dog.png" })).to.equal(765)
+    expect(countMemoryTokens({ role: ChatMessageRoleEnum.User, content: [{ type: "image_url", image_url: image }] }, "anthropic") - tokens).to.equal(200 - 255)
+  })
+
+  it("budgets images the way the step's processor charges for them", async () => {
+    const mock = Object.assign(new MockProcessor({ responses: [{ response: "a photo", repeat: true }] }), { imageTokenProvider: "anthropic" as const })
+    const memory = new WorkingMemory({
+      soulName: "Samantha",
+      processor: mock.specification,
+      // the image is 765 tokens for OpenAI, but 1334 for Anthropic.
+      contextBudget: { maxTokens: 1_000 },
+      memories: [
+        { role: ChatMessageRoleEnum.System, content: "You are Samantha.", region: "core" },
+        { role: ChatMessageRoleEnum.User, content: [{ type: "image_url", image_url: { url: dataUrl("image/png", headers.png(1000, 1000)) } }] },
+      ],
+    })
+
+    await externalDialog(memory, "Describe it")
+
+    expect(mock.calls[0].memory.memories.map((m) => m.role)).to.deep.equal([ChatMessageRoleEnum.System, ChatMessageRoleEnum.System])
+  })
+})
@@ -0,0 +1,101 @@
+import { expect } from "chai"
+import { parsePartialJSON, partialJSONStream } from "../src/partialJson.js"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { ChatMessageRoleEnum } from "../src/Memory.js"
+import { brainstorm, externalDialog } from "./shared/cognitiveSteps.js"
+
+async function* chunked(...chunks: string[]) {
+  for (const chunk of chunks) {
+    yield chunk
+  }
+}
+
+describe("partialJson", () => {
+  describe("parsePartialJSON", () => {
+    it("closes open strings, arrays and objects", () => {
+      expect(parsePartialJSON('{"name": "Sam')).to.deep.equal({ name: "Sam" })
+      expect(parsePartialJSON('{"ideas": ["one", "tw')).to.deep.equal({ ideas: ["one", "tw"] })
+      expect(parsePartialJSON('{"a": {"b": [1, 2')).to.deep.equal({ a: { b: [1, 2] } })
+    })
+
+    it("leaves out what can not be completed yet", () => {
+      expect(parsePartialJSON('{"na')).to.deep.equal({})
+      expect(parsePartialJSON('{"name": "Sam", "ag')).to.deep.equal({ name: "Sam" })
+      expect(parsePartialJSON('{"name": ')).to.deep.equal({})
+      expect(parsePartialJSON('{"ok": tr')).to.deep.equal({})
+      expect(parsePartialJSON('{"items": [1, 2, ')).to.deep.equal({ items: [1, 2] })
+    })
+
+    it("drops half written escape sequences", () => {
+      expect(parsePartialJSON('{"quote": "she said \\')).to.deep.equal({ quote: "she said " })
+      expect(parsePartialJSON('{"quote": "caf\\u00')).to.deep.equal({ quote: "caf" })
+      expect(parsePartialJSON('{"quote": "a \\"b\\" c')).to.deep.equal({ quote: 'a "b" c' })
+    })
+
+    it("skips text before the JSON and stops at its end", () => {
+      expect(parsePartialJSON("no json yet")).to.be.undefined
+      expect(parsePartialJSON('Sure! {"answer": "blue"} hope that helps {')).to.deep.equal({ answer: "blue" })
+    })
+  })
+
+  describe("partialJSONStream", () => {
+    it("yields only when the parsed value changes", async () => {
+      const partials: unknown[] = []
+      for await (const partial of partialJSONStream(chunked('{"ide', 'as": ["o', 'ne"', ', "two"]', "}"))) {
+        partials.push(partial)
+      }
+      expect(partials).to.deep.equal([
+        {},
+        { ideas: ["o"] },
+        { ideas: ["one"] },
+        { ideas: ["one", "two"] },
+      ])
+    })
+  })
+
+  describe("streaming schema steps", () => {
+    const memoryWith = (mock: MockProcessor) => new WorkingMemory({
+      soulName: "Samantha",
+      processor: mock.specification,
+      memories: [
+        { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+      ],
+    })
+
+    it("streams partial objects as a fourth element", async () => {
+      const mock = new MockProcessor({
+        responses: [{ response: { newIdeas: ["fly", "swim"] }, chunks: ['{"newIdeas": ["f', 'ly", "sw', 'im"]}'] }],
+      })
+
+      const [, , ideas, partialStream] = await brainstorm(memoryWith(mock), "ways to travel", { stream: true })
+      const partials: unknown[] = []
+      for await (const partial of partialStream) {
+        partials.push(partial.newIdeas)
+      }
+
+      expect(partials).to.deep.equal([["f"], ["fly", "sw"], ["fly", "swim"]])
+      expect(await ideas).to.deep.equal(["fly", "swim"])
+    })
+
+    it("ends the partial stream right away for steps without a schema", async () => {
+      const mock = new MockProcessor({
+        responses: [{ response: 'Samantha said: "Hi!"', chunks: ['Samantha said: "', 'Hi', '!"'] }],
+      })
+
+      const [, stream, said, partialStream] = await externalDialog(memoryWith(mock), "Say hi", { stream: true })
+      const partials: unknown[] = []
+      for await (const partial of partialStream) {
+        partials.push(partial)
+      }
+      let text = ""
+      for await (const chunk of stream) {
+        text += chunk
+      }
+
+      expect(partials).to.be.empty
+      expect(text).to.equal("Hi!")
+      expect(await said).to.equal("Hi!")
+    })
+  })
+})
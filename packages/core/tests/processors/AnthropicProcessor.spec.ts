@@ -3,8 +3,9 @@ import { WorkingMemory } from '../../src/WorkingMemory.js';
 import { ChatMessageRoleEnum } from '../../src/Memory.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from "zod-to-json-schema"
-import { AnthropicProcessor } from '../../src/processors/AnthropicProcessor.js';
+import { AnthropicClientConfig, AnthropicCompletionParams, AnthropicProcessor } from '../../src/processors/AnthropicProcessor.js';
 import { indentNicely } from '../../src/utils.js';
+import { structuredOutputSchema } from '../../src/processors/Processor.js';
 import { externalDialog } from '../shared/cognitiveSteps.js';
 
 describe('AnthropicProcessor', function() {
@@ -93,4 +94,289 @@ describe('AnthropicProcessor', function() {
     expect(await response.parsed).to.deep.equal({ text: (await response.parsed).text });
   })
 
+  describe("structured output", () => {
+    const params = z.object({
+      text: z.string()
+    })
+
+    const requests: any[] = []
+
+    // answers tool calls with a streamed tool input, and everything else with text.
+    class FakeClient {
+      static rejectTools = false
+
+      constructor(_opts: AnthropicClientConfig) {}
+
+      messages = {
+        stream: (body: AnthropicCompletionParams) => {
+          requests.push(body)
+          const usesTools = "tools" in body
+          return (async function* () {
+            if (usesTools && FakeClient.rejectTools) {
+              throw Object.assign(new Error("tools are not supported"), { status: 400 })
+            }
+            yield { type: "message_start", message: { usage: { input_tokens: 10 } } }
+            const deltas = usesTools ?
+              ['{"te', 'xt": "hi"}'].map((partial_json) => ({ type: "input_json_delta", partial_json })) :
+              ['{"text": "hi from the prompt"}'].map((text) => ({ type: "text_delta", text }))
+            for (const delta of deltas) {
+              yield { type: "content_block_delta", index: 0, delta }
+            }
+            yield { type: "message_delta", delta: {}, usage: { output_tokens: 5 } }
+          })() as any
+        }
+      }
+    }
+
+    const memory = () => new WorkingMemory({
+      soulName: 'testEntity',
+      memories: [
+        {
+          role: ChatMessageRoleEnum.System,
+          content: "You are a test."
+        },
+        {
+          role: ChatMessageRoleEnum.User,
+          content: "Please put the words 'hi' into the text field."
+        }
+      ]
+    })
+
+    beforeEach(() => {
+      requests.length = 0
+      FakeClient.rejectTools = false
+    })
+
+    it("forces a tool call with the schema as its input", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient, structuredOutput: true });
+
+      const response = await processor.process({ memory: memory(), schema: params });
+
+      expect(await response.parsed).to.deep.equal({ text: "hi" });
+      expect(requests).to.have.length(1);
+      const [request] = requests
+      expect(request.tools[0].input_schema).to.include({ type: "object" });
+      expect(request.tools[0].input_schema).not.to.have.property("$schema");
+      expect(request.tool_choice).to.deep.equal({ type: "tool", name: request.tools[0].name });
+      expect(request.system).not.to.include("You only speak JSON");
+    })
+
+    it("falls back to the prompt when tools are rejected", async () => {
+      FakeClient.rejectTools = true
+      const processor = new AnthropicProcessor({ customClient: FakeClient, structuredOutput: true });
+
+      const response = await processor.process({ memory: memory(), schema: params });
+
+      expect(await response.parsed).to.deep.equal({ text: "hi from the prompt" });
+      expect(requests).to.have.length(2);
+      expect(requests[1]).not.to.have.property("tools");
+      expect(requests[1].system).to.include("You only speak JSON");
+    })
+
+    it("uses the prompt unless it is enabled", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient });
+
+      const response = await processor.process({ memory: memory(), schema: params });
+
+      expect(await response.parsed).to.deep.equal({ text: "hi from the prompt" });
+      expect(requests[0]).not.to.have.property("tools");
+    })
+  })
+
+  describe("tools", () => {
+    const requests: any[] = []
+
+    // says something and calls the lookUpWeather tool, streaming its input in pieces.
+    class FakeClient {
+      constructor(_opts: AnthropicClientConfig) {}
+
+      messages = {
+        stream: (body: AnthropicCompletionParams) => {
+          requests.push(body)
+          return (async function* () {
+            yield { type: "message_start", message: { usage: { input_tokens: 10 } } }
+            yield { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }
+            yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me check." } }
+            yield { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "lookUpWeather", input: {} } }
+            for (const partial_json of ['{"ci', 'ty": "Paris"}']) {
+              yield { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json } }
+            }
+            yield { type: "message_delta", delta: {}, usage: { output_tokens: 5 } }
+          })() as any
+        }
+      }
+    }
+
+    const tools = {
+      lookUpWeather: {
+        description: "Looks up the current weather in a city.",
+        params: z.object({ city: z.string() }),
+      },
+    }
+
+    beforeEach(() => {
+      requests.length = 0
+    })
+
+    it("sends the tools and reads the streamed tool calls", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient });
+      const memory = new WorkingMemory({
+        soulName: 'testEntity',
+        memories: [{ role: ChatMessageRoleEnum.User, content: "What's the weather like in Paris?" }]
+      })
+
+      const response = await processor.process({ memory, tools, toolChoice: "required" });
+
+      expect(await response.rawCompletion).to.equal("Let me check.");
+      expect(await response.toolCalls).to.deep.equal([{ id: "toolu_1", name: "lookUpWeather", arguments: '{"city": "Paris"}' }]);
+      const [request] = requests
+      expect(request.tools).to.deep.equal([{
+        name: "lookUpWeather",
+        description: "Looks up the current weather in a city.",
+        input_schema: structuredOutputSchema(tools.lookUpWeather.params),
+      }]);
+      expect(request.tool_choice).to.deep.equal({ type: "any" });
+    })
+
+    it("sends tool calls and their results back as content blocks", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient });
+      const memory = new WorkingMemory({
+        soulName: 'testEntity',
+        memories: [
+          { role: ChatMessageRoleEnum.System, content: "You are a test." },
+          { role: ChatMessageRoleEnum.User, content: "What's the weather like in Paris?" },
+          {
+            role: ChatMessageRoleEnum.Assistant,
+            content: "Let me check.",
+            metadata: { toolCalls: [{ id: "toolu_1", name: "lookUpWeather", params: { city: "Paris" } }] },
+          },
+          { role: ChatMessageRoleEnum.Function, name: "lookUpWeather", content: '{"weather":"sunny"}', metadata: { toolCallId: "toolu_1" } },
+          { role: ChatMessageRoleEnum.User, content: "So?" },
+        ]
+      })
+
+      const response = await processor.process({ memory });
+      await response.rawCompletion
+
+      expect(requests[0].messages).to.deep.equal([
+        { role: "user", content: "What's the weather like in Paris?" },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Let me check." },
+            { type: "tool_use", id: "toolu_1", name: "lookUpWeather", input: { city: "Paris" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: '{"weather":"sunny"}' },
+            { type: "text", text: "So?" },
+          ],
+        },
+      ]);
+    })
+  })
+
+
+  describe("vision", () => {
+    const requests: any[] = []
+    const fetched: string[] = []
+
+    class FakeClient {
+      constructor(_opts: AnthropicClientConfig) {}
+
+      messages = {
+        stream: (body: AnthropicCompletionParams) => {
+          requests.push(body)
+          return (async function* () {
+            yield { type: "message_start", message: { usage: { input_tokens: 10 } } }
+            yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "A dog." } }
+            yield { type: "message_delta", delta: {}, usage: { output_tokens: 5 } }
+          })() as any
+        }
+      }
+    }
+
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13])
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16])
+
+    const fakeFetch = async (url: any, init?: RequestInit) => {
+      fetched.push(url)
+      if (url.endsWith("missing.png")) {
+        return new Response("not found", { status: 404 })
+      }
+      if (url.endsWith("slow.png")) {
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new Error("the request was cancelled")))
+        })
+      }
+      return new Response(jpeg, { status: 200, headers: { "content-type": "image/jpeg; charset=binary" } })
+    }
+
+    const memoryWith = (...urls: string[]) => new WorkingMemory({
+      soulName: 'MrVision',
+      memories: [
+        { role: ChatMessageRoleEnum.System, content: "You are modeling the mind of MrVision." },
+        {
+          role: ChatMessageRoleEnum.User,
+          content: [
+            { type: "text", text: "What is this?" },
+            ...urls.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+          ]
+        },
+      ],
+    })
+
+    beforeEach(() => {
+      requests.length = 0
+      fetched.length = 0
+    })
+
+    it("sends images as base64 image blocks", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient, fetch: fakeFetch as any });
+
+      // the media type of the data URL is wrong, claude rejects images that are not what they say they are.
+      const response = await processor.process({
+        memory: memoryWith(`data:image/jpeg;base64,${png.toString("base64")}`, "https://example.com/dog.jpg"),
+      });
+
+      expect(await response.rawCompletion).to.equal("A dog.");
+      expect(fetched).to.deep.equal(["https://example.com/dog.jpg"]);
+      expect(requests[0].messages).to.deep.equal([{
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image", source: { type: "base64", media_type: "image/png", data: png.toString("base64") } },
+          { type: "image", source: { type: "base64", media_type: "image/jpeg", data: jpeg.toString("base64") } },
+        ],
+      }]);
+      expect(requests[0].system).to.equal("You are modeling the mind of MrVision.\n");
+    })
+
+    it("fails when an image cannot be downloaded", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient, fetch: fakeFetch as any });
+
+      const err = await processor.process({ memory: memoryWith("https://example.com/missing.png") }).catch((err) => err)
+
+      expect(err.message).to.include("could not download image https://example.com/missing.png: 404");
+      // the retries use the same download.
+      expect(fetched).to.deep.equal(["https://example.com/missing.png"]);
+    })
+
+    it("stops downloading images when the step is aborted", async () => {
+      const processor = new AnthropicProcessor({ customClient: FakeClient, fetch: fakeFetch as any });
+      const controller = new AbortController()
+
+      const processing = processor.process({ memory: memoryWith("https://example.com/slow.png"), signal: controller.signal }).catch((err) => err)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(fetched).to.deep.equal(["https://example.com/slow.png"]);
+      controller.abort()
+      const err = await processing
+
+      expect(err.message).to.include("the download of image https://example.com/slow.png was aborted");
+      expect(requests).to.be.empty;
+    })
+  })
+
 });
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { FallbackProcessor, FallbackProcessorOpts, resetProcessorCircuits } from '../../src/processors/FallbackProcessor.js';
+import { MockProcessor } from '../../src/processors/MockProcessor.js';
+import { WorkingMemory } from '../../src/WorkingMemory.js';
+import { ChatMessageRoleEnum } from '../../src/Memory.js';
+import { externalDialog } from '../shared/cognitiveSteps.js';
+
+const hello = { response: 'Samantha said: "Hello!"', chunks: ['Samantha said: "', 'Hello', '!"'], repeat: true }
+
+const failing = (status: number) => ({
+  response: () => { throw Object.assign(new Error(`request failed with ${status}`), { status }) },
+  repeat: true,
+})
+
+describe('FallbackProcessor', function() {
+  let primary: MockProcessor
+  let secondary: MockProcessor
+
+  const chain = (opts: Partial<FallbackProcessorOpts> = {}): FallbackProcessorOpts => ({
+    processors: [
+      { ...primary.specification, model: "gpt-4o", circuit: "primary" },
+      { ...secondary.specification, model: "claude-3-opus", circuit: "secondary" },
+    ],
+    ...opts,
+  })
+
+  const memoryWith = (opts: Partial<FallbackProcessorOpts> = {}) => new WorkingMemory({
+    soulName: "Samantha",
+    processor: { name: FallbackProcessor.label, options: chain(opts) },
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+    ],
+  })
+
+  beforeEach(function() {
+    resetProcessorCircuits()
+    primary = new MockProcessor({ responses: [failing(429)] })
+    secondary = new MockProcessor({ responses: [hello] })
+  })
+
+  it('fails over on rate limits and records which processor answered', async function() {
+    const [withDialog, said] = await externalDialog(memoryWith(), "Say hello")
+
+    expect(said).to.equal("Hello!")
+    expect(primary.calls.map(({ model }) => model)).to.deep.equal(["gpt-4o"])
+    expect(secondary.calls.map(({ model }) => model)).to.deep.equal(["claude-3-opus"])
+    expect(withDialog.usage.model).to.equal("claude-3-opus")
+    expect(withDialog.usage.processor).to.equal("mock")
+  })
+
+  it('throws errors that are not worth failing over for right away', async function() {
+    primary = new MockProcessor({ responses: [failing(400)] })
+
+    const err = await externalDialog(memoryWith(), "Say hello").catch((err) => err)
+
+    expect(err.status).to.equal(400)
+    expect(secondary.calls).to.have.length(0)
+  })
+
+  it('throws the last error when every processor failed', async function() {
+    secondary = new MockProcessor({ responses: [failing(503)] })
+
+    const err = await externalDialog(memoryWith(), "Say hello").catch((err) => err)
+
+    expect(err.status).to.equal(503)
+    expect(primary.calls).to.have.length(1)
+    expect(secondary.calls).to.have.length(1)
+  })
+
+  it('skips a processor with an open circuit until the cooldown is over', async function() {
+    const memory = memoryWith({ failureThreshold: 2, cooldown: 50 })
+
+    for (let i = 0; i < 3; i++) {
+      await externalDialog(memory, "Say hello")
+    }
+    // the circuit opened after two failures, so the third request went straight to the secondary processor.
+    expect(primary.calls).to.have.length(2)
+    expect(secondary.calls).to.have.length(3)
+
+    // after the cooldown a single request is let through again, and a failure opens the circuit right away.
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    await externalDialog(memory, "Say hello")
+    await externalDialog(memory, "Say hello")
+    expect(primary.calls).to.have.length(3)
+    expect(secondary.calls).to.have.length(5)
+  })
+
+  it('closes the circuit once the processor answers again', async function() {
+    primary = new MockProcessor({ responses: [{ ...failing(500), repeat: false }, hello] })
+    const memory = memoryWith({ failureThreshold: 1, cooldown: 10 })
+
+    await externalDialog(memory, "Say hello")
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    const [recovered] = await externalDialog(memory, "Say hello")
+    const [again] = await externalDialog(recovered, "Say hello")
+
+    expect(recovered.usage.model).to.equal("gpt-4o")
+    expect(again.usage.model).to.equal("gpt-4o")
+    expect(primary.calls).to.have.length(3)
+    expect(secondary.calls).to.have.length(1)
+  })
+});
@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { MockProcessor } from '../../src/processors/MockProcessor.js';
+import { WorkingMemory } from '../../src/WorkingMemory.js';
+import { ChatMessageRoleEnum } from '../../src/Memory.js';
+import { createCognitiveStep } from '../../src/cognitiveStep.js';
+import { externalDialog } from '../shared/cognitiveSteps.js';
+
+const decision = createCognitiveStep((question: string) => {
+  const params = z.object({
+    decision: z.enum(["yes", "no"])
+  })
+  return {
+    command: ({ soulName }: WorkingMemory) => ({
+      role: ChatMessageRoleEnum.System,
+      content: `${soulName} decides: ${question}`,
+    }),
+    schema: params,
+    postProcess: async (memory: WorkingMemory, response: z.output<typeof params>) => {
+      return [{ role: ChatMessageRoleEnum.Assistant, content: `${memory.soulName} decided ${response.decision}` }, response.decision]
+    }
+  }
+})
+
+const memoryWith = (mock: MockProcessor) => new WorkingMemory({
+  soulName: "Samantha",
+  processor: mock.specification,
+  memories: [
+    { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+    { role: ChatMessageRoleEnum.User, content: "Hi!" },
+  ],
+})
+
+describe('MockProcessor', function() {
+  it('replays a scripted response through a cognitive step', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Hello there!"' }],
+    })
+
+    const [memory, said] = await externalDialog(memoryWith(mock), "Say hello")
+    expect(said).to.equal("Hello there!")
+    expect(memory.at(memory.length - 1)?.content).to.equal('Samantha said: "Hello there!"')
+
+    expect(mock.calls).to.have.length(1)
+    const [call] = mock.calls
+    expect(call.memory.at(call.memory.length - 1)?.content).to.include("Say hello")
+    expect(mock.remaining).to.have.length(0)
+  })
+
+  it('streams the response chunk by chunk', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Streaming works."', chunks: ['Samantha said: "', 'Streaming ', 'works."'] }],
+    })
+
+    const [, stream, said] = await externalDialog(memoryWith(mock), "Say something", { stream: true })
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+    expect(chunks.join("")).to.equal("Streaming works.")
+    expect(await said).to.equal("Streaming works.")
+  })
+
+  it('matches responses by command, region and call index', async function() {
+    const mock = new MockProcessor({
+      responses: [
+        { callIndex: 1, response: 'Samantha said: "second call"' },
+        { region: "summary", response: 'Samantha said: "has a summary"' },
+        { command: /Say goodbye/, response: 'Samantha said: "Bye!"' },
+        { response: 'Samantha said: "fallback"', repeat: true },
+      ],
+    })
+
+    const memory = memoryWith(mock)
+    const [, goodbye] = await externalDialog(memory, "Say goodbye")
+    const [, second] = await externalDialog(memory, "Say anything")
+    const [, summary] = await externalDialog(memory.withRegion("summary", { role: ChatMessageRoleEnum.System, content: "they met" }), "Say anything")
+    const [, fallback] = await externalDialog(memory, "Say anything")
+
+    expect([goodbye, second, summary, fallback]).to.deep.equal(["Bye!", "second call", "has a summary", "fallback"])
+  })
+
+  it('drives the JSON repair retries of schema steps', async function() {
+    const mock = new MockProcessor({
+      responses: [
+        { response: "I am not sure." },
+        { response: { decision: "maybe" } },
+        { response: '```json\n{ "decision": "yes" }\n```' },
+      ],
+    })
+
+    const [memory, decided] = await decision(memoryWith(mock), "Should we go outside?")
+    expect(decided).to.equal("yes")
+    expect(memory.at(memory.length - 1)?.content).to.equal("Samantha decided yes")
+
+    expect(mock.calls).to.have.length(3)
+    const repairMemories = mock.calls[2].memory.slice(-2).memories
+    expect(repairMemories[0].content).to.equal('{"decision":"maybe"}')
+    expect(repairMemories[1].content).to.include("## JSON Errors")
+  })
+
+  it('gives up on invalid JSON after maxAttempts', async function() {
+    const mock = new MockProcessor({
+      maxAttempts: 2,
+      responses: [{ response: "nope", repeat: true }],
+    })
+
+    let error: any
+    try {
+      await decision(memoryWith(mock), "Should we go outside?")
+    } catch (err) {
+      error = err
+    }
+    expect(error?.message).to.equal("no json found in completion")
+    expect(mock.calls).to.have.length(2)
+  })
+
+  it('reports synthetic usage', async function() {
+    const mock = new MockProcessor({
+      responses: [
+        { response: 'Samantha said: "one"' },
+        { response: 'Samantha said: "two"', usage: { input: 100, output: 7 } },
+      ],
+    })
+
+    const [first] = await externalDialog(memoryWith(mock), "Say one", { model: "gpt-4-0125-preview" })
+    expect(first.usage.model).to.equal("gpt-4-0125-preview")
+    expect(first.usage.input).to.be.greaterThan(0)
+    expect(first.usage.output).to.equal(Math.ceil('Samantha said: "one"'.length / 4))
+
+    const [second] = await externalDialog(memoryWith(mock), "Say two")
+    expect(second.usage).to.deep.equal({ model: "mock", input: 100, output: 7 })
+  })
+
+  it('fails loudly when nothing was scripted for a call', async function() {
+    const mock = new MockProcessor()
+
+    let error: any
+    try {
+      await externalDialog(memoryWith(mock), "Say hello")
+    } catch (err) {
+      error = err
+    }
+    expect(error?.message).to.match(/no scripted response for call #0/)
+  })
+})
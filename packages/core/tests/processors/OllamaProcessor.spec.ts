@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { OllamaProcessor, OllamaProcessorOpts } from '../../src/processors/OllamaProcessor.js';
+import { WorkingMemory } from '../../src/WorkingMemory.js';
+import { ChatMessageRoleEnum } from '../../src/Memory.js';
+import { brainstorm, externalDialog } from '../shared/cognitiveSteps.js';
+
+describe('OllamaProcessor', function() {
+  let requests: any[] = []
+  let completions: string[][] = []
+
+  // streams the next scripted completion as ndjson, split across network chunks at odd places.
+  const fakeFetch = async (_url: any, init: any) => {
+    const body = JSON.parse(init.body)
+    requests.push(body)
+    const completion = completions.shift() ?? ["..."]
+    const lines = [
+      ...completion.map((content) => JSON.stringify({ model: body.model, message: { role: "assistant", content }, done: false })),
+      JSON.stringify({ model: body.model, message: { role: "assistant", content: "" }, done: true, prompt_eval_count: 42, eval_count: completion.length }),
+    ].join("\n") + "\n"
+    const encoded = new TextEncoder().encode(lines)
+    return new Response(new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < encoded.length; i += 7) {
+          controller.enqueue(encoded.slice(i, i + 7))
+        }
+        controller.close()
+      }
+    }), { status: 200, headers: { "content-type": "application/x-ndjson" } })
+  }
+
+  const processorWith = (opts: OllamaProcessorOpts = {}) => new OllamaProcessor({
+    fetch: fakeFetch as typeof fetch,
+    ...opts,
+  })
+
+  const memoryWith = (opts: OllamaProcessorOpts = {}) => new WorkingMemory({
+    soulName: 'Samantha',
+    processor: {
+      name: OllamaProcessor.label,
+      options: { fetch: fakeFetch, ...opts },
+    },
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+      { role: ChatMessageRoleEnum.User, content: "Hi!" },
+    ],
+  })
+
+  beforeEach(() => {
+    requests = []
+    completions = []
+  })
+
+  it('streams completions from /api/chat and reports the usage from the server', async function() {
+    completions.push(['Samantha said: "', 'Hello', ' there!"'])
+
+    const [, stream, said] = await externalDialog(memoryWith(), "Say hello", { stream: true })
+    let streamed = ""
+    for await (const chunk of stream) {
+      streamed += chunk
+    }
+
+    expect(streamed).to.equal("Hello there!")
+    expect(await said).to.equal("Hello there!")
+    expect(requests[0].stream).to.equal(true)
+    expect(requests[0].messages[0]).to.deep.equal({ role: "system", content: "You are Samantha." })
+
+    const response = await processorWith().process({ memory: memoryWith().withMonologue("hmm") })
+    await response.rawCompletion
+    expect(await response.usage).to.deep.equal({ model: "llama3", input: 42, output: 1 })
+  })
+
+  it('uses the JSON format mode (and repairs invalid JSON) for schema steps', async function() {
+    completions.push(['{"newIdeas": "fly"}'], ['{"newIdeas": ', '["fly", "swim"]}'])
+
+    const [, ideas] = await brainstorm(memoryWith(), "ways to travel")
+
+    expect(ideas).to.deep.equal(["fly", "swim"])
+    expect(requests).to.have.length(2)
+    expect(requests[0].format).to.equal("json")
+    expect(requests[1].messages.at(-1).content).to.include("## JSON Errors")
+  })
+
+  it('aborts a stream that stalls past the timeout', async function() {
+    // sends the first line, then nothing until the request is aborted.
+    const stallingFetch = async (_url: any, init: any) => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(JSON.stringify({ message: { role: "assistant", content: "Hel" }, done: false }) + "\n"))
+        init.signal.addEventListener("abort", () => controller.error(new Error("the stream was aborted")))
+      }
+    }), { status: 200, headers: { "content-type": "application/x-ndjson" } })
+
+    const response = await processorWith({ fetch: stallingFetch as typeof fetch }).process({ memory: memoryWith(), timeout: 50 })
+
+    let error: Error | undefined
+    try {
+      await response.rawCompletion
+    } catch (err: any) {
+      error = err
+    }
+    expect(error?.message).to.include("aborted")
+  })
+
+  it('maps the model aliases to local models', async function() {
+    const processor = processorWith({ defaultModel: "mistral", models: { fast: "llama3:8b", vision: "llava" } })
+
+    expect(processor.resolveModel()).to.equal("mistral")
+    expect(processor.resolveModel("fast")).to.equal("llama3:8b")
+    expect(processor.resolveModel("quality")).to.equal("mistral")
+    expect(processor.resolveModel("vision")).to.equal("llava")
+    expect(processor.resolveModel("ollama/phi3:mini")).to.equal("phi3:mini")
+
+    const [, said] = await externalDialog(memoryWith({ models: { fast: "llama3:8b" } }), "Say hello", { model: "fast", temperature: 0.2, maxTokens: 100 })
+    expect(said).to.be.a("string")
+    expect(requests[0].model).to.equal("llama3:8b")
+    expect(requests[0].options).to.deep.equal({ temperature: 0.2, num_predict: 100 })
+  })
+
+  it('sends images as base64', async function() {
+    const memory = new WorkingMemory({
+      soulName: 'Samantha',
+      memories: [{
+        role: ChatMessageRoleEnum.User,
+        content: [
+          { type: "text", text: "What is in this image?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,aGVsbG8=" } },
+        ],
+      }],
+    })
+
+    const response = await processorWith().process({ memory, model: "vision" })
+    await response.rawCompletion
+
+    expect(requests[0].messages[0]).to.deep.equal({ role: "user", content: "What is in this image?", images: ["aGVsbG8="] })
+  })
+});
@@ -5,6 +5,8 @@ import { ChatMessageRoleEnum } from '../../src/Memory.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from "zod-to-json-schema"
 import { indentNicely } from '../../src/utils.js';
+import { structuredOutputSchema } from '../../src/processors/Processor.js';
+import { partialJSONAttemptsStream } from '../../src/partialJson.js';
 
 describe('OpenAIProcessor', function() {
   it('should process input from WorkingMemory and return a valid response', async function() {
@@ -108,4 +110,292 @@ describe('OpenAIProcessor', function() {
     expect((await response.parsed).toLowerCase()).to.include("dog")
   })
 
+  describe("structured output", () => {
+    const params = z.object({
+      text: z.string()
+    })
+
+    let requests: any[] = []
+    let rejectJsonSchema = false
+    let rejectFirstRequest = false
+    let invalidFirstAnswer = false
+
+    // an OpenAI compatible endpoint that streams a single chunk (and can reject json_schema response formats).
+    const fakeFetch = async (_url: any, init: any) => {
+      const body = JSON.parse(init.body)
+      requests.push(body)
+      if (rejectFirstRequest && requests.length === 1) {
+        return new Response(JSON.stringify({ error: { message: "the messages are too long" } }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        })
+      }
+      if (rejectJsonSchema && body.response_format?.type === "json_schema") {
+        return new Response(JSON.stringify({ error: { message: "response_format json_schema is not supported" } }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        })
+      }
+      const chunk = {
+        id: "chatcmpl-test",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, delta: { content: invalidFirstAnswer && requests.length === 1 ? '{"txt": "hi"}' : '{"text": "hi"}' }, finish_reason: null }],
+      }
+      return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+        status: 200,
+        headers: { "content-type": "text/event-stream" },
+      })
+    }
+
+    const processorWith = (opts: Partial<ConstructorParameters<typeof OpenAIProcessor>[0]> = {}) => new OpenAIProcessor({
+      clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 },
+      ...opts,
+    })
+
+    const memory = () => new WorkingMemory({
+      soulName: 'testEntity',
+      memories: [
+        {
+          role: ChatMessageRoleEnum.System,
+          content: "You are a test."
+        },
+        {
+          role: ChatMessageRoleEnum.User,
+          content: "Please put the words 'hi' into the text field."
+        }
+      ]
+    })
+
+    beforeEach(() => {
+      requests = []
+      rejectJsonSchema = false
+      rejectFirstRequest = false
+      invalidFirstAnswer = false
+    })
+
+    it("sends the schema as a json_schema response format", async () => {
+      const response = await processorWith({ structuredOutput: { strict: true } }).process({ memory: memory(), schema: params })
+
+      expect(await response.parsed).to.deep.equal({ text: "hi" })
+      expect(requests).to.have.length(1)
+      const { response_format, messages } = requests[0]
+      expect(response_format.type).to.equal("json_schema")
+      expect(response_format.json_schema.strict).to.equal(true)
+      expect(response_format.json_schema.schema).to.include({ type: "object" })
+      expect(response_format.json_schema.schema).not.to.have.property("$schema")
+      expect(messages[0].content).not.to.include("You only speak JSON")
+    })
+
+    it("falls back to the prompt when the endpoint rejects json_schema", async () => {
+      rejectJsonSchema = true
+      const response = await processorWith({ structuredOutput: true }).process({ memory: memory(), schema: params })
+
+      expect(await response.parsed).to.deep.equal({ text: "hi" })
+      expect(requests).to.have.length(2)
+      expect(requests[1].response_format).to.deep.equal({ type: "json_object" })
+      expect(requests[1].messages[0].content).to.include("You only speak JSON")
+    })
+
+    it("keeps json_schema when the endpoint rejects a request for another reason", async () => {
+      rejectFirstRequest = true
+      const response = await processorWith({ structuredOutput: true }).process({ memory: memory(), schema: params })
+
+      expect(await response.parsed).to.deep.equal({ text: "hi" })
+      expect(requests).to.have.length(2)
+      expect(requests[1].response_format.type).to.equal("json_schema")
+    })
+
+    it("only streams the text of the attempt that parsed", async () => {
+      invalidFirstAnswer = true
+      const response = await processorWith().process({ memory: memory(), schema: params })
+
+      const partials: unknown[] = []
+      for await (const partial of partialJSONAttemptsStream(response.attempts!)) {
+        partials.push(partial)
+      }
+      let streamed = ""
+      for await (const text of response.stream) {
+        streamed += text
+      }
+
+      expect(requests).to.have.length(2)
+      expect(await response.parsed).to.deep.equal({ text: "hi" })
+      expect(streamed).to.equal('{"text": "hi"}')
+      expect(await response.rawCompletion).to.equal('{"text": "hi"}')
+      // the partial objects start over with the retry.
+      expect(partials).to.deep.equal([{ txt: "hi" }, { text: "hi" }])
+    })
+
+    it("uses the prompt unless it is enabled", async () => {
+      const response = await processorWith().process({ memory: memory(), schema: params })
+
+      expect(await response.parsed).to.deep.equal({ text: "hi" })
+      expect(requests[0].response_format).to.deep.equal({ type: "json_object" })
+    })
+  })
+
+  describe("stream usage", () => {
+    let requests: any[] = []
+    let rejectStreamOptions = false
+
+    // an OpenAI compatible endpoint that only reports usage when it is asked for.
+    const fakeFetch = async (_url: any, init: any) => {
+      const body = JSON.parse(init.body)
+      requests.push(body)
+      if (rejectStreamOptions && body.stream_options) {
+        return new Response(JSON.stringify({ error: { message: "Unrecognized request argument supplied: stream_options", param: "stream_options" } }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        })
+      }
+      const chunk = {
+        id: "chatcmpl-test",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, delta: { content: "hello there" }, finish_reason: null }],
+      }
+      const usageChunk = { ...chunk, choices: [], usage: { prompt_tokens: 123, completion_tokens: 45, total_tokens: 168 } }
+      const events = [chunk, ...(body.stream_options?.include_usage ? [usageChunk] : [])]
+      return new Response(events.map((evt) => `data: ${JSON.stringify(evt)}\n\n`).join("") + "data: [DONE]\n\n", {
+        status: 200,
+        headers: { "content-type": "text/event-stream" },
+      })
+    }
+
+    const memory = () => new WorkingMemory({
+      soulName: 'testEntity',
+      memories: [{ role: ChatMessageRoleEnum.User, content: "Say hello." }]
+    })
+
+    beforeEach(() => {
+      requests = []
+      rejectStreamOptions = false
+    })
+
+    it("reads the usage the endpoint reports", async () => {
+      const processor = new OpenAIProcessor({ clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 } })
+      const response = await processor.process({ memory: memory(), model: "gpt-4o" })
+
+      expect(await response.rawCompletion).to.equal("hello there")
+      expect(await response.usage).to.deep.equal({ model: "gpt-4o", input: 123, output: 45 })
+      expect(requests[0].stream_options).to.deep.equal({ include_usage: true })
+    })
+
+    it("estimates the usage when stream usage is disabled", async () => {
+      const processor = new OpenAIProcessor({ clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 }, disableStreamUsage: true })
+      const response = await processor.process({ memory: memory() })
+
+      const usage = await response.usage
+      expect(requests[0]).not.to.have.property("stream_options")
+      expect(usage.input).to.be.greaterThan(0).and.lessThan(123)
+      expect(usage.output).to.equal(2)
+    })
+
+    it("estimates the usage when the endpoint rejects stream_options", async () => {
+      rejectStreamOptions = true
+      const processor = new OpenAIProcessor({ clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 } })
+      const response = await processor.process({ memory: memory() })
+
+      expect(await response.rawCompletion).to.equal("hello there")
+      expect((await response.usage).output).to.equal(2)
+      expect(requests).to.have.length(2)
+      expect(requests[1]).not.to.have.property("stream_options")
+
+      await (await processor.process({ memory: memory() })).rawCompletion
+      expect(requests).to.have.length(3)
+      expect(requests[2]).not.to.have.property("stream_options")
+    })
+  })
+
+  describe("tools", () => {
+    let requests: any[] = []
+
+    // calls the lookUpWeather tool, streaming its arguments in pieces.
+    const fakeFetch = async (_url: any, init: any) => {
+      const body = JSON.parse(init.body)
+      requests.push(body)
+      const chunk = (delta: Record<string, any>) => ({
+        id: "chatcmpl-test",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, delta, finish_reason: null }],
+      })
+      const events = [
+        chunk({ content: "Let me check." }),
+        chunk({ tool_calls: [{ index: 0, id: "call_abc", type: "function", function: { name: "lookUpWeather", arguments: "" } }] }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '{"ci' } }] }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: 'ty": "Paris"}' } }] }),
+      ]
+      return new Response(events.map((evt) => `data: ${JSON.stringify(evt)}\n\n`).join("") + "data: [DONE]\n\n", {
+        status: 200,
+        headers: { "content-type": "text/event-stream" },
+      })
+    }
+
+    const tools = {
+      lookUpWeather: {
+        description: "Looks up the current weather in a city.",
+        params: z.object({ city: z.string() }),
+      },
+    }
+
+    beforeEach(() => {
+      requests = []
+    })
+
+    it("sends the tools and reads the streamed tool calls", async () => {
+      const processor = new OpenAIProcessor({ clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 } })
+      const memory = new WorkingMemory({
+        soulName: 'testEntity',
+        memories: [{ role: ChatMessageRoleEnum.User, content: "What's the weather like in Paris?" }]
+      })
+
+      const response = await processor.process({ memory, tools, toolChoice: "lookUpWeather" })
+
+      expect(await response.rawCompletion).to.equal("Let me check.")
+      expect(await response.toolCalls).to.deep.equal([{ id: "call_abc", name: "lookUpWeather", arguments: '{"city": "Paris"}' }])
+      const [{ tools: sentTools, tool_choice }] = requests
+      expect(sentTools).to.deep.equal([{
+        type: "function",
+        function: {
+          name: "lookUpWeather",
+          description: "Looks up the current weather in a city.",
+          parameters: structuredOutputSchema(tools.lookUpWeather.params),
+        },
+      }])
+      expect(tool_choice).to.deep.equal({ type: "function", function: { name: "lookUpWeather" } })
+    })
+
+    it("sends tool calls and their results back as tool messages", async () => {
+      const processor = new OpenAIProcessor({ clientOptions: { apiKey: "test", fetch: fakeFetch as any, maxRetries: 0 } })
+      const memory = new WorkingMemory({
+        soulName: 'testEntity',
+        memories: [
+          { role: ChatMessageRoleEnum.User, content: "What's the weather like in Paris?" },
+          {
+            role: ChatMessageRoleEnum.Assistant,
+            content: "",
+            metadata: { toolCalls: [{ id: "call_1", name: "lookUpWeather", params: { city: "Paris" } }, { id: "call_2", name: "wave", params: {} }] },
+          },
+          { role: ChatMessageRoleEnum.Function, name: "lookUpWeather", content: '{"weather":"sunny"}', metadata: { toolCallId: "call_1" } },
+        ]
+      })
+
+      const response = await processor.process({ memory })
+      await response.rawCompletion
+
+      const [, call, result] = requests[0].messages
+      // the call without a result is left out, providers reject calls that are not answered.
+      expect(call.tool_calls).to.deep.equal([
+        { id: "call_1", type: "function", function: { name: "lookUpWeather", arguments: '{"city":"Paris"}' } },
+      ])
+      expect(result).to.deep.equal({ role: "tool", tool_call_id: "call_1", content: '{"weather":"sunny"}' })
+      expect(response).not.to.have.property("toolCalls")
+    })
+  })
+
 });
@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import { z } from 'zod';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MockProcessor } from '../../src/processors/MockProcessor.js';
+import { Cassette, CassetteMissError, RecordingProcessor, RecordingProcessorOpts } from '../../src/processors/RecordingProcessor.js';
+import { WorkingMemory } from '../../src/WorkingMemory.js';
+import { ChatMessageRoleEnum } from '../../src/Memory.js';
+import { createCognitiveStep } from '../../src/cognitiveStep.js';
+import { externalDialog } from '../shared/cognitiveSteps.js';
+
+const decision = createCognitiveStep((question: string) => {
+  const params = z.object({
+    decision: z.enum(["yes", "no"])
+  })
+  return {
+    command: ({ soulName }: WorkingMemory) => ({
+      role: ChatMessageRoleEnum.System,
+      content: `${soulName} decides: ${question}`,
+    }),
+    schema: params,
+    postProcess: async (memory: WorkingMemory, response: z.output<typeof params>) => {
+      return [{ role: ChatMessageRoleEnum.Assistant, content: `${memory.soulName} decided ${response.decision}` }, response.decision]
+    }
+  }
+})
+
+const memoryWith = (opts: RecordingProcessorOpts) => new WorkingMemory({
+  soulName: "Samantha",
+  processor: new RecordingProcessor(opts).specification,
+  memories: [
+    { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+    { role: ChatMessageRoleEnum.User, content: "Hi!" },
+  ],
+})
+
+const readCassettes = async (dir: string): Promise<Cassette[]> => {
+  const files = await readdir(dir)
+  return Promise.all(files.map(async (file) => JSON.parse(await readFile(join(dir, file), "utf-8"))))
+}
+
+describe('RecordingProcessor', function() {
+  let cassetteDir: string
+
+  beforeEach(async function() {
+    cassetteDir = await mkdtemp(join(tmpdir(), "cassettes-"))
+  })
+
+  afterEach(async function() {
+    await rm(cassetteDir, { recursive: true, force: true })
+  })
+
+  it('records a call and replays it without the wrapped processor', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Hello there!"' }],
+    })
+
+    const [, recorded] = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }), "Say hello")
+    expect(recorded).to.equal("Hello there!")
+    expect(mock.calls).to.have.length(1)
+
+    const cassettes = await readCassettes(cassetteDir)
+    expect(cassettes).to.have.length(1)
+    expect(cassettes[0].response.rawCompletion).to.equal('Samantha said: "Hello there!"')
+
+    // the mock has no responses left, so this only works from the cassette.
+    const [memory, replayed] = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir }), "Say hello")
+    expect(replayed).to.equal("Hello there!")
+    expect(memory.at(memory.length - 1)?.content).to.equal('Samantha said: "Hello there!"')
+    expect(mock.calls).to.have.length(1)
+  })
+
+  it('replays the streamed chunks with their timing', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Slow and steady."', chunks: ['Samantha said: "', 'Slow ', 'and steady."'], chunkDelay: 40 }],
+    })
+
+    const [, recordStream, recorded] = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }), "Say something", { stream: true })
+    for await (const _chunk of recordStream) {
+      // drain
+    }
+    expect(await recorded).to.equal("Slow and steady.")
+
+    const [cassette] = await readCassettes(cassetteDir)
+    expect(cassette.response.chunks.map(({ text }) => text)).to.deep.equal(['Samantha said: "', 'Slow ', 'and steady."'])
+    cassette.response.chunks.forEach(({ delay }) => expect(delay).to.be.greaterThanOrEqual(30))
+
+    const start = Date.now()
+    const [, stream, replayed] = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir }), "Say something", { stream: true })
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+    expect(chunks.join("")).to.equal("Slow and steady.")
+    expect(await replayed).to.equal("Slow and steady.")
+    expect(Date.now() - start).to.be.greaterThanOrEqual(90)
+  })
+
+  it('replays parsed schema responses', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: { decision: "yes" } }],
+    })
+
+    const [, recorded] = await decision(memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }), "Is the sky blue?")
+    const [memory, replayed] = await decision(memoryWith({ processor: mock.specification, cassetteDir, mode: "replay" }), "Is the sky blue?")
+    expect(recorded).to.equal("yes")
+    expect(replayed).to.equal("yes")
+    expect(memory.at(memory.length - 1)?.content).to.equal("Samantha decided yes")
+  })
+
+  it('applies the transforms of the schema to replayed responses', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: { at: "2024-05-01T12:00:00.000Z" } }],
+    })
+    const transformation = {
+      command: "When is the meeting?",
+      // transformation schemas have the same input and output type, which a transform into a Date does not.
+      schema: z.object({ at: z.string().transform((at) => new Date(at)) }) as unknown as z.ZodType<{ at: Date }>,
+    }
+
+    await memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }).transform(transformation)
+    const [, replayed] = await memoryWith({ processor: mock.specification, cassetteDir, mode: "replay" }).transform(transformation)
+    const { at } = replayed as { at: Date }
+    expect(at).to.be.instanceOf(Date)
+    expect(at.toISOString()).to.equal("2024-05-01T12:00:00.000Z")
+    expect(mock.calls).to.have.length(1)
+  })
+
+  it('replays tool calls', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: "", toolCalls: [{ name: "wave", params: { times: 2 }, id: "call_1" }] }],
+    })
+    const transformation = {
+      command: "Greet the user.",
+      tools: { wave: { description: "Waves at the user.", params: z.object({ times: z.number() }) } },
+    }
+
+    await memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }).transform(transformation)
+    const [memory, replayed] = await memoryWith({ processor: mock.specification, cassetteDir, mode: "replay" }).transform(transformation)
+    expect(replayed).to.deep.equal({ content: "", toolCalls: [{ id: "call_1", name: "wave", params: { times: 2 } }] })
+    expect(memory.at(memory.length - 1)?.metadata).to.deep.equal({ toolCalls: [{ id: "call_1", name: "wave", params: { times: 2 } }] })
+    expect(mock.calls).to.have.length(1)
+  })
+
+  it('fails loudly on a cassette miss in replay mode', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Hello there!"', repeat: true }],
+    })
+    await externalDialog(memoryWith({ processor: mock.specification, cassetteDir, mode: "record" }), "Say hello")
+
+    const err = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir }), "Say goodbye").catch((err) => err)
+    expect(err).to.be.instanceOf(CassetteMissError)
+    expect(err.message).to.include("Say goodbye")
+
+    const otherModel = await externalDialog(memoryWith({ processor: mock.specification, cassetteDir }), "Say hello", { model: "gpt-4o" }).catch((err) => err)
+    expect(otherModel).to.be.instanceOf(CassetteMissError)
+    expect(mock.calls).to.have.length(1)
+  })
+
+  it('only records misses in auto mode', async function() {
+    const mock = new MockProcessor({
+      responses: [{ response: 'Samantha said: "Hello there!"', repeat: true }],
+    })
+    const opts: RecordingProcessorOpts = { processor: mock.specification, cassetteDir, mode: "auto" }
+
+    await externalDialog(memoryWith(opts), "Say hello")
+    await externalDialog(memoryWith(opts), "Say hello")
+    await externalDialog(memoryWith(opts), "Say hi")
+
+    expect(mock.calls).to.have.length(2)
+    expect(await readCassettes(cassetteDir)).to.have.length(2)
+  })
+})
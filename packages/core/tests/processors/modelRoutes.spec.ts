@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { MockProcessor } from '../../src/processors/MockProcessor.js';
+import { ModelRoutes, registerModelRoutes } from '../../src/processors/modelRoutes.js';
+import { WorkingMemory } from '../../src/WorkingMemory.js';
+import { ChatMessageRoleEnum } from '../../src/Memory.js';
+import { externalDialog } from '../shared/cognitiveSteps.js';
+
+const hello = { response: 'Samantha said: "Hello!"', chunks: ['Samantha said: "', 'Hello', '!"'], repeat: true }
+
+describe('model routes', function() {
+  let unrouted: MockProcessor
+  let fast: MockProcessor
+  let quality: MockProcessor
+
+  const memoryWith = (modelRoutes?: ModelRoutes) => new WorkingMemory({
+    soulName: "Samantha",
+    processor: unrouted.specification,
+    modelRoutes,
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+    ],
+  })
+
+  beforeEach(function() {
+    unrouted = new MockProcessor({ responses: [hello] })
+    fast = new MockProcessor({ responses: [hello] })
+    quality = new MockProcessor({ responses: [hello] })
+  })
+
+  it('sends an alias to the processor and model it is routed to', async function() {
+    const memory = memoryWith({
+      fast: { processor: fast.specification, model: "gpt-3.5-turbo-0125", temperature: 0.2, maxTokens: 50 },
+      quality: { processor: quality.specification, model: "gpt-4o", temperature: 0.9 },
+    })
+
+    const [withFast] = await externalDialog(memory, "Say hello", { model: "fast" })
+    // routes are kept through clones, and a step's own options win over the route defaults.
+    await externalDialog(withFast, "Say hello", { model: "quality", temperature: 0.1 })
+
+    expect(unrouted.calls).to.have.length(0)
+    expect(fast.calls.map(({ model, temperature, maxTokens }) => ({ model, temperature, maxTokens }))).to.deep.equal([
+      { model: "gpt-3.5-turbo-0125", temperature: 0.2, maxTokens: 50 },
+    ])
+    expect(quality.calls.map(({ model, temperature }) => ({ model, temperature }))).to.deep.equal([
+      { model: "gpt-4o", temperature: 0.1 },
+    ])
+  })
+
+  it('falls back to the next route when a request fails', async function() {
+    const failing = new MockProcessor()
+    const memory = memoryWith({
+      quality: { processor: failing.specification, model: "gpt-4o", fallbacks: ["fast"] },
+      fast: { processor: fast.specification, model: "gpt-3.5-turbo-0125", fallbacks: ["quality"] },
+    })
+
+    const [, said] = await externalDialog(memory, "Say hello", { model: "quality" })
+
+    expect(said).to.equal("Hello!")
+    expect(failing.calls).to.have.length(1)
+    expect(fast.calls.map(({ model }) => model)).to.deep.equal(["gpt-3.5-turbo-0125"])
+  })
+
+  it('throws the last error when every route failed', async function() {
+    const memory = memoryWith({
+      quality: { processor: new MockProcessor().specification, fallbacks: [{ processor: "not-registered" }] },
+    })
+
+    const err = await externalDialog(memory, "Say hello", { model: "quality" }).catch((err) => err)
+    expect(err.message).to.include("not-registered")
+  })
+
+  it('leaves models that are not aliases, and steps with their own processor, alone', async function() {
+    const memory = memoryWith({
+      quality: { processor: quality.specification, model: "gpt-4o" },
+    })
+
+    await externalDialog(memory, "Say hello", { model: "gpt-4-turbo" })
+    await externalDialog(memory, "Say hello", { model: "quality", processor: fast.specification })
+
+    expect(unrouted.calls.map(({ model }) => model)).to.deep.equal(["gpt-4-turbo"])
+    expect(fast.calls.map(({ model }) => model)).to.deep.equal(["quality"])
+    expect(quality.calls).to.have.length(0)
+  })
+
+  it('uses registered routes unless the WorkingMemory has its own', async function() {
+    registerModelRoutes({ vision: { processor: fast.specification, model: "gpt-4o" } })
+
+    await externalDialog(memoryWith(), "Say hello", { model: "vision" })
+    await externalDialog(memoryWith({ vision: { processor: quality.specification } }), "Say hello", { model: "vision" })
+
+    expect(fast.calls.map(({ model }) => model)).to.deep.equal(["gpt-4o"])
+    expect(quality.calls.map(({ model }) => model)).to.deep.equal([undefined])
+  })
+})
@@ -0,0 +1,81 @@
+import { expect } from "chai"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { ChatMessageRoleEnum } from "../src/Memory.js"
+import { WORKING_MEMORY_FORMAT_VERSION } from "../src/serialization.js"
+import { externalDialog } from "./shared/cognitiveSteps.js"
+
+describe("serialization", () => {
+  const memory = () => new WorkingMemory({
+    soulName: "Samantha",
+    processor: { name: "openai", options: { defaultCompletionParams: { model: "gpt-4o" } } },
+    regionOrder: ["core", "summary"],
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha.", region: "core" },
+      {
+        role: ChatMessageRoleEnum.User,
+        name: "Jo",
+        content: [
+          { type: "text", text: "What is in this image?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,aGVsbG8=", detail: "low" } },
+        ],
+        metadata: { channel: "discord" },
+      },
+    ],
+  })
+
+  it("round trips through JSON", () => {
+    const original = memory()
+    const restored = WorkingMemory.fromJSON(JSON.stringify(original))
+
+    expect(restored.soulName).to.equal("Samantha")
+    expect(restored.memories).to.deep.equal(original.memories)
+    expect(restored.processor).to.deep.equal(original.processor)
+    expect(restored.toJSON()).to.deep.equal(original.toJSON())
+    expect(restored.toJSON().version).to.equal(WORKING_MEMORY_FORMAT_VERSION)
+
+    // the region order still applies to the restored memory.
+    const withSummary = restored.withRegion("summary", { role: ChatMessageRoleEnum.System, content: "a summary" })
+    expect(withSummary.memories.map((m) => m.region)).to.deep.equal(["core", "summary", undefined])
+  })
+
+  it("keeps the usage", async () => {
+    const mock = new MockProcessor({ responses: [{ response: 'Samantha said: "Hi!"', chunks: ['Samantha said: "', "Hi", '!"'], usage: { input: 10, output: 2 } }] })
+    const [withDialog] = await externalDialog(memory(), "Say hi", { processor: mock.specification, model: "gpt-4o" })
+
+    const restored = WorkingMemory.fromJSON(withDialog.toJSON())
+
+    expect(restored.usage).to.deep.equal(withDialog.usage)
+    expect(restored.totalUsage).to.deep.equal(withDialog.totalUsage)
+  })
+
+  it("leaves out processor options that are not JSON, and takes options when loading", () => {
+    const mock = new MockProcessor()
+    const original = new WorkingMemory({ soulName: "Samantha", processor: mock.specification })
+
+    expect(original.toJSON().processor).to.deep.equal({ name: "mock" })
+    expect(WorkingMemory.fromJSON(original.toJSON(), { processor: mock.specification }).processor.options?.mock).to.equal(mock)
+  })
+
+  it("migrates memories stored before there was a format", () => {
+    const stored = [
+      { role: "system", content: "You are Samantha.", region: "core" },
+      { role: "user", content: "hi", _id: "abc", _timestamp: 1 },
+    ]
+
+    const restored = WorkingMemory.fromJSON(stored, { soulName: "Samantha" })
+
+    expect(restored.soulName).to.equal("Samantha")
+    expect(restored.memories.map((m) => m.content)).to.deep.equal(["You are Samantha.", "hi"])
+    expect(restored.at(0)._id).to.be.a("string")
+    expect(restored.at(1)).to.include({ _id: "abc", _timestamp: 1 })
+    expect(() => WorkingMemory.fromJSON(stored)).to.throw(/soulName/)
+  })
+
+  it("rejects invalid and newer serializations", () => {
+    const valid = memory().toJSON()
+
+    expect(() => WorkingMemory.fromJSON({ ...valid, memories: [{ role: "robot", content: "beep" }] })).to.throw(/invalid working memory/)
+    expect(() => WorkingMemory.fromJSON({ ...valid, version: WORKING_MEMORY_FORMAT_VERSION + 1 })).to.throw(/unsupported working memory version/)
+  })
+})
@@ -0,0 +1,144 @@
+import { expect } from "chai"
+import { z } from "zod"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { ChatMessageRoleEnum } from "../src/Memory.js"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { createCognitiveStep } from "../src/cognitiveStep.js"
+import { defineTool, ToolCallParseError, ToolResponse } from "../src/tools.js"
+
+describe("tools", () => {
+  const looked: string[] = []
+
+  const tools = {
+    lookUpWeather: defineTool({
+      description: "Looks up the current weather in a city.",
+      params: z.object({ city: z.string() }),
+      execute: async ({ city }) => {
+        looked.push(city)
+        if (city === "Atlantis") {
+          throw new Error("no weather under water")
+        }
+        return { city, weather: "sunny" }
+      },
+    }),
+    wave: defineTool({
+      description: "Waves at the user.",
+      params: z.object({ enthusiastically: z.boolean() }),
+    }),
+  }
+
+  const chooseTool = createCognitiveStep((instructions: string) => ({
+    command: instructions,
+    tools,
+    postProcess: (_memory: WorkingMemory, response: ToolResponse<typeof tools>) => [
+      { role: ChatMessageRoleEnum.Assistant, content: response.content },
+      response,
+    ],
+  }))
+
+  const memoryWith = (mock: MockProcessor) => new WorkingMemory({
+    soulName: "Samantha",
+    processor: mock.specification,
+    memories: [{ role: ChatMessageRoleEnum.User, content: "What's the weather like in Paris?" }],
+  })
+
+  beforeEach(() => {
+    looked.length = 0
+  })
+
+  it("returns the tools the model called, and adds the calls and their results to the memory", async () => {
+    const mock = new MockProcessor({
+      responses: [{ response: "Let me check.", toolCalls: [{ name: "lookUpWeather", params: { city: "Paris" }, id: "call_1" }] }],
+    })
+
+    const [memory, { content, toolCalls }] = await chooseTool(memoryWith(mock), "Help the user.")
+
+    expect(content).to.equal("Let me check.")
+    expect(toolCalls).to.deep.equal([
+      { id: "call_1", name: "lookUpWeather", params: { city: "Paris" }, result: { city: "Paris", weather: "sunny" } },
+    ])
+    expect(looked).to.deep.equal(["Paris"])
+    expect(mock.calls[0].tools).to.equal(tools)
+
+    const [, call, result] = memory.memories
+    expect(call).to.deep.include({ role: ChatMessageRoleEnum.Assistant, content: "Let me check." })
+    expect(call.metadata).to.deep.equal({ toolCalls: [{ id: "call_1", name: "lookUpWeather", params: { city: "Paris" } }] })
+    expect(result).to.deep.include({
+      role: ChatMessageRoleEnum.Function,
+      name: "lookUpWeather",
+      content: JSON.stringify({ city: "Paris", weather: "sunny" }),
+      metadata: { toolCallId: "call_1" },
+    })
+  })
+
+  it("only returns the calls of tools without execute", async () => {
+    const mock = new MockProcessor({
+      responses: [{ response: "", toolCalls: [{ name: "wave", params: { enthusiastically: true } }] }],
+    })
+
+    const [memory, { toolCalls }] = await chooseTool(memoryWith(mock), "Greet the user.", { stream: false })
+
+    expect(toolCalls).to.deep.equal([{ id: "call_0_0", name: "wave", params: { enthusiastically: true } }])
+    expect(memory.memories.map((m) => m.role)).to.deep.equal([ChatMessageRoleEnum.User, ChatMessageRoleEnum.Assistant])
+  })
+
+  it("gives tools that throw their error as a result", async () => {
+    const mock = new MockProcessor({
+      responses: [{ response: "", toolCalls: [{ name: "lookUpWeather", params: { city: "Atlantis" } }] }],
+    })
+
+    const [memory, { toolCalls }] = await chooseTool(memoryWith(mock), "Help the user.")
+
+    expect(toolCalls[0].result).to.deep.equal({ error: "no weather under water" })
+    expect(memory.at(memory.length - 1).content).to.equal(JSON.stringify({ error: "no weather under water" }))
+  })
+
+  it("rejects calls that do not match the params of the tool", async () => {
+    const mock = new MockProcessor({
+      responses: [{ response: "", toolCalls: [{ name: "lookUpWeather", params: { town: "Paris" } }] }],
+    })
+
+    let error: unknown
+    try {
+      await chooseTool(memoryWith(mock), "Help the user.")
+    } catch (err) {
+      error = err
+    }
+
+    expect(error).to.be.instanceOf(ToolCallParseError)
+    expect(looked).to.be.empty
+  })
+
+  it("streams the text and resolves the tool calls", async () => {
+    const mock = new MockProcessor({
+      responses: [{ response: "Checking the weather.", toolCalls: [{ name: "lookUpWeather", params: { city: "Oslo" } }] }],
+    })
+
+    const [memory, stream, response] = await chooseTool(memoryWith(mock), "Help the user.", { stream: true })
+    let streamed = ""
+    for await (const text of stream) {
+      streamed += text
+    }
+
+    expect(streamed).to.equal("Checking the weather.")
+    expect((await response).toolCalls.map(({ name, result }) => ({ name, result }))).to.deep.equal([
+      { name: "lookUpWeather", result: { city: "Oslo", weather: "sunny" } },
+    ])
+    await memory.finished
+    expect(memory.memories).to.have.length(3)
+  })
+
+  it("cannot be combined with a schema", async () => {
+    const mock = new MockProcessor({ responses: [{ response: "{}" }] })
+
+    let error: Error | undefined
+    try {
+      await memoryWith(mock).transform({ command: "Help the user.", tools, schema: z.object({}) })
+    } catch (err: any) {
+      error = err
+    }
+
+    expect(error?.message).to.include("schema and tools")
+    expect(mock.calls).to.be.empty
+  })
+})
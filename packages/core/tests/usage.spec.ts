@@ -0,0 +1,77 @@
+import { expect } from "chai"
+import { MockProcessor } from "../src/processors/MockProcessor.js"
+import { WorkingMemory } from "../src/WorkingMemory.js"
+import { ChatMessageRoleEnum } from "../src/Memory.js"
+import { registerModelPrices } from "../src/usage.js"
+import { externalDialog } from "./shared/cognitiveSteps.js"
+
+const hello = (input: number, output: number) => ({
+  response: 'Samantha said: "Hello!"',
+  chunks: ['Samantha said: "', "Hello", '!"'],
+  usage: { input, output },
+})
+
+describe("usage", () => {
+  const memoryWith = (mock: MockProcessor, opts: Partial<ConstructorParameters<typeof WorkingMemory>[0]> = {}) => new WorkingMemory({
+    soulName: "Samantha",
+    processor: mock.specification,
+    memories: [
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+    ],
+    ...opts,
+  })
+
+  it("accumulates usage across the clone chain", async () => {
+    const mock = new MockProcessor({ responses: [hello(100, 10), hello(200, 20)] })
+    const memory = memoryWith(mock)
+
+    const [first] = await externalDialog(memory, "Say hello", { model: "gpt-4o" })
+    const [second] = await externalDialog(first.withMonologue("Samantha thought: nice"), "Say hello", { model: "gpt-3.5-turbo-0125" })
+
+    expect(second.usage).to.deep.include({ model: "gpt-3.5-turbo-0125", input: 200, output: 20 })
+    expect(second.totalUsage).to.deep.include({ input: 300, output: 30, transformations: 2 })
+    expect(second.totalUsage.byModel["gpt-4o"]).to.deep.include({ input: 100, output: 10 })
+    expect(second.totalUsage.cost).to.be.closeTo((100 * 5 + 10 * 15 + 200 * 0.5 + 20 * 1.5) / 1_000_000, 1e-12)
+    expect(memory.totalUsage.transformations).to.equal(0)
+  })
+
+  it("counts a streaming transformation in clones made before it finished", async () => {
+    const mock = new MockProcessor({ responses: [{ ...hello(100, 10), chunkDelay: 5 }] })
+
+    const [pending, stream] = await externalDialog(memoryWith(mock), "Say hello", { stream: true, model: "gpt-4o" })
+    const cloned = pending.withMonologue("Samantha thought: I said hello")
+    for await (const _chunk of stream) {
+      // drain the stream
+    }
+    await pending.finished
+
+    expect(cloned.totalUsage).to.deep.include({ input: 100, output: 10, transformations: 1 })
+  })
+
+  it("prices models from the working memory, registered prices and the defaults", async () => {
+    registerModelPrices({ "ollama/llama3:8b": { input: 0, output: 0 } })
+    const mock = new MockProcessor({ responses: [hello(1_000_000, 1_000_000), hello(1_000_000, 0), hello(1_000_000, 0)] })
+    const memory = memoryWith(mock, { modelPrices: { "my/finetune": { input: 2, output: 4 } } })
+
+    const [tuned] = await externalDialog(memory, "Say hello", { model: "my/finetune" })
+    const [local] = await externalDialog(tuned, "Say hello", { model: "ollama/llama3:8b" })
+    const [unpriced] = await externalDialog(local, "Say hello", { model: "some/unknown-model" })
+
+    expect(unpriced.totalUsage.cost).to.equal(6)
+    expect(unpriced.totalUsage.byModel["ollama/llama3:8b"].cost).to.equal(0)
+    expect(unpriced.totalUsage.byModel["some/unknown-model"]).not.to.have.property("cost")
+  })
+
+  it("reports the usage since an earlier working memory", async () => {
+    const mock = new MockProcessor({ responses: [hello(100, 10), hello(200, 20)] })
+    const [perceptionStart] = await externalDialog(memoryWith(mock), "Say hello", { model: "gpt-4o" })
+    const [perceptionEnd] = await externalDialog(perceptionStart, "Say hello", { model: "gpt-4o" })
+
+    const since = perceptionEnd.usageSince(perceptionStart)
+    expect(since).to.deep.include({ input: 200, output: 20, transformations: 1 })
+    expect(since.cost).to.be.closeTo((200 * 5 + 20 * 15) / 1_000_000, 1e-12)
+
+    const restored = new WorkingMemory({ soulName: "Samantha", totalUsage: perceptionEnd.totalUsage })
+    expect(restored.totalUsage).to.deep.equal(perceptionEnd.totalUsage)
+  })
+})
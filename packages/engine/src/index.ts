@@ -1,10 +1,19 @@
 /* eslint-disable arrow-body-style */
-import { InternalPerception, WorkingMemory } from '@opensouls/core';
+import { InternalPerception, ToolDefinition, WorkingMemory } from '@opensouls/core';
 import { DeveloperInteractionRequest, Json, Perception } from '@opensouls/core';
 import { MentalProcess } from './mentalProcess.js'
 
 export * from "./mentalProcess.js"
 export * from "./load.js"
+export * from "./soulHooksRuntime.js"
+export * from "./processRunner.js"
+export * from "./memoryIntegrator.js"
+export * from "./scheduler.js"
+export * from "./vectorStore.js"
+export * from "./ragChunker.js"
+export * from "./ragIngestion.js"
+export * from "./ragContext.js"
+export * from "./toolCaller.js"
 export * from "@opensouls/core"
 export * from "@opensouls/soul"
 
@@ -165,7 +174,26 @@ export interface RagIngestionBody {
 }
 
 export interface WithRagContextOpts {
-  // currently no opts
+  /**
+   * how many retrieval queries to generate from the most recent memories (default 3).
+   */
+  queryCount?: number
+  /**
+   * the maximum number of hits injected into the "rag" region (default 5).
+   */
+  limit?: number
+  /**
+   * hits further away than this (cosine distance) are left out.
+   */
+  maxDistance?: number
+  /**
+   * search this bucket instead of the one passed to useRag.
+   */
+  bucketName?: string
+  /**
+   * replaces the default query generation (the content of the most recent memories).
+   */
+  queries?: (workingMemory: WorkingMemory) => string[] | Promise<string[]>
 }
 
 export interface SoulStoreGetOpts {
@@ -261,7 +289,19 @@ export interface SoulHooks {
     search: (opts: RagSearchOpts) => Promise<VectorRecordWithDistance[]>
     withRagContext: <T = any>(step: T, opts?: WithRagContextOpts) => Promise<T>
   }
-  useTool<ParamType = Json | void, ResponseType = Json>(name: string): (params?: ParamType) => Promise<ResponseType>
+  useTool<ParamType = Json | void, ResponseType = Json>(name: string, opts?: UseToolOpts): (params?: ParamType) => Promise<ResponseType>
+}
+
+export interface UseToolOpts {
+  /**
+   * milliseconds to wait for the client to respond before the call fails with a ToolCallError.
+   */
+  timeout?: number
+  /**
+   * fails the call with a Cancelled ToolCallError when it aborts. Defaults to the signal of the MentalProcess
+   * that called the tool, so an interrupted process does not wait for its tools.
+   */
+  signal?: AbortSignal
 }
 
 export const defaultRagBucketName = (blueprint: string) => {
@@ -332,8 +372,27 @@ export const useRag = (bucketName?: string) => {
   return hooks.useRag(bucketName)
 }
 
-export const useTool = <ParamType = Json, ResponseType = Json>(toolName: string) => {
+export const useTool = <ParamType = Json, ResponseType = Json>(toolName: string, opts?: UseToolOpts) => {
   const hooks = getHooks()
   if (!hooks) throw new Error("useTool called when no hooks are available. Are you executing this code on the SOUL ENGINE?")
-  return hooks.useTool<ParamType, ResponseType>(toolName)
+  return hooks.useTool<ParamType, ResponseType>(toolName, opts)
+}
+
+/**
+ * Lets the model choose among tools that the client implements: turns them into the tools of a cognitive step,
+ * calling the client (like useTool) when the model calls one of them.
+ *
+ * @example
+ * ```ts
+ * const tools = useTools({
+ *   lookUpWeather: { description: "Looks up the current weather in a city.", params: z.object({ city: z.string() }) },
+ * })
+ * const [withWeather] = await workingMemory.transform({ command: "Find out what the weather is like.", tools })
+ * ```
+ */
+export const useTools = <Tools extends Record<string, Omit<ToolDefinition, "execute">>>(tools: Tools, opts?: UseToolOpts) => {
+  return Object.fromEntries(Object.entries(tools).map(([name, tool]) => {
+    const callTool = useTool(name, opts)
+    return [name, { ...tool, execute: (params: Json) => callTool(params) }]
+  })) as { [Name in keyof Tools]: Tools[Name] & Required<Pick<ToolDefinition, "execute">> }
 }
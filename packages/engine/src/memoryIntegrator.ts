@@ -0,0 +1,117 @@
+import { ChatMessageRoleEnum, InputMemory, Perception } from "@opensouls/core"
+import type { MentalProcess } from "./mentalProcess.js"
+import type { MemoryIntegrator, MemoryIntegratorParameters, Soul } from "./index.js"
+
+export const CORE_REGION = "core"
+
+/**
+ * Turns a perception into the memory that is added to the WorkingMemory. Returning a string uses it as the content
+ * of the default memory (a user memory with the perception's name), returning undefined leaves the perception out.
+ */
+export type PerceptionFormatter = (perception: Perception, soul: Soul) => InputMemory | string | undefined
+
+export interface MemoryIntegratorOpts {
+  /**
+   * formatters by perception action, actions without one use formatPerception.
+   */
+  actions?: Record<string, PerceptionFormatter>
+  /**
+   * formats every other action, defaults to `{name} {action}: "{content}"`.
+   */
+  formatPerception?: PerceptionFormatter
+  /**
+   * the static memory (from the blueprint's {entityName}.md) that is kept in the "core" region, defaults to "core".
+   * Pass false to leave the core region alone.
+   */
+  coreMemory?: string | false
+  /**
+   * sets the order of the regions, otherwise the WorkingMemory's own regionOrder (if any) is kept.
+   */
+  regionOrder?: string[]
+  /**
+   * switches the MentalProcess (and its params) that handles the perception, return undefined to stay in the current one.
+   */
+  selectProcess?: (params: MemoryIntegratorParameters) => { process: MentalProcess<any>, params?: any } | undefined
+}
+
+// OpenAI only accepts names made of letters, digits, underscores and dashes.
+const memoryName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64)
+
+/**
+ * the format the soul engine has always used for perceptions: `friend said: "hi"`.
+ */
+export const defaultPerceptionFormatter: PerceptionFormatter = (perception) => {
+  return `${perception.name} ${perception.action}: "${perception.content}"`
+}
+
+const perceptionMemory = (perception: Perception, formatted: InputMemory | string): InputMemory => {
+  if (typeof formatted !== "string") {
+    return formatted
+  }
+  return {
+    // internal perceptions (like scheduled cognitive events) come from the soul itself.
+    role: perception.internal ? ChatMessageRoleEnum.Assistant : ChatMessageRoleEnum.User,
+    content: formatted,
+    ...(perception.name && !perception.internal && { name: memoryName(perception.name) }),
+  }
+}
+
+/**
+ * Creates a MemoryIntegrator that keeps the soul's core memory in the "core" region and adds every perception
+ * as a memory, with hooks for formatting specific actions and for switching processes.
+ *
+ * @example
+ * ```ts
+ * export default createMemoryIntegrator({
+ *   actions: {
+ *     joined: (perception) => `${perception.name} joined the room.`,
+ *     typing: () => undefined,
+ *   },
+ *   regionOrder: ["core", "summary", "default"],
+ *   selectProcess: ({ perception }) => perception.action === "emergency" ? { process: handlesEmergency } : undefined,
+ * })
+ * ```
+ */
+export const createMemoryIntegrator = (opts: MemoryIntegratorOpts = {}): MemoryIntegrator => {
+  const {
+    actions = {},
+    formatPerception = defaultPerceptionFormatter,
+    coreMemory = CORE_REGION,
+    regionOrder,
+    selectProcess,
+  } = opts
+
+  return (params) => {
+    const { perception, soul, currentProcess } = params
+    let workingMemory = params.workingMemory
+
+    if (regionOrder) {
+      workingMemory = workingMemory.withRegionalOrder(...regionOrder)
+    }
+
+    const core = coreMemory === false ? undefined : soul.staticMemories[coreMemory]
+    if (core) {
+      workingMemory = workingMemory.withRegion(CORE_REGION, {
+        role: ChatMessageRoleEnum.System,
+        content: core,
+      })
+    }
+
+    const formatter = Object.prototype.hasOwnProperty.call(actions, perception.action) ? actions[perception.action] : formatPerception
+    const formatted = formatter(perception, soul)
+    if (formatted !== undefined) {
+      workingMemory = workingMemory.withMemory(perceptionMemory(perception, formatted))
+    }
+
+    const selected = selectProcess?.({ ...params, workingMemory })
+    if (selected) {
+      return [workingMemory, selected.process, selected.params]
+    }
+    return [workingMemory, currentProcess]
+  }
+}
+
+/**
+ * The MemoryIntegrator used by the soul engine when a blueprint does not have one.
+ */
+export const defaultMemoryIntegrator = createMemoryIntegrator()
@@ -0,0 +1,386 @@
+import { ChatMessageRoleEnum, Perception, WorkingMemory } from "@opensouls/core"
+import type { MentalProcess, MentalProcessReturnOptions } from "./mentalProcess.js"
+import type { MemoryIntegrator, MemoryIntegratorReturnTypes, PerceptionProcessor, Soul } from "./index.js"
+import { createSoulHooksRuntime, DeliveredInteraction, MentalProcessInterruptedError, SoulHooksRuntime } from "./soulHooksRuntime.js"
+
+/**
+ * decides if a perception that arrives while a MentalProcess is handling an earlier one interrupts it.
+ * "never" (the default) lets the process finish, "always" interrupts every time.
+ */
+export type InterruptionPolicy =
+  | "never"
+  | "always"
+  | ((running: { process: MentalProcess<any>, perception: Perception }, incoming: Perception) => boolean)
+
+export interface RunnerProcesses {
+  initialProcess: MentalProcess<any>
+  /**
+   * run in the background, in order, after the main process handled a perception (see ProcessRunner).
+   */
+  subprocesses?: MentalProcess<any>[]
+  memoryIntegrator?: MemoryIntegrator
+  /**
+   * @deprecated use memoryIntegrator instead.
+   */
+  perceptionProcessor?: PerceptionProcessor
+  interruptionPolicy?: InterruptionPolicy
+}
+
+export interface ProcessRunnerOpts extends RunnerProcesses {
+  soul: Soul
+  workingMemory: WorkingMemory
+  /**
+   * defaults to a runtime created with createSoulHooksRuntime. Pass one in when the MentalProcesses
+   * were bound to a specific runtime's hooks (eg. in the soul engine server).
+   */
+  runtime?: SoulHooksRuntime
+  /**
+   * called when a subprocess throws (other than because it was cancelled), defaults to logging the error.
+   */
+  onSubprocessError?: (err: unknown, subprocess: MentalProcess<any>) => void
+}
+
+export interface DispatchOpts {
+  /**
+   * handle the perception in this process instead of the current one (eg. for scheduled cognitive events).
+   */
+  process?: MentalProcess<any>
+  params?: any
+}
+
+interface Transition {
+  process: MentalProcess<any>
+  params?: any
+  executeNow?: boolean
+}
+
+interface SubprocessRun {
+  controller: AbortController
+  done: Promise<void>
+}
+
+interface MainRun {
+  controller: AbortController
+  process: MentalProcess<any>
+  perception: Perception
+}
+
+/**
+ * The ProcessRunner is the state machine that drives a soul: it feeds each perception through the
+ * MemoryIntegrator, invokes the current MentalProcess and applies the transition the process returned
+ * (or set with the deprecated setNextProcess). Perceptions are queued and handled one at a time in the order
+ * they were dispatched, which is how the hosted soul engine behaved.
+ *
+ * Once the main process is done (including its speech), a perception counts as handled and the subprocesses run
+ * in the background. Each one gets the working memory left by the one before it, and its result becomes the
+ * runner's working memory. A new perception cancels the subprocesses still running: their processor requests and
+ * waits are aborted and whatever they had not finished is thrown away.
+ *
+ * With an interruptionPolicy, a new perception can also interrupt the main process: its cognitive steps and speech
+ * are aborted, the speech is marked with `_metadata.interrupted`, and the working memory only gets what was actually
+ * said (on top of the memory from before the process ran). The interrupted process then handles the new perception,
+ * the transition it would have made is dropped.
+ */
+export class ProcessRunner {
+  readonly runtime: SoulHooksRuntime
+  readonly soul: Soul
+
+  private processes: RunnerProcesses
+  private _workingMemory: WorkingMemory
+  private _currentProcess?: MentalProcess<any>
+  private _currentParams?: any
+  private onSubprocessError: (err: unknown, subprocess: MentalProcess<any>) => void
+
+  private queue: Promise<void> = Promise.resolve()
+  private subprocessRun?: SubprocessRun
+  private mainRun?: MainRun
+
+  constructor({ soul, workingMemory, runtime, onSubprocessError, ...processes }: ProcessRunnerOpts) {
+    this.soul = soul
+    this.processes = processes
+    this._workingMemory = workingMemory
+    this.runtime = runtime ?? createSoulHooksRuntime({ soulName: soul.name })
+    this.onSubprocessError = onSubprocessError ?? ((err, subprocess) => {
+      console.error(`error in subprocess ${subprocess.name}`, err)
+    })
+  }
+
+  get workingMemory() {
+    return this._workingMemory
+  }
+
+  /**
+   * the MentalProcess that will handle the next perception.
+   */
+  get currentProcess() {
+    return this._currentProcess ?? this.processes.initialProcess
+  }
+
+  get currentParams() {
+    return this._currentParams
+  }
+
+  get previousMentalProcess() {
+    return this.runtime.state.previousMentalProcess
+  }
+
+  get invocationCount() {
+    return this.runtime.state.currentProcess === this.currentProcess ? this.runtime.state.invocationCount : 0
+  }
+
+  get pendingPerceptions() {
+    return this.runtime.state.pendingPerceptions
+  }
+
+  /**
+   * true while subprocesses are running in the background.
+   */
+  get subprocessesRunning() {
+    return !!this.subprocessRun
+  }
+
+  /**
+   * Queues a perception and cancels any subprocesses that are still running (and, depending on the interruptionPolicy,
+   * interrupts the main process). The returned promise resolves once the main process handled this perception (or
+   * rejects with the error the handling threw), without waiting for the subprocesses. An error does not stop later
+   * perceptions from being handled.
+   */
+  dispatch(perception: Perception, opts: DispatchOpts = {}): Promise<void> {
+    this.runtime.state.pendingPerceptions.push(perception)
+    let queued = false
+    try {
+      this.cancelSubprocesses()
+      if (this.mainRun && this.interrupts(this.mainRun, perception)) {
+        this.mainRun.controller.abort()
+      }
+      queued = true
+    } finally {
+      // a throwing interruptionPolicy means the perception is never handled.
+      if (!queued) {
+        this.removePending(perception)
+      }
+    }
+
+    return this.enqueue(async () => {
+      this.removePending(perception)
+      await this.handlePerception(perception, opts)
+    })
+  }
+
+  /**
+   * Swaps in new versions of the MentalProcesses (eg. after a hot reload) in between perceptions.
+   * Since the functions are all new, the current process can only be kept if it is the initialProcess
+   * (matched by name), otherwise the soul starts over in the initialProcess.
+   */
+  reload(processes: RunnerProcesses): Promise<void> {
+    this.cancelSubprocesses()
+    return this.enqueue(async () => {
+      const currentName = this._currentProcess?.name
+      this.processes = processes
+      if (currentName !== processes.initialProcess.name) {
+        this._currentParams = undefined
+      }
+      this._currentProcess = undefined
+    })
+  }
+
+  /**
+   * Resolves when every perception dispatched so far has been handled and the subprocesses are done.
+   */
+  async idle(): Promise<void> {
+    await this.queue
+    await this.subprocessRun?.done
+  }
+
+  /**
+   * Aborts the subprocesses that are running, the working memory stays at what the completed ones left.
+   */
+  cancelSubprocesses() {
+    this.subprocessRun?.controller.abort()
+  }
+
+  private removePending(perception: Perception) {
+    const { pendingPerceptions } = this.runtime.state
+    const index = pendingPerceptions.indexOf(perception)
+    if (index >= 0) {
+      pendingPerceptions.splice(index, 1)
+    }
+  }
+
+  private interrupts(running: MainRun, incoming: Perception) {
+    const policy = this.processes.interruptionPolicy ?? "never"
+    if (typeof policy === "function") {
+      return policy(running, incoming)
+    }
+    return policy === "always"
+  }
+
+  private enqueue(fn: () => Promise<void>) {
+    const result = this.queue.then(async () => {
+      // the runtime executes one MentalProcess at a time, so a cancelled subprocess needs to unwind first.
+      await this.subprocessRun?.done
+      return fn()
+    })
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async handlePerception(perception: Perception, opts: DispatchOpts) {
+    let workingMemory = this._workingMemory
+    let process = opts.process ?? this.currentProcess
+    let params = opts.process ? opts.params : this._currentParams
+
+    const integrated = await this.integratePerception(perception, process, workingMemory)
+    if (integrated) {
+      const [integratedMemory, integratedProcess, integratedParams] = integrated
+      workingMemory = integratedMemory
+      if (integratedProcess && integratedProcess !== process) {
+        process = integratedProcess
+        params = integratedParams
+      }
+    }
+
+    const { interruptionPolicy = "never" } = this.processes
+    const controller = interruptionPolicy === "never" ? undefined : new AbortController()
+    const signal = controller?.signal
+
+    let executeNow = true
+    while (executeNow) {
+      executeNow = false
+
+      if (controller) {
+        this.mainRun = { controller, process, perception }
+      }
+
+      let result: Awaited<ReturnType<SoulHooksRuntime["invoke"]>>
+      try {
+        result = await this.runtime.invoke(process, {
+          perception,
+          workingMemory: signal ? workingMemory.withSignal(signal) : workingMemory,
+          params,
+          signal,
+        })
+      } catch (err) {
+        if (!(err instanceof MentalProcessInterruptedError)) {
+          throw err
+        }
+        // the process stays the current one, so it handles the perception that interrupted it.
+        this._workingMemory = this.withDeliveredSpeech(workingMemory, err.delivered)
+        this.runtime.state.nextProcess = undefined
+        return
+      } finally {
+        this.mainRun = undefined
+      }
+
+      let next: Transition | undefined = this.runtime.state.nextProcess
+      this.runtime.state.nextProcess = undefined
+
+      if (Array.isArray(result)) {
+        const [returnedMemory, returnedProcess, opts] = result as [WorkingMemory, MentalProcess<any>?, MentalProcessReturnOptions<any>?]
+        workingMemory = returnedMemory
+        if (returnedProcess) {
+          next = { process: returnedProcess, params: opts?.params, executeNow: opts?.executeNow }
+        }
+      } else if (result instanceof WorkingMemory) {
+        workingMemory = result
+      }
+
+      if (signal && workingMemory.signal) {
+        await workingMemory.finished
+        workingMemory = workingMemory.withSignal(undefined)
+      }
+
+      // a transition to the same process still applies its params.
+      if (next) {
+        process = next.process
+        params = next.params
+        executeNow = Boolean(next.executeNow)
+      }
+
+      this._workingMemory = workingMemory
+      this._currentProcess = process
+      this._currentParams = params
+    }
+
+    this.runSubprocesses(perception)
+  }
+
+  private withDeliveredSpeech(workingMemory: WorkingMemory, delivered: DeliveredInteraction[]) {
+    return delivered
+      .filter(({ action, content }) => action === "says" && content.length > 0)
+      .reduce((memory, { content, interrupted }) => memory.withMemory({
+        role: ChatMessageRoleEnum.Assistant,
+        content: `${this.soul.name} said: "${content}"`,
+        ...(interrupted && { metadata: { interrupted: true } }),
+      }), workingMemory)
+  }
+
+  private runSubprocesses(perception: Perception) {
+    const subprocesses = this.processes.subprocesses ?? []
+    if (subprocesses.length === 0) {
+      return
+    }
+
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const run: SubprocessRun = {
+      controller,
+      done: (async () => {
+        for (const subprocess of subprocesses) {
+          if (signal.aborted) {
+            return
+          }
+          try {
+            const result = await this.runtime.invoke(subprocess, {
+              perception,
+              workingMemory: this._workingMemory.withSignal(signal),
+              subprocess: true,
+              signal,
+            })
+            const subprocessMemory = Array.isArray(result) ? result[0] : result
+            if (subprocessMemory instanceof WorkingMemory && !signal.aborted) {
+              // wait for a streaming step the subprocess did not await, so a cancellation can still throw it away.
+              await subprocessMemory.finished
+              if (!signal.aborted) {
+                this._workingMemory = subprocessMemory.withSignal(undefined)
+              }
+            }
+          } catch (err) {
+            if (!signal.aborted) {
+              this.onSubprocessError(err, subprocess)
+            }
+          }
+        }
+      })().finally(() => {
+        if (this.subprocessRun === run) {
+          this.subprocessRun = undefined
+        }
+      }),
+    }
+    this.subprocessRun = run
+  }
+
+  private async integratePerception(
+    perception: Perception,
+    currentProcess: MentalProcess<any>,
+    workingMemory: WorkingMemory,
+  ): Promise<MemoryIntegratorReturnTypes | undefined> {
+    const { memoryIntegrator, perceptionProcessor } = this.processes
+
+    if (memoryIntegrator) {
+      return memoryIntegrator({ perception, currentProcess, workingMemory, soul: this.soul })
+    }
+
+    if (perceptionProcessor) {
+      return perceptionProcessor({ perception, currentProcess, workingMemory })
+    }
+
+    return [
+      workingMemory.withMemory({
+        role: ChatMessageRoleEnum.User,
+        content: `${perception.name} ${perception.action}: "${perception.content}"`,
+      }),
+    ]
+  }
+}
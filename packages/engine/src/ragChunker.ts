@@ -0,0 +1,262 @@
+import { decode, encode } from "gpt-tokenizer/model/gpt-4"
+import type { Json } from "@opensouls/core"
+
+export const DEFAULT_RAG_CHUNK_TOKENS = 500
+
+export type RagContentKind = "markdown" | "code" | "json" | "text"
+
+export interface RagChunk {
+  content: string
+  /**
+   * where in the document the chunk came from: a heading path for markdown, a symbol for code and
+   * a JSON path for json.
+   */
+  section?: string
+}
+
+export interface ChunkRagContentOpts {
+  content: string
+  /**
+   * the file name (or rootKey), used to pick the chunking strategy when kind is not given.
+   */
+  fileName?: string
+  contentType?: string
+  kind?: RagContentKind
+  maxTokens?: number
+}
+
+const MARKDOWN_EXTENSIONS = [".md", ".mdx"]
+const CODE_EXTENSIONS = [".js", ".ts", ".tsx", ".jsx", ".py"]
+const JSON_EXTENSIONS = [".json"]
+
+const extensionOf = (fileName: string) => {
+  const match = /\.[^./\\]+$/.exec(fileName)
+  return match ? match[0].toLowerCase() : ""
+}
+
+export const countTokens = (text: string) => encode(text).length
+
+/**
+ * Whether maxTokens is usable as a chunk size: a positive integer, or left out to use DEFAULT_RAG_CHUNK_TOKENS.
+ */
+export const isValidRagMaxTokens = (maxTokens: unknown): maxTokens is number | undefined => {
+  return maxTokens === undefined || (Number.isInteger(maxTokens) && (maxTokens as number) > 0)
+}
+
+/**
+ * Picks the chunking strategy from the content type (if it is specific enough) or the file extension.
+ */
+export const ragContentKind = (fileName = "", contentType?: string): RagContentKind => {
+  const mime = contentType?.split(";")[0].trim().toLowerCase()
+  if (mime) {
+    if (mime === "text/markdown" || mime === "text/mdx") return "markdown"
+    if (mime === "application/json" || mime.endsWith("+json")) return "json"
+    if (/(javascript|typescript|python|jsx)/.test(mime)) return "code"
+  }
+
+  const extension = extensionOf(fileName)
+  if (MARKDOWN_EXTENSIONS.includes(extension)) return "markdown"
+  if (CODE_EXTENSIONS.includes(extension)) return "code"
+  if (JSON_EXTENSIONS.includes(extension)) return "json"
+  return "text"
+}
+
+/**
+ * Splits text that is too long into pieces of at most maxTokens, preferring paragraph, then line
+ * boundaries and only cutting through a line as a last resort.
+ */
+const splitToFit = (text: string, maxTokens: number): string[] => {
+  if (countTokens(text) <= maxTokens) {
+    return [text]
+  }
+
+  for (const separator of ["\n\n", "\n"]) {
+    const parts = text.split(separator).filter((part) => part.trim().length > 0)
+    if (parts.length > 1) {
+      return packPieces(parts.flatMap((part) => splitToFit(part, maxTokens)), maxTokens, separator)
+    }
+  }
+
+  const tokens = encode(text)
+  const pieces: string[] = []
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    pieces.push(decode(tokens.slice(i, i + maxTokens)))
+  }
+  return pieces
+}
+
+/**
+ * Greedily joins consecutive pieces as long as the result stays within maxTokens.
+ */
+const packPieces = (pieces: string[], maxTokens: number, separator: string): string[] => {
+  const packed: string[] = []
+  let current = ""
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece
+    if (current && countTokens(candidate) > maxTokens) {
+      packed.push(current)
+      current = piece
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current) {
+    packed.push(current)
+  }
+
+  return packed
+}
+
+const sectionChunks = (content: string, maxTokens: number, section?: string): RagChunk[] => {
+  return splitToFit(content.trim(), maxTokens)
+    .filter((piece) => piece.trim().length > 0)
+    .map((piece) => section ? { content: piece, section } : { content: piece })
+}
+
+const chunkMarkdown = (content: string, maxTokens: number): RagChunk[] => {
+  const chunks: RagChunk[] = []
+  const headings: string[] = []
+  let lines: string[] = []
+  let inCodeFence = false
+
+  const flush = () => {
+    const section = headings.filter(Boolean).join(" > ") || undefined
+    chunks.push(...sectionChunks(lines.join("\n"), maxTokens, section))
+    lines = []
+  }
+
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence
+    }
+
+    const heading = inCodeFence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line)
+    if (heading) {
+      flush()
+      const depth = heading[1].length
+      headings.splice(depth - 1)
+      headings[depth - 1] = heading[2]
+    }
+    lines.push(line)
+  }
+  flush()
+
+  return chunks
+}
+
+const SYMBOL_PATTERNS = [
+  // js/ts: function, class, const, interface, type, enum (optionally exported)
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum|abstract\s+class)\s+([A-Za-z_$][\w$]*)/,
+  /^export\s+default\s+([A-Za-z_$][\w$]*)/,
+  // python
+  /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+]
+
+const symbolAt = (line: string) => {
+  for (const pattern of SYMBOL_PATTERNS) {
+    const match = pattern.exec(line)
+    if (match) {
+      return match[1]
+    }
+  }
+  return undefined
+}
+
+const chunkCode = (content: string, maxTokens: number): RagChunk[] => {
+  const chunks: RagChunk[] = []
+  let symbol: string | undefined
+  let lines: string[] = []
+  // comments (and decorators) right above a symbol belong to that symbol.
+  let leading: string[] = []
+
+  const flush = () => {
+    chunks.push(...sectionChunks(lines.join("\n"), maxTokens, symbol))
+    lines = []
+  }
+
+  for (const line of content.split("\n")) {
+    const isTopLevel = line.length > 0 && !/^\s/.test(line)
+    const newSymbol = isTopLevel ? symbolAt(line) : undefined
+
+    if (newSymbol) {
+      flush()
+      symbol = newSymbol
+      lines = [...leading, line]
+      leading = []
+      continue
+    }
+
+    if (isTopLevel && /^(\/\/|\/\*|\*|#|@)/.test(line.trim())) {
+      leading.push(line)
+      continue
+    }
+
+    lines.push(...leading, line)
+    leading = []
+  }
+  lines.push(...leading)
+  flush()
+
+  return chunks
+}
+
+const jsonPath = (path: string, key: string | number) => {
+  if (typeof key === "number") {
+    return `${path}[${key}]`
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+const chunkJson = (content: string, maxTokens: number): RagChunk[] => {
+  let parsed: Json
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return sectionChunks(content, maxTokens)
+  }
+
+  const chunks: RagChunk[] = []
+
+  const walk = (value: Json, path: string) => {
+    const serialized = JSON.stringify(value, null, 2)
+    const isContainer = value !== null && typeof value === "object"
+    if (countTokens(serialized) <= maxTokens || !isContainer) {
+      chunks.push(...sectionChunks(`${path}: ${serialized}`, maxTokens, path))
+      return
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, jsonPath(path, i)))
+      return
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      walk(child, jsonPath(path, key))
+    }
+  }
+
+  walk(parsed, "$")
+  return chunks
+}
+
+/**
+ * Chunks a document for RAG: markdown by heading, code by top level symbol, JSON by path and everything
+ * else by paragraph. No chunk is longer than maxTokens.
+ */
+export const chunkRagContent = ({ content, fileName, contentType, kind, maxTokens = DEFAULT_RAG_CHUNK_TOKENS }: ChunkRagContentOpts): RagChunk[] => {
+  if (!isValidRagMaxTokens(maxTokens)) {
+    throw new RangeError(`maxTokens must be a positive integer, got ${maxTokens}`)
+  }
+  switch (kind ?? ragContentKind(fileName, contentType)) {
+    case "markdown":
+      return chunkMarkdown(content, maxTokens)
+    case "code":
+      return chunkCode(content, maxTokens)
+    case "json":
+      return chunkJson(content, maxTokens)
+    default:
+      return sectionChunks(content, maxTokens)
+  }
+}
@@ -0,0 +1,83 @@
+import { ChatMessageRoleEnum, ChatMessageContent, WorkingMemory } from "@opensouls/core"
+import type { RagSearchOpts, VectorRecordWithDistance, WithRagContextOpts } from "./index.js"
+
+export const RAG_REGION = "rag"
+
+const DEFAULT_QUERY_COUNT = 3
+const DEFAULT_LIMIT = 5
+// long memories make for unfocused queries, only the start of each one is used.
+const MAX_QUERY_LENGTH = 500
+
+type RagSearch = (opts: RagSearchOpts) => Promise<VectorRecordWithDistance[]>
+
+const textOf = (content: ChatMessageContent) => {
+  if (typeof content === "string") {
+    return content
+  }
+  return content.map((part) => part.type === "text" ? part.text : "").join(" ")
+}
+
+/**
+ * The default retrieval queries: the content of the most recent (non system) memories, newest first.
+ */
+export const ragQueriesFromMemory = (workingMemory: WorkingMemory, queryCount = DEFAULT_QUERY_COUNT): string[] => {
+  return workingMemory.memories
+    .filter((memory) => memory.role !== ChatMessageRoleEnum.System && memory.region !== RAG_REGION)
+    .map((memory) => textOf(memory.content).trim().slice(0, MAX_QUERY_LENGTH))
+    .filter((query) => query.length > 0)
+    .reverse()
+    .slice(0, queryCount)
+}
+
+const formatHit = (hit: VectorRecordWithDistance) => {
+  const { rootKey, section } = hit.metadata
+  const source = [rootKey, section].filter((part) => typeof part === "string" && part.length > 0).join(" > ")
+  const content = typeof hit.content === "string" ? hit.content : JSON.stringify(hit.content)
+  return source ? `### ${source}\n${content}` : content
+}
+
+/**
+ * Searches for everything relevant to the WorkingMemory and returns it with the hits in the "rag" region
+ * (replacing the hits of a previous search). Hits found by several queries are only included once.
+ */
+export const withRagRegion = async (workingMemory: WorkingMemory, search: RagSearch, opts: WithRagContextOpts = {}) => {
+  await workingMemory.finished
+
+  const { queryCount = DEFAULT_QUERY_COUNT, limit = DEFAULT_LIMIT, maxDistance, bucketName } = opts
+  const queries = opts.queries ? await opts.queries(workingMemory) : ragQueriesFromMemory(workingMemory, queryCount)
+
+  const results = await Promise.all(queries.map((query) => search({ query, limit, maxDistance, bucketName })))
+
+  const hits = new Map<string, VectorRecordWithDistance>()
+  for (const hit of results.flat()) {
+    const existing = hits.get(hit.key)
+    if (!existing || hit.distance < existing.distance) {
+      hits.set(hit.key, hit)
+    }
+  }
+
+  const closest = [...hits.values()].sort((a, b) => a.distance - b.distance).slice(0, limit)
+  if (closest.length === 0) {
+    return workingMemory.withoutRegions(RAG_REGION)
+  }
+
+  return workingMemory.withRegion(RAG_REGION, {
+    role: ChatMessageRoleEnum.System,
+    content: `## Relevant information\n\n${closest.map(formatHit).join("\n\n")}`,
+    metadata: { ragKeys: closest.map((hit) => hit.key) },
+  })
+}
+
+/**
+ * Wraps a CognitiveStep (anything created with createCognitiveStep) so that it first retrieves
+ * what is relevant to the WorkingMemory it is called with and puts that into the "rag" region.
+ */
+export const withRagContext = <T>(step: T, search: RagSearch, opts: WithRagContextOpts = {}): T => {
+  if (typeof step !== "function") {
+    throw new Error("withRagContext expects a CognitiveStep")
+  }
+
+  return (async (workingMemory: WorkingMemory, ...args: any[]) => {
+    return step(await withRagRegion(workingMemory, search, opts), ...args)
+  }) as T
+}
@@ -0,0 +1,88 @@
+import type { RagIngestionBody } from "./index.js"
+import { ALLOWED_RAG_FILE_EXTENSIONS } from "./index.js"
+import { chunkRagContent, isValidRagMaxTokens } from "./ragChunker.js"
+import type { VectorBucket } from "./vectorStore.js"
+
+export interface RagIngestionResult {
+  rootKey: string
+  /**
+   * the number of chunks stored for the rootKey (0 when skipped).
+   */
+  chunks: number
+  /**
+   * why the body was not ingested.
+   */
+  skipped?: string
+}
+
+const decodeBase64 = (content: string) => {
+  const binary = atob(content)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+const isAllowed = (rootKey: string) => {
+  const lowerKey = rootKey.toLowerCase()
+  return ALLOWED_RAG_FILE_EXTENSIONS.some((extension) => lowerKey.endsWith(extension))
+}
+
+/**
+ * the key of a single chunk of a document in the bucket.
+ */
+export const ragChunkKey = (rootKey: string, index: number) => `${rootKey}::${index}`
+
+/**
+ * Decodes, chunks and embeds RagIngestionBody documents (as posted by `soul-engine rag push`) into a bucket.
+ * Every chunk is stored with the rootKey in its metadata, and the chunks from a previous ingestion of the
+ * same rootKey are removed first, so re-posting a changed document never leaves stale chunks behind.
+ *
+ * A maxTokens that is not a positive integer is a mistake of the caller, so nothing is ingested (a RangeError is thrown).
+ */
+export const ingestRagBodies = async (bucket: VectorBucket, bodies: RagIngestionBody[]): Promise<RagIngestionResult[]> => {
+  const invalid = bodies.find(({ maxTokens }) => !isValidRagMaxTokens(maxTokens))
+  if (invalid) {
+    throw new RangeError(`maxTokens of ${invalid.rootKey} must be a positive integer`)
+  }
+
+  const results: RagIngestionResult[] = []
+
+  for (const { rootKey, content, contentType, maxTokens, metadata } of bodies) {
+    if (!rootKey) {
+      results.push({ rootKey, chunks: 0, skipped: "missing rootKey" })
+      continue
+    }
+
+    if (!isAllowed(rootKey)) {
+      results.push({ rootKey, chunks: 0, skipped: `unsupported file extension, expected one of ${ALLOWED_RAG_FILE_EXTENSIONS.join(", ")}` })
+      continue
+    }
+
+    let text: string
+    try {
+      text = decodeBase64(content)
+    } catch {
+      results.push({ rootKey, chunks: 0, skipped: "content is not valid base64" })
+      continue
+    }
+
+    const chunks = chunkRagContent({ content: text, fileName: rootKey, contentType, maxTokens })
+
+    bucket.removeWhere({ rootKey })
+    chunks.forEach((chunk, chunkIndex) => {
+      bucket.set(ragChunkKey(rootKey, chunkIndex), chunk.content, {
+        ...metadata,
+        rootKey,
+        chunkIndex,
+        ...(chunk.section ? { section: chunk.section } : {}),
+      })
+    })
+
+    results.push({ rootKey, chunks: chunks.length })
+  }
+
+  await bucket.flush()
+  return results
+}
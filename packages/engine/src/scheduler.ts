@@ -0,0 +1,400 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import type { InternalPerception, Json } from "@opensouls/core"
+import { SoulEventKinds } from "@opensouls/core"
+import type { MentalProcess } from "./mentalProcess.js"
+import type { CognitiveEvent, CognitiveEventBase, PendingCognitiveEvent } from "./index.js"
+
+// setTimeout overflows (and fires immediately) for delays longer than ~24.8 days.
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+export interface SchedulerClock {
+  now(): number
+  setTimeout(callback: () => void | Promise<void>, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+interface FakeTimer {
+  id: number
+  at: number
+  callback: () => void | Promise<void>
+}
+
+/**
+ * A clock that only moves when told to, for deterministic tests of time-driven souls.
+ *
+ * @example
+ * ```ts
+ * const clock = new FakeClock()
+ * const scheduler = new CognitiveEventScheduler({ clock, onEvent })
+ * await clock.advance(60_000) // fires everything scheduled in the next minute
+ * ```
+ */
+export class FakeClock implements SchedulerClock {
+  private current: number
+  private timers: FakeTimer[] = []
+  private nextId = 0
+
+  constructor(start: number | Date = 0) {
+    this.current = typeof start === "number" ? start : start.getTime()
+  }
+
+  now() {
+    return this.current
+  }
+
+  setTimeout(callback: () => void | Promise<void>, ms: number) {
+    const timer = { id: this.nextId++, at: this.current + Math.max(ms, 0), callback }
+    this.timers.push(timer)
+    return timer.id
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers = this.timers.filter((timer) => timer.id !== handle)
+  }
+
+  /**
+   * a `wait` that uses this clock, suitable for the `wait` option of createSoulHooksRuntime.
+   */
+  wait = (ms: number) => new Promise<void>((resolve) => {
+    this.setTimeout(resolve, ms)
+  })
+
+  /**
+   * Moves the clock forward, firing (and awaiting) every timer that comes due in order.
+   * Timers that are set by the fired callbacks also fire if they come due within the advanced time.
+   */
+  async advance(ms: number) {
+    const target = this.current + ms
+
+    for (;;) {
+      const next = this.timers
+        .filter((timer) => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0]
+
+      if (!next) {
+        break
+      }
+
+      this.timers = this.timers.filter((timer) => timer !== next)
+      this.current = Math.max(this.current, next.at)
+      await next.callback()
+      // let anything the callback kicked off settle before the next timer.
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+
+    this.current = target
+  }
+
+  get pendingTimers() {
+    return this.timers.length
+  }
+}
+
+/**
+ * The persisted version of a PendingCognitiveEvent. MentalProcess functions cannot be stored,
+ * so the process is stored by name and resolved again when the event fires.
+ */
+export interface StoredCognitiveEvent {
+  id: string
+  when: number // milliseconds since epoch
+  processName: string
+  perception: CognitiveEventBase["perception"]
+  params?: Json
+}
+
+export interface SchedulerStore {
+  load(): Promise<StoredCognitiveEvent[]>
+  save(events: StoredCognitiveEvent[]): Promise<void>
+}
+
+export class MemorySchedulerStore implements SchedulerStore {
+  private events: StoredCognitiveEvent[] = []
+
+  async load() {
+    return this.events.map((event) => ({ ...event }))
+  }
+
+  async save(events: StoredCognitiveEvent[]) {
+    this.events = events.map((event) => ({ ...event }))
+  }
+}
+
+/**
+ * Stores scheduled events in a JSON file so that they survive a restart.
+ */
+export class JsonFileSchedulerStore implements SchedulerStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<StoredCognitiveEvent[]> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8"))
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        return []
+      }
+      throw err
+    }
+  }
+
+  async save(events: StoredCognitiveEvent[]) {
+    await mkdir(dirname(this.filePath), { recursive: true })
+    // write then rename so a crash mid-write never leaves a truncated file behind.
+    const tmpPath = `${this.filePath}.tmp`
+    await writeFile(tmpPath, JSON.stringify(events, null, 2))
+    await rename(tmpPath, this.filePath)
+  }
+}
+
+export interface FiredCognitiveEvent {
+  event: PendingCognitiveEvent
+  perception: InternalPerception
+}
+
+export interface CognitiveEventSchedulerOpts {
+  /**
+   * called when a scheduled event comes due. The host is expected to dispatch the perception
+   * into the event's process (see ProcessRunner#dispatch).
+   */
+  onEvent: (fired: FiredCognitiveEvent) => void | Promise<void>
+  /**
+   * events restored from the store only know the name of their MentalProcess. Events whose
+   * process cannot be resolved are dropped when they fire.
+   */
+  resolveProcess?: (name: string) => MentalProcess<any> | undefined
+  /**
+   * called for events that are dropped because their process cannot be resolved, defaults to a warning.
+   */
+  onDroppedEvent?: (event: StoredCognitiveEvent) => void
+  store?: SchedulerStore
+  clock?: SchedulerClock
+}
+
+const randomId = () => {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * The CognitiveEventScheduler implements `scheduleEvent`, `cancelScheduledEvent` and `pendingScheduledEvents`.
+ * Every change is written to its SchedulerStore, and #start restores (and re-arms) whatever was stored.
+ */
+export class CognitiveEventScheduler {
+  readonly clock: SchedulerClock
+  /**
+   * reactively updated list of pending events, meant to be handed to createSoulHooksRuntime.
+   */
+  readonly pendingScheduledEvents: { current: PendingCognitiveEvent[] } = { current: [] }
+
+  private store: SchedulerStore
+  private onEvent: CognitiveEventSchedulerOpts["onEvent"]
+  private resolveProcess: NonNullable<CognitiveEventSchedulerOpts["resolveProcess"]>
+  private onDroppedEvent: NonNullable<CognitiveEventSchedulerOpts["onDroppedEvent"]>
+  private knownProcesses = new Map<string, MentalProcess<any>>()
+  private timers = new Map<string, unknown>()
+  private stored = new Map<string, StoredCognitiveEvent>()
+  private writes: Promise<void> = Promise.resolve()
+  private started = false
+
+  constructor({ onEvent, resolveProcess, onDroppedEvent, store, clock }: CognitiveEventSchedulerOpts) {
+    this.onEvent = onEvent
+    this.resolveProcess = resolveProcess ?? (() => undefined)
+    this.onDroppedEvent = onDroppedEvent ?? ((event) => {
+      console.warn(`dropping scheduled event ${event.id}: unknown mental process ${event.processName}`)
+    })
+    this.store = store ?? new MemorySchedulerStore()
+    this.clock = clock ?? systemClock
+  }
+
+  /**
+   * Loads the stored events and arms their timers. Events that came due while the scheduler was
+   * not running fire right away.
+   */
+  async start() {
+    if (this.started) {
+      return
+    }
+    this.started = true
+
+    const events = await this.store.load()
+    if (!this.started) {
+      // stopped while loading.
+      return
+    }
+    for (const event of events) {
+      this.stored.set(event.id, event)
+      this.arm(event)
+    }
+    this.syncPending()
+  }
+
+  stop() {
+    this.started = false
+    for (const handle of this.timers.values()) {
+      this.clock.clearTimeout(handle)
+    }
+    this.timers.clear()
+  }
+
+  async schedule(evt: CognitiveEvent): Promise<string> {
+    const when = "when" in evt ? new Date(evt.when).getTime() : this.clock.now() + evt.in * 1000
+    if (!Number.isFinite(when)) {
+      throw new RangeError(`cannot schedule ${evt.process.name}, it is not due at a valid time`)
+    }
+
+    this.knownProcesses.set(evt.process.name, evt.process)
+
+    const event: StoredCognitiveEvent = {
+      id: randomId(),
+      when,
+      processName: evt.process.name,
+      perception: evt.perception,
+      params: evt.params,
+    }
+
+    this.stored.set(event.id, event)
+    this.syncPending()
+    try {
+      await this.persist()
+    } catch (err) {
+      // an event that could not be stored would not survive a restart, so it is not scheduled at all.
+      this.stored.delete(event.id)
+      this.syncPending()
+      throw err
+    }
+
+    if (this.started) {
+      this.arm(event)
+    }
+
+    return event.id
+  }
+
+  async cancel(eventId: string) {
+    const handle = this.timers.get(eventId)
+    if (handle !== undefined) {
+      this.clock.clearTimeout(handle)
+      this.timers.delete(eventId)
+    }
+
+    if (this.stored.delete(eventId)) {
+      this.syncPending()
+      await this.persist()
+    }
+  }
+
+  /**
+   * cancels every pending event.
+   */
+  async clear() {
+    for (const handle of this.timers.values()) {
+      this.clock.clearTimeout(handle)
+    }
+    this.timers.clear()
+    this.stored.clear()
+    this.syncPending()
+    await this.persist()
+  }
+
+  /**
+   * resolves once every change so far has been written to the store.
+   */
+  flush() {
+    return this.writes
+  }
+
+  private arm(event: StoredCognitiveEvent) {
+    const delay = event.when - this.clock.now()
+
+    const handle = this.clock.setTimeout(() => {
+      this.timers.delete(event.id)
+      if (event.when > this.clock.now()) {
+        // a long delay was capped at MAX_TIMEOUT, keep waiting.
+        this.arm(event)
+        return
+      }
+      return this.fire(event)
+    }, Math.min(Math.max(delay, 0), MAX_TIMEOUT))
+
+    this.timers.set(event.id, handle)
+  }
+
+  private async fire(stored: StoredCognitiveEvent) {
+    if (!this.stored.delete(stored.id)) {
+      return
+    }
+    this.syncPending()
+    try {
+      await this.persist()
+    } catch {
+      // persist already reported it, the event still fires (and fires again after a restart).
+    }
+
+    const process = this.processFor(stored.processName)
+    if (!process) {
+      this.onDroppedEvent(stored)
+      return
+    }
+
+    const perception: InternalPerception = {
+      ...stored.perception,
+      _id: stored.id,
+      _kind: SoulEventKinds.Perception,
+      _timestamp: this.clock.now(),
+      _mentalProcess: {
+        name: stored.processName,
+        params: stored.params ?? null,
+      },
+      internal: true,
+    }
+
+    try {
+      await this.onEvent({ event: this.toPending(stored, process), perception })
+    } catch (err) {
+      console.error("error handling scheduled event", stored.id, err)
+    }
+  }
+
+  private processFor(name: string) {
+    return this.resolveProcess(name) ?? this.knownProcesses.get(name)
+  }
+
+  private toPending(stored: StoredCognitiveEvent, process: MentalProcess<any>): PendingCognitiveEvent {
+    return {
+      id: stored.id,
+      when: new Date(stored.when),
+      process,
+      perception: stored.perception,
+      params: stored.params,
+    }
+  }
+
+  private syncPending() {
+    const pending: PendingCognitiveEvent[] = []
+    for (const stored of this.stored.values()) {
+      const process = this.processFor(stored.processName)
+      if (process) {
+        pending.push(this.toPending(stored, process))
+      }
+    }
+    this.pendingScheduledEvents.current = pending.sort((a, b) => a.when.getTime() - b.when.getTime())
+  }
+
+  private persist() {
+    const snapshot = [...this.stored.values()]
+    const write = this.writes.then(() => this.store.save(snapshot))
+    // a failed write should not prevent later (complete) snapshots from being written.
+    this.writes = write.catch((err) => {
+      console.error("error persisting scheduled events", err)
+    })
+    return write
+  }
+}
@@ -0,0 +1,404 @@
+import type { DeveloperInteractionRequest, Json, Perception } from "@opensouls/core"
+import type { MentalProcess, MentalProcessArguments, MentalProcessReturnTypes } from "./mentalProcess.js"
+import type { CognitiveEvent, PendingCognitiveEvent, SoulHooks, UseToolOpts } from "./index.js"
+
+/**
+ * The in-process state that the hooks of a SoulHooksRuntime read and write.
+ * Everything in here is plain data (or MentalProcess functions) so that a host can inspect it.
+ */
+export interface SoulHooksRuntimeState {
+  currentProcess?: MentalProcess<any>
+  previousMentalProcess?: MentalProcess<any>
+  /**
+   * the number of times the currentProcess has been invoked since it became the currentProcess.
+   */
+  invocationCount: number
+  /**
+   * set by the (deprecated) `useProcessManager().setNextProcess`, the host is responsible for applying it.
+   */
+  nextProcess?: { process: MentalProcess<any>, params?: any }
+  pendingPerceptions: Perception[]
+  /**
+   * process memories are keyed by the name of the MentalProcess and then by the order of the
+   * `useProcessMemory` calls within that process (like react hooks).
+   */
+  processMemories: Record<string, { current: any }[]>
+  soulMemories: Record<string, { current: any }>
+  pendingScheduledEvents: { current: PendingCognitiveEvent[] }
+  expired: boolean
+}
+
+export interface InvokeOpts<ParamType> extends Omit<MentalProcessArguments<ParamType>, "step" | "params"> {
+  params?: ParamType
+  perception?: Perception | null
+  /**
+   * subprocesses do not change the currentProcess nor the invocationCount.
+   */
+  subprocess?: boolean
+  /**
+   * cancels the invocation: `useProcessManager().wait` rejects and streamed speech stops once it is aborted, and invoke
+   * throws a MentalProcessInterruptedError. Pass the same signal to the WorkingMemory (withSignal) to abort the
+   * processor requests too.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * An interaction request (`speak` or `dispatch`) made by an invocation, with the content that was actually delivered.
+ */
+export interface DeliveredInteraction {
+  action: string
+  content: string
+  /**
+   * true when the content stream was cut short.
+   */
+  interrupted: boolean
+}
+
+/**
+ * Thrown by SoulHooksRuntime#invoke when the invocation was aborted with its signal.
+ */
+export class MentalProcessInterruptedError extends Error {
+  constructor(
+    readonly processName: string,
+    readonly delivered: DeliveredInteraction[],
+  ) {
+    super(`${processName} was interrupted`)
+    this.name = "MentalProcessInterruptedError"
+  }
+}
+
+export interface SoulHooksRuntimeOpts {
+  /**
+   * used as the name on `speak` interaction requests.
+   */
+  soulName?: string
+  state?: Partial<SoulHooksRuntimeState>
+  /**
+   * When true (the default) the hooks are installed on `globalThis.soul.__hooks` for the duration of an invocation
+   * so that MentalProcesses importing `useActions`, etc from "@opensouls/engine" work unchanged.
+   * Hosts that evaluate souls in their own scope should turn this off.
+   */
+  installGlobally?: boolean
+  /**
+   * called for every `speak` and `dispatch`. If a promise is returned, the invocation does not
+   * complete until it resolves (useful for streaming content somewhere). Defaults to collecting the
+   * requests (with their content fully read) on `runtime.interactionRequests`.
+   *
+   * When an invocation is interrupted, the content streams it started end early and `_metadata.interrupted` is set
+   * on their requests before they end.
+   */
+  onInteractionRequest?: (request: DeveloperInteractionRequest) => void | Promise<void>
+  onLog?: (...args: any[]) => void
+  onExpire?: () => void
+  scheduleEvent?: (evt: CognitiveEvent) => Promise<string>
+  cancelScheduledEvent?: (eventId: string) => Promise<void>
+  wait?: (ms: number) => Promise<void>
+  /**
+   * implements `useTool`, see ToolCaller for an implementation over the pendingToolCalls of an EventLogDoc.
+   */
+  callTool?: (name: string, params: any, opts?: UseToolOpts) => Promise<any>
+  useSoulStore?: SoulHooks["useSoulStore"]
+  useBlueprintStore?: SoulHooks["useBlueprintStore"]
+  useOrganizationStore?: SoulHooks["useOrganizationStore"]
+  useRag?: SoulHooks["useRag"]
+}
+
+export interface CollectedInteractionRequest extends Omit<DeveloperInteractionRequest, "content"> {
+  content: string
+}
+
+export interface SoulHooksRuntime {
+  hooks: SoulHooks
+  state: SoulHooksRuntimeState
+  interactionRequests: CollectedInteractionRequest[]
+  /**
+   * invokes a MentalProcess with the hooks bound to this runtime and waits for every action
+   * (including streamed speech) the process started.
+   */
+  invoke: <ParamType = any>(process: MentalProcess<ParamType>, opts: InvokeOpts<ParamType>) => Promise<MentalProcessReturnTypes<any, ParamType>>
+}
+
+interface Invocation {
+  process: MentalProcess<any>
+  perception: Perception | null
+  processMemoryIndex: number
+  pendingActions: Promise<void>[]
+  delivered: DeliveredInteraction[]
+  signal?: AbortSignal
+}
+
+const notConfigured = (hook: string) => (): never => {
+  throw new Error(`${hook} is not configured on this soul hooks runtime.`)
+}
+
+const readContent = async (content: AsyncIterable<string> | string) => {
+  if (typeof content === "string") {
+    return content
+  }
+  let fullContent = ""
+  for await (const chunk of content) {
+    fullContent += chunk
+  }
+  return fullContent
+}
+
+// waits (with the host's wait when there is one) until the time is up or the signal aborts.
+const abortableWait = (ms: number, signal?: AbortSignal, wait?: (ms: number) => Promise<void>) => {
+  signal?.throwIfAborted()
+  return new Promise<void>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    const waited = wait ? wait(ms) : new Promise<void>((resolveTimer) => { timer = setTimeout(resolveTimer, ms) })
+    waited.then(resolve, reject).finally(() => signal?.removeEventListener("abort", onAbort))
+  })
+}
+
+// passes the content through until the signal aborts, keeping track of what was delivered.
+async function* interruptibleContent(
+  content: AsyncIterable<string>,
+  request: DeveloperInteractionRequest,
+  delivered: DeliveredInteraction,
+  signal: AbortSignal,
+) {
+  const iterator = content[Symbol.asyncIterator]()
+  const aborted = new Promise<"aborted">((resolve) => {
+    if (signal.aborted) {
+      resolve("aborted")
+    }
+    signal.addEventListener("abort", () => resolve("aborted"), { once: true })
+  })
+
+  while (true) {
+    const next = await Promise.race([iterator.next(), aborted])
+    if (next === "aborted") {
+      delivered.interrupted = true
+      request._metadata!.interrupted = true
+      // the source might be stuck waiting on the network, so it is not awaited.
+      iterator.return?.()?.catch(() => undefined)
+      return
+    }
+    if (next.done) {
+      return
+    }
+    delivered.content += next.value
+    yield next.value
+  }
+}
+
+const defaultState = (): SoulHooksRuntimeState => ({
+  invocationCount: 0,
+  pendingPerceptions: [],
+  processMemories: {},
+  soulMemories: {},
+  pendingScheduledEvents: { current: [] },
+  expired: false,
+})
+
+/**
+ * Creates an implementation of every SoulHooks hook that works against an in-process state object.
+ * This is what lets a MentalProcess execute (and be unit tested) outside of the hosted SOUL ENGINE.
+ *
+ * @example
+ * ```ts
+ * const runtime = createSoulHooksRuntime({ soulName: "Samantha" })
+ * await runtime.invoke(initialProcess, { workingMemory })
+ * console.log(runtime.interactionRequests)
+ * ```
+ */
+export const createSoulHooksRuntime = (opts: SoulHooksRuntimeOpts = {}): SoulHooksRuntime => {
+  const state: SoulHooksRuntimeState = { ...defaultState(), ...opts.state }
+  const interactionRequests: CollectedInteractionRequest[] = []
+  const installGlobally = opts.installGlobally ?? true
+
+  let invocation: Invocation | undefined
+
+  const currentInvocation = (hook: string) => {
+    if (!invocation) {
+      throw new Error(`${hook} can only be used during the execution of a MentalProcess`)
+    }
+    return invocation
+  }
+
+  const onInteractionRequest = opts.onInteractionRequest ?? (async ({ content, ...request }) => {
+    const collected: CollectedInteractionRequest = { ...request, content: "" }
+    interactionRequests.push(collected)
+    collected.content = await readContent(content)
+  })
+
+  const interactionRequest = (hook: string, request: DeveloperInteractionRequest) => {
+    const { pendingActions, delivered, signal } = currentInvocation(hook)
+    const interaction: DeliveredInteraction = {
+      action: request.action,
+      content: typeof request.content === "string" ? request.content : "",
+      interrupted: false,
+    }
+    delivered.push(interaction)
+    if (signal && typeof request.content !== "string") {
+      // hosts copy the request, so they all share this _metadata object that is marked when the speech is interrupted.
+      request._metadata = { ...request._metadata }
+      request.content = interruptibleContent(request.content, request, interaction, signal)
+    }
+
+    const result = onInteractionRequest(request)
+    if (result) {
+      pendingActions.push(result)
+    }
+  }
+
+  const hooks: SoulHooks = {
+    useActions: () => ({
+      expire: () => {
+        state.expired = true
+        opts.onExpire?.()
+      },
+      log: (...args: any[]) => {
+        if (opts.onLog) {
+          opts.onLog(...args)
+          return
+        }
+        console.log(...args)
+      },
+      speak: (message) => {
+        interactionRequest("speak", {
+          action: "says",
+          content: message,
+          name: opts.soulName,
+        })
+      },
+      dispatch: (evt) => {
+        interactionRequest("dispatch", evt)
+      },
+      scheduleEvent: async (evt) => {
+        if (!opts.scheduleEvent) {
+          return notConfigured("scheduleEvent")()
+        }
+        return opts.scheduleEvent(evt)
+      },
+    }),
+    useProcessManager: () => ({
+      invocationCount: state.invocationCount,
+      setNextProcess: (process, params) => {
+        state.nextProcess = { process, params }
+      },
+      wait: (ms) => abortableWait(ms, invocation?.signal, opts.wait),
+      previousMentalProcess: state.previousMentalProcess,
+      cancelScheduledEvent: async (eventId) => {
+        if (!opts.cancelScheduledEvent) {
+          return notConfigured("cancelScheduledEvent")()
+        }
+        return opts.cancelScheduledEvent(eventId)
+      },
+      pendingScheduledEvents: state.pendingScheduledEvents,
+    }),
+    usePerceptions: () => ({
+      invokingPerception: invocation?.perception,
+      pendingPerceptions: {
+        current: state.pendingPerceptions,
+      },
+    }),
+    useProcessMemory: <T = null>(initialValue: T) => {
+      const current = currentInvocation("useProcessMemory")
+      const processName = current.process.name
+      state.processMemories[processName] ||= []
+      const memories = state.processMemories[processName]
+
+      const index = current.processMemoryIndex
+      current.processMemoryIndex += 1
+
+      memories[index] ||= { current: initialValue }
+      return memories[index] as { current: T }
+    },
+    useSoulMemory: <T = null>(name: string, initialValue?: T) => {
+      state.soulMemories[name] ||= { current: initialValue ?? null }
+      return state.soulMemories[name] as { current: T }
+    },
+    useSoulStore: opts.useSoulStore ?? notConfigured("useSoulStore"),
+    useBlueprintStore: opts.useBlueprintStore ?? notConfigured("useBlueprintStore"),
+    useOrganizationStore: opts.useOrganizationStore ?? notConfigured("useOrganizationStore"),
+    useRag: opts.useRag ?? notConfigured("useRag"),
+    useTool: <ParamType, ResponseType>(name: string, toolOpts?: UseToolOpts) => {
+      const signal = toolOpts?.signal ?? invocation?.signal
+      return (params?: ParamType) => {
+        if (!opts.callTool) {
+          return notConfigured("useTool")()
+        }
+        return opts.callTool(name, params, { ...toolOpts, ...(signal && { signal }) }) as Promise<ResponseType>
+      }
+    },
+  }
+
+  const withGlobalHooks = async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (!installGlobally) {
+      return fn()
+    }
+
+    const globalScope = globalThis as any
+    const previousSoul = globalScope.soul
+    globalScope.soul = { env: {} as Record<string, Json>, ...previousSoul, __hooks: hooks }
+    try {
+      return await fn()
+    } finally {
+      globalScope.soul = previousSoul
+    }
+  }
+
+  const invoke: SoulHooksRuntime["invoke"] = async (process, { params, perception, subprocess, signal, workingMemory }) => {
+    if (invocation) {
+      throw new Error("a MentalProcess is already executing on this soul hooks runtime")
+    }
+
+    if (!subprocess && process !== state.currentProcess) {
+      if (state.currentProcess) {
+        state.previousMentalProcess = state.currentProcess
+      }
+      state.currentProcess = process
+      state.invocationCount = 0
+    }
+
+    const current: Invocation = {
+      process,
+      perception: perception ?? null,
+      processMemoryIndex: 0,
+      pendingActions: [],
+      delivered: [],
+      signal,
+    }
+    invocation = current
+
+    try {
+      return await withGlobalHooks(async () => {
+        try {
+          const result = await process({ params: params ?? {} as any, step: undefined, workingMemory })
+          await Promise.all(current.pendingActions)
+          signal?.throwIfAborted()
+          return result
+        } catch (err) {
+          if (!signal?.aborted) {
+            throw err
+          }
+          // an aborted step throws while its speech may still be streaming, that speech ends with the abort.
+          await Promise.allSettled(current.pendingActions)
+          throw new MentalProcessInterruptedError(process.name, current.delivered)
+        }
+      })
+    } finally {
+      invocation = undefined
+      if (!subprocess) {
+        state.invocationCount += 1
+      }
+    }
+  }
+
+  return {
+    hooks,
+    state,
+    interactionRequests,
+    invoke,
+  }
+}
@@ -0,0 +1,168 @@
+import type { Json, JsonRPCPair } from "@opensouls/core"
+import { ToolErrorCodes } from "@opensouls/soul"
+import type { UseToolOpts } from "./index.js"
+
+// a little longer than the ToolHandler's own default, so that a client's Timeout response wins.
+const DEFAULT_TIMEOUT = 60_000
+
+/**
+ * Codes used for failures on the engine side of a tool call (the client's ToolHandler uses ToolErrorCodes).
+ */
+export const ToolCallerErrorCodes = {
+  NoClient: -32002,
+  Timeout: ToolErrorCodes.Timeout,
+  Cancelled: ToolErrorCodes.Cancelled,
+} as const
+
+/**
+ * Thrown by `useTool` calls when the client responded with an error (or never responded at all).
+ */
+export class ToolCallError extends Error {
+  constructor(
+    readonly method: string,
+    readonly code: number,
+    message: string,
+    readonly data: Json = null,
+  ) {
+    super(message)
+    this.name = "ToolCallError"
+  }
+}
+
+/**
+ * The `pendingToolCalls` of an EventLogDoc, which is how tool calls travel between the engine and the
+ * ToolHandler of a connected `Soul`.
+ */
+export interface PendingToolCallsChannel {
+  calls: Record<string, JsonRPCPair>
+  /**
+   * calls the listener whenever the calls change and returns a function that stops listening.
+   */
+  observe(listener: () => void): () => void
+  /**
+   * whether any client (that could be running a ToolHandler) is connected. When this returns false
+   * calls fail right away instead of waiting for their timeout.
+   */
+  hasClient?: () => boolean
+}
+
+export interface ToolCallerOpts {
+  channel: PendingToolCallsChannel
+  /**
+   * the default timeout (in milliseconds) of a call, defaults to 60 seconds.
+   */
+  timeout?: number
+}
+
+interface InFlightCall {
+  method: string
+  reject: (err: ToolCallError) => void
+}
+
+const randomId = () => {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * The engine side of `useTool`: writes JSON-RPC requests to the pendingToolCalls, waits for the
+ * response from the client and removes the pair again once the call completed, failed or timed out.
+ *
+ * @example
+ * ```ts
+ * const toolCaller = new ToolCaller({ channel })
+ * const runtime = createSoulHooksRuntime({ callTool: toolCaller.call })
+ * ```
+ */
+export class ToolCaller {
+  private channel: PendingToolCallsChannel
+  private timeout: number
+  private inFlight = new Map<string, InFlightCall>()
+
+  constructor({ channel, timeout }: ToolCallerOpts) {
+    this.channel = channel
+    this.timeout = timeout ?? DEFAULT_TIMEOUT
+  }
+
+  call = (method: string, params?: any, opts: UseToolOpts = {}): Promise<any> => {
+    if (this.channel.hasClient && !this.channel.hasClient()) {
+      return Promise.reject(new ToolCallError(method, ToolCallerErrorCodes.NoClient, `cannot call ${method}: no client is connected to handle tool calls`))
+    }
+
+    const cancelled = () => new ToolCallError(method, ToolCallerErrorCodes.Cancelled, `${method}: the tool call was aborted`)
+    if (opts.signal?.aborted) {
+      return Promise.reject(cancelled())
+    }
+
+    const id = randomId()
+    const timeout = opts.timeout ?? this.timeout
+    const { signal } = opts
+
+    return new Promise<any>((resolve, reject) => {
+      let stopObserving = () => {}
+
+      const onAbort = () => {
+        finish()
+        reject(cancelled())
+      }
+
+      const finish = () => {
+        clearTimeout(timer)
+        stopObserving()
+        signal?.removeEventListener("abort", onAbort)
+        this.inFlight.delete(id)
+        delete this.channel.calls[id]
+      }
+
+      const timer = setTimeout(() => {
+        finish()
+        reject(new ToolCallError(method, ToolCallerErrorCodes.Timeout, `${method} did not respond within ${timeout}ms`))
+      }, timeout)
+
+      this.inFlight.set(id, {
+        method,
+        reject: (err) => {
+          finish()
+          reject(err)
+        },
+      })
+
+      signal?.addEventListener("abort", onAbort)
+
+      stopObserving = this.channel.observe(() => {
+        const response = this.channel.calls[id]?.response
+        if (!response) {
+          return
+        }
+        // copy out of the (synced) document before the pair is removed.
+        const { error, result } = JSON.parse(JSON.stringify(response))
+        finish()
+        if (error) {
+          reject(new ToolCallError(method, error.code, error.message, error.data ?? null))
+          return
+        }
+        resolve(result)
+      })
+
+      this.channel.calls[id] = JSON.parse(JSON.stringify({ request: { id, method, params: params ?? null } }))
+    })
+  }
+
+  /**
+   * the number of calls still waiting for a response.
+   */
+  get pending() {
+    return this.inFlight.size
+  }
+
+  /**
+   * fails every call still waiting for a response (eg. when the last client disconnected).
+   */
+  cancelAll(reason = "the tool call was cancelled") {
+    for (const { method, reject } of [...this.inFlight.values()]) {
+      reject(new ToolCallError(method, ToolCallerErrorCodes.Cancelled, `${method}: ${reason}`))
+    }
+  }
+}
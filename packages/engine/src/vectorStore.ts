@@ -0,0 +1,377 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import type { Json } from "@opensouls/core"
+import type {
+  Embedding,
+  RagSearchOpts,
+  SoulHooks,
+  SoulStoreGetOpts,
+  SoulVectorStoreHook,
+  VectorMetadata,
+  VectorRecord,
+  VectorRecordWithDistance,
+  VectorStorSearchOpts,
+} from "./index.js"
+import { defaultRagBucketName } from "./index.js"
+import { withRagContext } from "./ragContext.js"
+
+const DEFAULT_RESULT_LIMIT = 10
+const DEFAULT_BUCKET = "default"
+
+export interface EmbeddingProvider {
+  /**
+   * the model used when no model is passed to #embed.
+   */
+  readonly model: string
+  embed(content: string, model?: string): Promise<Embedding>
+}
+
+export interface HashingEmbedderOpts {
+  dimensions?: number
+}
+
+// FNV-1a, good enough to spread features over the buckets of the embedding and stable across runs.
+const hash = (str: string) => {
+  let h = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * A deterministic, offline embedder using the hashing trick over words and character trigrams.
+ * It knows nothing about meaning, but texts sharing vocabulary end up close to each other, which is enough
+ * for local development and tests. Use a real EmbeddingProvider for anything else.
+ */
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly model: string
+  private dimensions: number
+
+  constructor({ dimensions = 256 }: HashingEmbedderOpts = {}) {
+    this.dimensions = dimensions
+    this.model = `hashing-${dimensions}`
+  }
+
+  async embed(content: string): Promise<Embedding> {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+    const addFeature = (feature: string, weight: number) => {
+      const h = hash(feature)
+      // the sign bit keeps collisions from only ever adding up.
+      vector[h % this.dimensions] += (h & 0x80000000) ? -weight : weight
+    }
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1)
+      const padded = `^${word}$`
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.5)
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm === 0 ? vector : vector.map((value) => value / norm)
+  }
+}
+
+export const cosineSimilarity = (a: Embedding, b: Embedding) => {
+  if (a.length !== b.length) {
+    throw new Error(`cannot compare embeddings of different dimensions (${a.length} and ${b.length})`)
+  }
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) {
+    return 0
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+const matchesFilter = (metadata: VectorMetadata, filter?: VectorMetadata) => {
+  if (!filter) {
+    return true
+  }
+  return Object.entries(filter).every(([key, value]) => JSON.stringify(metadata[key]) === JSON.stringify(value))
+}
+
+const contentToEmbed = (content: Json) => typeof content === "string" ? content : JSON.stringify(content)
+
+export interface StoredVectorRecord extends VectorRecord {
+  embedding: Embedding
+}
+
+/**
+ * A single bucket of a LocalVectorStore. It implements the VectorStoreHook (and the deprecated `get` of the
+ * SoulVectorStoreHook). Writes are queued, so a `set` followed by a `search` always sees the new record.
+ */
+export class VectorBucket implements SoulVectorStoreHook {
+  private records = new Map<string, StoredVectorRecord>()
+  private operations: Promise<void>
+  private writeError?: unknown
+  private loaded = false
+
+  constructor(
+    readonly name: string,
+    private embedder: EmbeddingProvider,
+    private storage?: VectorStoreStorage,
+  ) {
+    this.operations = this.load()
+  }
+
+  createEmbedding = (content: string, model?: string) => {
+    return this.embedder.embed(content, model)
+  }
+
+  set = (key: string, content: Json, metadata: VectorMetadata = {}, model?: string) => {
+    this.enqueue(async () => {
+      const embedding = await this.createEmbedding(contentToEmbed(content), model)
+      this.records.set(key, { key, content, metadata, embedding })
+    })
+  }
+
+  remove = (key: string) => {
+    this.enqueue(async () => {
+      this.records.delete(key)
+    })
+  }
+
+  /**
+   * @deprecated Use remove instead. 'delete' is a reserved word in JavaScript.
+   */
+  delete = (key: string) => this.remove(key)
+
+  /**
+   * removes every record matching the metadata filter.
+   */
+  removeWhere = (filter: VectorMetadata) => {
+    this.enqueue(async () => {
+      for (const [key, record] of this.records) {
+        if (matchesFilter(record.metadata, filter)) {
+          this.records.delete(key)
+        }
+      }
+    })
+  }
+
+  fetch: SoulVectorStoreHook["fetch"] = async (key: string, opts?: SoulStoreGetOpts): Promise<any> => {
+    await this.operations
+    return this.read(key, opts)
+  }
+
+  /**
+   * @deprecated use fetch instead
+   */
+  get = <T = unknown>(key: string, opts?: SoulStoreGetOpts): any => {
+    if (!this.loaded) {
+      console.warn(`store ${this.name} is still loading, use fetch instead of get.`)
+    }
+    return this.read(key, opts) as T
+  }
+
+  search = async (query: Embedding | string, opts: VectorStorSearchOpts = {}): Promise<VectorRecordWithDistance[]> => {
+    await this.operations
+
+    const queryEmbedding = typeof query === "string" ? await this.createEmbedding(query, opts.model) : query
+
+    const results: VectorRecordWithDistance[] = []
+    for (const record of this.records.values()) {
+      if (!matchesFilter(record.metadata, opts.filter)) {
+        continue
+      }
+      const similarity = cosineSimilarity(queryEmbedding, record.embedding)
+      const distance = 1 - similarity
+      if (opts.maxDistance !== undefined && distance > opts.maxDistance) {
+        continue
+      }
+      if (opts.minSimilarity !== undefined && similarity < opts.minSimilarity) {
+        continue
+      }
+      results.push({ ...record, distance, similarity })
+    }
+
+    return results
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, opts.resultLimit ?? DEFAULT_RESULT_LIMIT)
+  }
+
+  /**
+   * every record in the bucket (including embeddings).
+   */
+  async all(): Promise<VectorRecord[]> {
+    await this.operations
+    return [...this.records.values()].map((record) => ({ ...record }))
+  }
+
+  /**
+   * resolves once every write so far has been applied (and persisted). Rejects with the error of a write
+   * that failed since the last flush.
+   */
+  async flush() {
+    await this.operations
+    const err = this.writeError
+    if (err) {
+      this.writeError = undefined
+      throw err
+    }
+  }
+
+  private read(key: string, opts?: SoulStoreGetOpts) {
+    const record = this.records.get(key)
+    if (!record) {
+      return undefined
+    }
+    return opts?.includeMetadata ? { ...record } : record.content
+  }
+
+  private enqueue(fn: () => Promise<void>) {
+    this.operations = this.operations
+      .then(fn)
+      .then(() => this.storage?.save(this.name, [...this.records.values()]))
+      .catch((err) => {
+        this.writeError = err
+      })
+  }
+
+  private async load() {
+    try {
+      const records = await this.storage?.load(this.name) ?? []
+      for (const record of records) {
+        this.records.set(record.key, record)
+      }
+    } catch (err) {
+      console.error(`error loading store ${this.name}`, err)
+    } finally {
+      this.loaded = true
+    }
+  }
+}
+
+export interface VectorStoreStorage {
+  load(bucket: string): Promise<StoredVectorRecord[]>
+  save(bucket: string, records: StoredVectorRecord[]): Promise<void>
+}
+
+/**
+ * stores every bucket as a JSON file in a directory.
+ */
+export class JsonFileVectorStoreStorage implements VectorStoreStorage {
+  constructor(private directory: string) {}
+
+  async load(bucket: string): Promise<StoredVectorRecord[]> {
+    try {
+      return JSON.parse(await readFile(this.filePath(bucket), "utf8"))
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        return []
+      }
+      throw err
+    }
+  }
+
+  async save(bucket: string, records: StoredVectorRecord[]) {
+    const filePath = this.filePath(bucket)
+    await mkdir(dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.tmp`
+    await writeFile(tmpPath, JSON.stringify(records))
+    await rename(tmpPath, filePath)
+  }
+
+  private filePath(bucket: string) {
+    // bucket names are scoped with "/" (see LocalVectorStore), every segment becomes a directory.
+    const segments = bucket.split("/").map((segment) => encodeURIComponent(segment))
+    return `${join(this.directory, ...segments)}.json`
+  }
+}
+
+export interface LocalVectorStoreOpts {
+  /**
+   * when set, every bucket is persisted as a JSON file in this directory. Otherwise the store is in memory only.
+   */
+  directory?: string
+  embedder?: EmbeddingProvider
+}
+
+export interface VectorStoreScope {
+  organization: string
+  blueprint: string
+  soulId: string
+}
+
+/**
+ * An embedded vector store (cosine distance, metadata filtering) that backs the store hooks when
+ * running outside of the hosted SOUL ENGINE.
+ */
+export class LocalVectorStore {
+  readonly embedder: EmbeddingProvider
+  private storage?: VectorStoreStorage
+  private buckets = new Map<string, VectorBucket>()
+
+  constructor({ directory, embedder }: LocalVectorStoreOpts = {}) {
+    this.embedder = embedder ?? new HashingEmbedder()
+    this.storage = directory ? new JsonFileVectorStoreStorage(directory) : undefined
+  }
+
+  bucket(name: string) {
+    let bucket = this.buckets.get(name)
+    if (!bucket) {
+      bucket = new VectorBucket(name, this.embedder, this.storage)
+      this.buckets.set(name, bucket)
+    }
+    return bucket
+  }
+
+  soulBucket({ organization, blueprint, soulId }: VectorStoreScope) {
+    return this.bucket(`souls/${organization}/${blueprint}/${soulId}`)
+  }
+
+  blueprintBucket(organization: string, blueprint: string, bucketName = DEFAULT_BUCKET) {
+    return this.bucket(`blueprints/${organization}/${blueprint}/${bucketName}`)
+  }
+
+  organizationBucket(organization: string, bucketName = DEFAULT_BUCKET) {
+    return this.bucket(`organizations/${organization}/${bucketName}`)
+  }
+
+  /**
+   * RAG buckets are organization buckets (that is where `soul-engine rag push` ingests into), named
+   * after the blueprint unless the rag.json of the blueprint says otherwise.
+   */
+  ragBucket(organization: string, blueprint: string, bucketName?: string) {
+    return this.organizationBucket(organization, bucketName ?? defaultRagBucketName(blueprint))
+  }
+
+  /**
+   * the store hooks for a single soul, meant to be passed to createSoulHooksRuntime.
+   */
+  hooksFor(scope: VectorStoreScope): Pick<SoulHooks, "useSoulStore" | "useBlueprintStore" | "useOrganizationStore" | "useRag"> {
+    return {
+      useSoulStore: () => this.soulBucket(scope),
+      useBlueprintStore: (bucketName?: string) => this.blueprintBucket(scope.organization, scope.blueprint, bucketName),
+      useOrganizationStore: (bucketName?: string) => this.organizationBucket(scope.organization, bucketName),
+      useRag: (bucketName?: string) => {
+        const search = ({ query, limit, maxDistance, bucketName: searchBucket }: RagSearchOpts) => {
+          return this.ragBucket(scope.organization, scope.blueprint, searchBucket ?? bucketName).search(query, {
+            resultLimit: limit,
+            maxDistance,
+          })
+        }
+        return {
+          search,
+          withRagContext: async (step, opts) => withRagContext(step, search, opts),
+        }
+      },
+    }
+  }
+
+  async flush() {
+    await Promise.all([...this.buckets.values()].map((bucket) => bucket.flush()))
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  ChatMessageRoleEnum,
+  MemoryIntegratorReturnTypes,
+  MentalProcess,
+  Perception,
+  ProcessRunner,
+  SoulEventKinds,
+  WorkingMemory,
+  createMemoryIntegrator,
+  defaultMemoryIntegrator,
+  useActions,
+} from "../src/index.js";
+
+const soul = { name: "Samantha", staticMemories: { core: "You are Samantha.", persona: "You are a pirate." } }
+
+const workingMemory = new WorkingMemory({
+  soulName: "Samantha",
+  memories: [{ role: ChatMessageRoleEnum.Assistant, content: "earlier" }],
+})
+
+const listens: MentalProcess = async ({ workingMemory }) => workingMemory
+
+const perception = (content: string, action = "said", overrides: Partial<Perception> = {}): Perception => ({
+  _id: `perception-${content}`,
+  _kind: SoulEventKinds.Perception,
+  _timestamp: Date.now(),
+  internal: false,
+  action,
+  content,
+  name: "Jo Smith",
+  ...overrides,
+})
+
+const integrate = async (integrator = defaultMemoryIntegrator, perceived = perception("hi"), memory = workingMemory) => {
+  const result = await integrator({ perception: perceived, currentProcess: listens, workingMemory: memory, soul })
+  return result as Exclude<MemoryIntegratorReturnTypes, undefined>
+}
+
+describe("createMemoryIntegrator", () => {
+  it("adds perceptions as user memories and keeps the core memory in its region", async () => {
+    const [integrated, process] = await integrate()
+    const [again] = await integrate(defaultMemoryIntegrator, perception("still there?"), integrated)
+
+    expect(process).to.equal(listens)
+    expect(again.memories.map(({ role, content, region, name }) => ({ role, content, region, name }))).to.deep.equal([
+      { role: ChatMessageRoleEnum.System, content: "You are Samantha.", region: "core", name: undefined },
+      { role: ChatMessageRoleEnum.Assistant, content: "earlier", region: undefined, name: undefined },
+      { role: ChatMessageRoleEnum.User, content: 'Jo Smith said: "hi"', region: undefined, name: "Jo_Smith" },
+      { role: ChatMessageRoleEnum.User, content: 'Jo Smith said: "still there?"', region: undefined, name: "Jo_Smith" },
+    ])
+  })
+
+  it("adds internal perceptions as the soul's own memories", async () => {
+    const [integrated] = await integrate(defaultMemoryIntegrator, perception("remember to follow up", "reminded", { internal: true }))
+
+    const last = integrated.memories.at(integrated.memories.length - 1)
+    expect(last?.role).to.equal(ChatMessageRoleEnum.Assistant)
+    expect(last?.name).to.be.undefined
+  })
+
+  it("formats actions with their own formatters", async () => {
+    const integrator = createMemoryIntegrator({
+      actions: {
+        joined: (perception) => `${perception.name} joined the room.`,
+        typing: () => undefined,
+        shared: (perception) => ({ role: ChatMessageRoleEnum.System, content: `a link: ${perception.content}` }),
+      },
+      formatPerception: (perception) => `${perception.name} (${perception.action}) ${perception.content}`,
+    })
+
+    let [memory] = await integrate(integrator, perception("", "joined"))
+    ;[memory] = await integrate(integrator, perception("", "typing"), memory)
+    ;[memory] = await integrate(integrator, perception("https://opensouls.org", "shared"), memory)
+    ;[memory] = await integrate(integrator, perception("hi", "said"), memory)
+
+    expect(memory.memories.slice(2).map((m) => m.content)).to.deep.equal([
+      "Jo Smith joined the room.",
+      "a link: https://opensouls.org",
+      "Jo Smith (said) hi",
+    ])
+  })
+
+  it("uses the configured static memory and region order", async () => {
+    const integrator = createMemoryIntegrator({ coreMemory: "persona", regionOrder: ["core", "summary", "default"] })
+    const withSummary = workingMemory.withRegion("summary", { role: ChatMessageRoleEnum.System, content: "the story so far" })
+
+    const [integrated] = await integrate(integrator, perception("hi"), withSummary)
+
+    expect(integrated.memories.map((m) => m.content)).to.deep.equal([
+      "You are a pirate.",
+      "the story so far",
+      "earlier",
+      'Jo Smith said: "hi"',
+    ])
+  })
+
+  it("switches processes with selectProcess", async () => {
+    const emergency: MentalProcess<{ urgent: boolean }> = async ({ workingMemory, params }) => {
+      useActions().speak(params.urgent ? "on my way!" : "coming")
+      return workingMemory
+    }
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      useActions().speak("hello")
+      return workingMemory
+    }
+
+    const memoryIntegrator = createMemoryIntegrator({
+      selectProcess: ({ perception }) => perception.action === "emergency" ? { process: emergency, params: { urgent: true } } : undefined,
+    })
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess, memoryIntegrator })
+    await runner.dispatch(perception("hi"))
+    await runner.dispatch(perception("help!", "emergency"))
+
+    expect(runner.runtime.interactionRequests.map((req) => req.content)).to.deep.equal(["hello", "on my way!"])
+    expect(runner.currentProcess).to.equal(emergency)
+  })
+})
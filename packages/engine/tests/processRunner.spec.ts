@@ -0,0 +1,443 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  ChatMessageRoleEnum,
+  MemoryIntegrator,
+  MentalProcess,
+  MockProcessor,
+  Perception,
+  ProcessRunner,
+  SoulEventKinds,
+  WorkingMemory,
+  createCognitiveStep,
+  createSoulHooksRuntime,
+  useActions,
+  useProcessManager,
+  usePerceptions,
+} from "../src/index.js";
+
+const soul = { name: "Samantha", staticMemories: { core: "You are Samantha." } }
+
+const workingMemory = new WorkingMemory({
+  soulName: "Samantha",
+  memories: [{ role: ChatMessageRoleEnum.System, content: "You are Samantha." }],
+})
+
+let perceptionCount = 0
+
+const perception = (content: string, action = "said"): Perception => ({
+  _id: `perception-${perceptionCount++}`,
+  _kind: SoulEventKinds.Perception,
+  _timestamp: Date.now(),
+  internal: false,
+  action,
+  content,
+  name: "friend",
+})
+
+const said = (runner: ProcessRunner) => runner.runtime.interactionRequests.map((req) => req.content)
+
+describe("ProcessRunner", () => {
+  it("integrates perceptions into working memory by default", async () => {
+    const listens: MentalProcess = async ({ workingMemory }) => workingMemory
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess: listens })
+    await runner.dispatch(perception("hi"))
+
+    expect(runner.workingMemory.memories.map((memory) => memory.content)).to.deep.equal([
+      "You are Samantha.",
+      'friend said: "hi"',
+    ])
+  })
+
+  it("transitions to the returned process on the next perception", async () => {
+    const chatting: MentalProcess<{ topic: string }> = async ({ workingMemory, params }) => {
+      useActions().speak(`chatting about ${params.topic} (${useProcessManager().invocationCount})`)
+      return workingMemory
+    }
+
+    const introduction: MentalProcess = async ({ workingMemory }) => {
+      useActions().speak("nice to meet you")
+      return [workingMemory, chatting, { params: { topic: "cheese" } }]
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess: introduction })
+    await runner.dispatch(perception("hi"))
+    expect(runner.currentProcess).to.equal(chatting)
+    expect(runner.invocationCount).to.equal(0)
+
+    await runner.dispatch(perception("what's up?"))
+    await runner.dispatch(perception("and then?"))
+
+    expect(said(runner)).to.deep.equal([
+      "nice to meet you",
+      "chatting about cheese (0)",
+      "chatting about cheese (1)",
+    ])
+    expect(runner.previousMentalProcess).to.equal(introduction)
+    expect(runner.invocationCount).to.equal(2)
+  })
+
+  it("re-enters immediately with executeNow", async () => {
+    const answers: MentalProcess<{ question: string }> = async ({ workingMemory, params }) => {
+      const { invokingPerception } = usePerceptions()
+      useActions().speak(`answering ${params.question} after ${invokingPerception?.content}`)
+      return workingMemory
+    }
+
+    const introduction: MentalProcess = async ({ workingMemory }) => {
+      return [workingMemory, answers, { params: { question: "why" }, executeNow: true }]
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess: introduction })
+    await runner.dispatch(perception("hi"))
+
+    expect(said(runner)).to.deep.equal(["answering why after hi"])
+    expect(runner.currentProcess).to.equal(answers)
+  })
+
+  it("applies the params of a transition to the same process", async () => {
+    const counts: MentalProcess<{ count: number }> = async ({ workingMemory, params }) => {
+      const count = params?.count ?? 0
+      useActions().speak(`count ${count}`)
+      return [workingMemory, counts, { params: { count: count + 1 } }]
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess: counts })
+    await runner.dispatch(perception("one"))
+    await runner.dispatch(perception("two"))
+
+    expect(said(runner)).to.deep.equal(["count 0", "count 1"])
+    expect(runner.currentParams).to.deep.equal({ count: 2 })
+  })
+
+  it("supports the deprecated setNextProcess", async () => {
+    const next: MentalProcess = async ({ workingMemory }) => workingMemory
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      useProcessManager().setNextProcess(next)
+      return workingMemory
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess })
+    await runner.dispatch(perception("hi"))
+
+    expect(runner.currentProcess).to.equal(next)
+  })
+
+  it("lets the memoryIntegrator switch processes", async () => {
+    const emergency: MentalProcess<any> = async ({ workingMemory }) => {
+      useActions().speak("on my way!")
+      return workingMemory
+    }
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      useActions().speak("hello")
+      return workingMemory
+    }
+
+    const memoryIntegrator: MemoryIntegrator = ({ perception, workingMemory, soul }) => {
+      const memory = workingMemory.withMemory({ role: ChatMessageRoleEnum.User, content: `${soul.name} heard ${perception.content}` })
+      if (perception.action === "emergency") {
+        return [memory, emergency]
+      }
+      return [memory]
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess, memoryIntegrator })
+    await runner.dispatch(perception("hi"))
+    await runner.dispatch(perception("help!", "emergency"))
+
+    expect(said(runner)).to.deep.equal(["hello", "on my way!"])
+    expect(runner.workingMemory.memories.at(-1)?.content).to.equal("Samantha heard help!")
+  })
+
+  it("serializes overlapping perceptions and exposes the pending ones", async () => {
+    const pendingDuringFirst: string[] = []
+
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      const { invokingPerception, pendingPerceptions } = usePerceptions()
+      if (invokingPerception?.content === "first") {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        pendingDuringFirst.push(...pendingPerceptions.current.map((pending) => pending.content))
+      }
+      useActions().speak(`heard ${invokingPerception?.content}`)
+      return workingMemory
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess })
+    runner.dispatch(perception("first"))
+    runner.dispatch(perception("second"))
+    runner.dispatch(perception("third"))
+    await runner.idle()
+
+    expect(said(runner)).to.deep.equal(["heard first", "heard second", "heard third"])
+    expect(pendingDuringFirst).to.deep.equal(["second", "third"])
+    expect(runner.pendingPerceptions).to.be.empty
+  })
+
+  it("keeps handling perceptions after an error", async () => {
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      const { invokingPerception } = usePerceptions()
+      if (invokingPerception?.content === "boom") {
+        throw new Error("boom")
+      }
+      useActions().speak("still here")
+      return workingMemory
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess })
+    const failed = runner.dispatch(perception("boom"))
+    const succeeded = runner.dispatch(perception("hello?"))
+
+    let error: Error | undefined
+    await failed.catch((err) => { error = err })
+    await succeeded
+
+    expect(error?.message).to.equal("boom")
+    expect(said(runner)).to.deep.equal(["still here"])
+  })
+
+  it("runs subprocesses after the main process", async () => {
+    const order: string[] = []
+
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      order.push("main")
+      return workingMemory
+    }
+
+    const summarizes: MentalProcess = async ({ workingMemory }) => {
+      order.push(`subprocess ${useProcessManager().invocationCount}`)
+      return workingMemory.withMemory({ role: ChatMessageRoleEnum.Assistant, content: "summary" })
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess, subprocesses: [summarizes] })
+    await runner.dispatch(perception("hi"))
+    await runner.idle()
+
+    expect(order).to.deep.equal(["main", "subprocess 1"])
+    expect(runner.workingMemory.memories.at(-1)?.content).to.equal("summary")
+    expect(runner.currentProcess).to.equal(initialProcess)
+  })
+
+  it("does not wait for subprocesses before a perception counts as handled", async () => {
+    let finishSubprocess = () => {}
+
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      useActions().speak("hello!")
+      return workingMemory
+    }
+
+    const remembers: MentalProcess = async ({ workingMemory }) => {
+      await new Promise<void>((resolve) => { finishSubprocess = resolve })
+      return workingMemory.withMemory({ role: ChatMessageRoleEnum.Assistant, content: "remembered" })
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess, subprocesses: [remembers] })
+    await runner.dispatch(perception("hi"))
+
+    expect(said(runner)).to.deep.equal(["hello!"])
+    expect(runner.subprocessesRunning).to.be.true
+
+    finishSubprocess()
+    await runner.idle()
+
+    expect(runner.subprocessesRunning).to.be.false
+    expect(runner.workingMemory.memories.at(runner.workingMemory.memories.length - 1)?.content).to.equal("remembered")
+  })
+
+  it("cancels running subprocesses when a new perception arrives", async () => {
+    const order: string[] = []
+
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      order.push(`main ${usePerceptions().invokingPerception?.content}`)
+      return workingMemory
+    }
+
+    const ponders: MentalProcess = async ({ workingMemory }) => {
+      const content = usePerceptions().invokingPerception?.content
+      order.push(`ponders ${content}`)
+      await useProcessManager().wait(content === "first" ? 10_000 : 0)
+      return workingMemory.withMemory({ role: ChatMessageRoleEnum.Assistant, content: `pondered ${content}` })
+    }
+
+    const summarizes: MentalProcess = async ({ workingMemory }) => {
+      order.push(`summarizes ${usePerceptions().invokingPerception?.content}`)
+      return workingMemory
+    }
+
+    const errors: unknown[] = []
+    const runner = new ProcessRunner({
+      soul,
+      workingMemory,
+      initialProcess,
+      subprocesses: [ponders, summarizes],
+      onSubprocessError: (err) => errors.push(err),
+    })
+    await runner.dispatch(perception("first"))
+    await runner.dispatch(perception("second"))
+    await runner.idle()
+
+    expect(order).to.deep.equal(["main first", "ponders first", "main second", "ponders second", "summarizes second"])
+    expect(runner.workingMemory.memories.map((m) => m.content)).to.not.include("pondered first")
+    expect(runner.workingMemory.memories.map((m) => m.content)).to.include("pondered second")
+    expect(errors).to.have.length(0)
+  })
+
+  it("reports subprocess errors without failing the perception", async () => {
+    const initialProcess: MentalProcess = async ({ workingMemory }) => workingMemory
+
+    const fails: MentalProcess = async () => {
+      throw new Error("subprocess failed")
+    }
+
+    const remembers: MentalProcess = async ({ workingMemory }) => {
+      return workingMemory.withMemory({ role: ChatMessageRoleEnum.Assistant, content: "remembered" })
+    }
+
+    const errors: Error[] = []
+    const runner = new ProcessRunner({
+      soul,
+      workingMemory,
+      initialProcess,
+      subprocesses: [fails, remembers],
+      onSubprocessError: (err) => errors.push(err as Error),
+    })
+    await runner.dispatch(perception("hi"))
+    await runner.idle()
+
+    expect(errors.map((err) => err.message)).to.deep.equal(["subprocess failed"])
+    expect(runner.workingMemory.memories.at(runner.workingMemory.memories.length - 1)?.content).to.equal("remembered")
+  })
+
+  it("interrupts speech when a new perception arrives", async () => {
+    const mock = new MockProcessor({
+      responses: [
+        { response: "Let me tell you about cheese", chunks: ["Let me ", "tell you ", "about cheese"], chunkDelay: 10 },
+        { response: "Oh, sorry!", chunks: ["Oh, ", "sor", "ry!"] },
+      ],
+    })
+
+    const talk = createCognitiveStep((instructions: string) => ({
+      command: instructions,
+      postProcess: async (memory: WorkingMemory, response: string) => [
+        { role: ChatMessageRoleEnum.Assistant, content: `${memory.soulName} said: "${response}"` },
+        response,
+      ],
+    }))
+
+    const chats: MentalProcess = async ({ workingMemory }) => {
+      const [withDialog, stream] = await talk(workingMemory, "Say something.", { stream: true })
+      useActions().speak(stream)
+      return withDialog
+    }
+
+    let firstChunk = () => {}
+    const firstChunkDelivered = new Promise<void>((resolve) => { firstChunk = resolve })
+
+    const requests: { content: string, interrupted?: boolean }[] = []
+    const runtime = createSoulHooksRuntime({
+      soulName: soul.name,
+      onInteractionRequest: async ({ content, _metadata }) => {
+        const request = { content: "" }
+        requests.push(request)
+        for await (const chunk of content) {
+          request.content += chunk
+          firstChunk()
+        }
+        Object.assign(request, { interrupted: _metadata?.interrupted })
+      },
+    })
+
+    const runner = new ProcessRunner({
+      soul,
+      runtime,
+      workingMemory: new WorkingMemory({
+        soulName: "Samantha",
+        processor: mock.specification,
+        memories: workingMemory.memories,
+      }),
+      initialProcess: chats,
+      interruptionPolicy: "always",
+    })
+
+    const interrupted = runner.dispatch(perception("hi"))
+    await firstChunkDelivered
+    await runner.dispatch(perception("wait, I'm allergic"))
+    await interrupted
+
+    expect(requests).to.deep.equal([
+      { content: "Let me ", interrupted: true },
+      { content: "Oh, sorry!", interrupted: undefined },
+    ])
+    expect(runner.workingMemory.memories.map((m) => m.content)).to.deep.equal([
+      "You are Samantha.",
+      'friend said: "hi"',
+      'Samantha said: "Let me "',
+      `friend said: "wait, I'm allergic"`,
+      'Samantha said: "Oh, sorry!"',
+    ])
+    expect(runner.workingMemory.memories[2].metadata).to.deep.equal({ interrupted: true })
+    expect(runner.workingMemory.signal).to.be.undefined
+  })
+
+  it("lets the interruptionPolicy decide which perceptions interrupt", async () => {
+    const waits: MentalProcess = async ({ workingMemory }) => {
+      await useProcessManager().wait(20)
+      useActions().speak(`done with ${usePerceptions().invokingPerception?.content}`)
+      return workingMemory
+    }
+
+    const runner = new ProcessRunner({
+      soul,
+      workingMemory,
+      initialProcess: waits,
+      interruptionPolicy: (_running, incoming) => incoming.action !== "typing",
+    })
+
+    runner.dispatch(perception("first"))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    runner.dispatch(perception("...", "typing"))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await runner.dispatch(perception("second"))
+
+    expect(said(runner)).to.deep.equal(["done with ...", "done with second"])
+  })
+
+  it("does not keep perceptions pending when the interruptionPolicy throws", async () => {
+    const waits: MentalProcess = async ({ workingMemory }) => {
+      await useProcessManager().wait(20)
+      return workingMemory
+    }
+
+    const runner = new ProcessRunner({
+      soul,
+      workingMemory,
+      initialProcess: waits,
+      interruptionPolicy: () => {
+        throw new Error("broken policy")
+      },
+    })
+
+    const first = runner.dispatch(perception("first"))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(() => runner.dispatch(perception("second"))).to.throw("broken policy")
+    expect(runner.pendingPerceptions).to.be.empty
+    await first
+  })
+
+  it("reloads processes in between perceptions", async () => {
+    const version = (label: string): MentalProcess => {
+      const initialProcess: MentalProcess = async ({ workingMemory }) => {
+        useActions().speak(label)
+        return workingMemory
+      }
+      return initialProcess
+    }
+
+    const runner = new ProcessRunner({ soul, workingMemory, initialProcess: version("v1") })
+    runner.dispatch(perception("hi"))
+    runner.reload({ initialProcess: version("v2") })
+    await runner.dispatch(perception("hi again"))
+
+    expect(said(runner)).to.deep.equal(["v1", "v2"])
+  })
+})
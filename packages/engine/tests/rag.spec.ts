@@ -0,0 +1,194 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { ChatMessageRoleEnum, LocalVectorStore, WorkingMemory, chunkRagContent, countTokens, createSoulHooksRuntime, ingestRagBodies } from "../src/index.js";
+
+const base64 = (content: string) => Buffer.from(content, "utf8").toString("base64")
+
+describe("chunkRagContent", () => {
+  it("chunks markdown by heading", () => {
+    const chunks = chunkRagContent({
+      fileName: "guide.md",
+      content: [
+        "# Cooking",
+        "An intro.",
+        "## Pasta",
+        "Boil water.",
+        "```sh",
+        "# not a heading",
+        "```",
+        "## Rice",
+        "Rinse first.",
+      ].join("\n"),
+    })
+
+    expect(chunks.map((chunk) => chunk.section)).to.deep.equal(["Cooking", "Cooking > Pasta", "Cooking > Rice"])
+    expect(chunks[1].content).to.include("# not a heading")
+  })
+
+  it("chunks code by top level symbol", () => {
+    const chunks = chunkRagContent({
+      fileName: "math.ts",
+      content: [
+        "import { foo } from \"./foo.js\"",
+        "",
+        "// adds things",
+        "export const add = (a: number, b: number) => {",
+        "  const sum = a + b",
+        "  return sum",
+        "}",
+        "",
+        "export class Calculator {",
+        "  multiply(a: number, b: number) { return a * b }",
+        "}",
+      ].join("\n"),
+    })
+
+    expect(chunks.map((chunk) => chunk.section)).to.deep.equal([undefined, "add", "Calculator"])
+    expect(chunks[1].content).to.match(/^\/\/ adds things/)
+  })
+
+  it("chunks JSON by path", () => {
+    const content = JSON.stringify({
+      people: [
+        { name: "Alice", bio: "word ".repeat(40) },
+        { name: "Bob", bio: "word ".repeat(40) },
+      ],
+      version: 1,
+    })
+
+    const chunks = chunkRagContent({ fileName: "data.json", content, maxTokens: 60 })
+    expect(chunks.map((chunk) => chunk.section)).to.deep.equal(["$.people[0]", "$.people[1]", "$.version"])
+  })
+
+  it("never exceeds maxTokens", () => {
+    const content = Array.from({ length: 30 }, (_, i) => `Paragraph ${i} ${"lorem ipsum dolor ".repeat(i)}`).join("\n\n")
+    const chunks = chunkRagContent({ fileName: "notes.txt", content, maxTokens: 50 })
+
+    expect(chunks.length).to.be.greaterThan(1)
+    for (const chunk of chunks) {
+      expect(countTokens(chunk.content)).to.be.at.most(50)
+    }
+  })
+})
+
+describe("ingestRagBodies", () => {
+  it("replaces the chunks of a re-posted rootKey and skips unsupported files", async () => {
+    const store = new LocalVectorStore()
+    const bucket = store.organizationBucket("org", "__blueprint-rag-samantha")
+
+    await ingestRagBodies(bucket, [
+      { rootKey: "animals.md", content: base64("# Cats\nCats purr.\n# Dogs\nDogs bark."), metadata: { source: "cli" } },
+      { rootKey: "image.png", content: base64("not really a png") },
+    ])
+    expect((await bucket.all()).map((record) => record.key)).to.deep.equal(["animals.md::0", "animals.md::1"])
+
+    const results = await ingestRagBodies(bucket, [
+      { rootKey: "animals.md", content: base64("# Birds\nBirds sing.") },
+    ])
+    expect(results).to.deep.equal([{ rootKey: "animals.md", chunks: 1 }])
+
+    const records = await bucket.all()
+    expect(records).to.have.length(1)
+    expect(records[0].content).to.include("Birds sing.")
+    expect(records[0].metadata).to.deep.equal({ rootKey: "animals.md", chunkIndex: 0, section: "Birds" })
+  })
+
+  it("ingests nothing when a body does not have a positive integer maxTokens", async () => {
+    const bucket = new LocalVectorStore().organizationBucket("org", "__blueprint-rag-samantha")
+
+    for (const maxTokens of [0, 1.5]) {
+      let error: Error | undefined
+      await ingestRagBodies(bucket, [
+        { rootKey: "animals.md", content: base64("# Cats\nCats purr.") },
+        { rootKey: "birds.md", content: base64("# Birds\nBirds sing."), maxTokens },
+      ]).catch((err) => { error = err })
+
+      expect(error).to.be.instanceOf(RangeError)
+      expect(error?.message).to.equal("maxTokens of birds.md must be a positive integer")
+    }
+    expect(await bucket.all()).to.be.empty
+    expect(() => chunkRagContent({ content: "Cats purr.", maxTokens: 0 })).to.throw(RangeError)
+  })
+
+  it("is searchable through useRag", async () => {
+    const store = new LocalVectorStore()
+    await ingestRagBodies(store.organizationBucket("org", "__blueprint-rag-samantha"), [
+      { rootKey: "animals.md", content: base64("# Cats\nCats purr on warm laps.\n# Finance\nQuarterly revenue grew.") },
+    ])
+
+    const runtime = createSoulHooksRuntime({
+      installGlobally: false,
+      ...store.hooksFor({ organization: "org", blueprint: "samantha", soulId: "soul" }),
+    })
+
+    const [best] = await runtime.hooks.useRag().search({ query: "cats purring on laps", limit: 1 })
+    expect(best.metadata.section).to.equal("Cats")
+  })
+})
+
+describe("withRagContext", () => {
+  const soul = { organization: "org", blueprint: "samantha", soulId: "soul" }
+
+  const ingestAnimals = async (store: LocalVectorStore) => {
+    await ingestRagBodies(store.organizationBucket("org", "__blueprint-rag-samantha"), [
+      { rootKey: "animals.md", content: base64("# Cats\nCats purr on warm laps.\n# Dogs\nDogs fetch sticks in the park.\n# Finance\nQuarterly revenue grew.") },
+    ])
+  }
+
+  it("injects the closest hits into the rag region before calling the step", async () => {
+    const store = new LocalVectorStore()
+    await ingestAnimals(store)
+    const { useRag } = store.hooksFor(soul)
+
+    let seen: WorkingMemory | undefined
+    const step = async (memory: WorkingMemory, question: string) => {
+      seen = memory
+      return [memory, question.toUpperCase()] as const
+    }
+
+    const ragStep = await useRag().withRagContext(step, { limit: 2 })
+    const memory = new WorkingMemory({
+      soulName: "samantha",
+      memories: [
+        { role: ChatMessageRoleEnum.System, content: "You are Samantha." },
+        { role: ChatMessageRoleEnum.User, content: "do cats purr on laps?" },
+      ],
+    })
+
+    const [, answer] = await ragStep(memory, "why?")
+    expect(answer).to.equal("WHY?")
+
+    const ragMemories = seen!.memories.filter((memory) => memory.region === "rag")
+    expect(ragMemories).to.have.length(1)
+    expect(ragMemories[0].content).to.include("### animals.md > Cats")
+    expect(ragMemories[0].metadata?.ragKeys).to.have.length(2)
+  })
+
+  it("uses custom queries and leaves out hits beyond maxDistance", async () => {
+    const store = new LocalVectorStore()
+    await ingestAnimals(store)
+    const { useRag } = store.hooksFor(soul)
+
+    let seen: WorkingMemory | undefined
+    const ragStep = await useRag().withRagContext(async (memory: WorkingMemory) => {
+      seen = memory
+      return [memory, ""] as const
+    }, { queries: () => ["dogs fetch sticks"], maxDistance: 0.5 })
+
+    const memory = new WorkingMemory({ soulName: "samantha", memories: [] })
+      .withRegion("rag", { role: ChatMessageRoleEnum.System, content: "stale" })
+
+    await ragStep(memory)
+    const ragMemories = seen!.memories.filter((memory) => memory.region === "rag")
+    expect(ragMemories).to.have.length(1)
+    expect(ragMemories[0].content).to.include("Dogs fetch sticks")
+    expect(ragMemories[0].content).not.to.include("Cats")
+    expect(ragMemories[0].content).not.to.include("stale")
+
+    await (await useRag().withRagContext(async (memory: WorkingMemory) => {
+      seen = memory
+      return [memory, ""] as const
+    }, { queries: () => ["zzz qqq"], maxDistance: 0.1 }))(memory)
+    expect(seen!.memories.filter((memory) => memory.region === "rag")).to.have.length(0)
+  })
+})
@@ -0,0 +1,283 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  ChatMessageRoleEnum,
+  CognitiveEventScheduler,
+  FakeClock,
+  FiredCognitiveEvent,
+  JsonFileSchedulerStore,
+  MentalProcess,
+  ProcessRunner,
+  SoulEventKinds,
+  WorkingMemory,
+  createSoulHooksRuntime,
+  useActions,
+  useProcessManager,
+  usePerceptions,
+} from "../src/index.js";
+
+const soul = { name: "Samantha", staticMemories: { core: "You are Samantha." } }
+
+const workingMemory = new WorkingMemory({
+  soulName: "Samantha",
+  memories: [{ role: ChatMessageRoleEnum.System, content: "You are Samantha." }],
+})
+
+const remindsUser: MentalProcess<{ topic: string }> = async ({ workingMemory, params }) => {
+  const { invokingPerception } = usePerceptions()
+  useActions().speak(`reminder about ${params.topic}: ${invokingPerception?.content}`)
+  return workingMemory
+}
+
+describe("CognitiveEventScheduler", () => {
+  it("fires events into their mental process when the clock advances", async () => {
+    const clock = new FakeClock(new Date("2024-01-01T00:00:00Z"))
+
+    let runner: ProcessRunner | undefined = undefined
+    const scheduler = new CognitiveEventScheduler({
+      clock,
+      onEvent: ({ event, perception }) => runner!.dispatch(perception, { process: event.process, params: event.params }),
+    })
+
+    const initialProcess: MentalProcess = async ({ workingMemory }) => {
+      const { scheduleEvent } = useActions()
+      await scheduleEvent({
+        in: 60,
+        process: remindsUser,
+        perception: { action: "remind", content: "drink water" },
+        params: { topic: "health" },
+      })
+      useActions().speak(`scheduled ${useProcessManager().pendingScheduledEvents.current.length}`)
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime({
+      soulName: soul.name,
+      scheduleEvent: (evt) => scheduler.schedule(evt),
+      cancelScheduledEvent: (id) => scheduler.cancel(id),
+      wait: clock.wait,
+      state: { pendingScheduledEvents: scheduler.pendingScheduledEvents },
+    })
+
+    runner = new ProcessRunner({ soul, workingMemory, initialProcess, runtime })
+    await scheduler.start()
+
+    await runner.dispatch({ _id: "1", _kind: SoulEventKinds.Perception, _timestamp: clock.now(), action: "said", content: "hi", name: "friend" })
+    expect(scheduler.pendingScheduledEvents.current).to.have.length(1)
+    expect(scheduler.pendingScheduledEvents.current[0].when).to.deep.equal(new Date("2024-01-01T00:01:00Z"))
+
+    await clock.advance(59_000)
+    expect(runtime.interactionRequests.map((req) => req.content)).to.deep.equal(["scheduled 1"])
+
+    await clock.advance(1_000)
+    await runner.idle()
+
+    expect(runtime.interactionRequests.map((req) => req.content)).to.deep.equal([
+      "scheduled 1",
+      "reminder about health: drink water",
+    ])
+    expect(scheduler.pendingScheduledEvents.current).to.be.empty
+    expect(runner.currentProcess).to.equal(remindsUser)
+  })
+
+  it("marks fired perceptions as internal and records the mental process", async () => {
+    const clock = new FakeClock(1000)
+    const fired: FiredCognitiveEvent[] = []
+    const scheduler = new CognitiveEventScheduler({ clock, onEvent: (evt) => { fired.push(evt) } })
+    await scheduler.start()
+
+    const id = await scheduler.schedule({
+      when: new Date(5000),
+      process: remindsUser,
+      perception: { action: "remind", content: "stretch", name: "timer" },
+      params: { topic: "posture" },
+    })
+
+    await clock.advance(4000)
+
+    expect(fired).to.have.length(1)
+    expect(fired[0].event.id).to.equal(id)
+    expect(fired[0].event.process).to.equal(remindsUser)
+    expect(fired[0].perception).to.deep.include({
+      _id: id,
+      _kind: "perception",
+      _timestamp: 5000,
+      action: "remind",
+      content: "stretch",
+      name: "timer",
+      internal: true,
+      _mentalProcess: { name: "remindsUser", params: { topic: "posture" } },
+    })
+  })
+
+  it("cancels events", async () => {
+    const clock = new FakeClock()
+    const fired: FiredCognitiveEvent[] = []
+    const scheduler = new CognitiveEventScheduler({ clock, onEvent: (evt) => { fired.push(evt) } })
+    await scheduler.start()
+
+    const cancelled = await scheduler.schedule({ in: 10, process: remindsUser, perception: { action: "remind", content: "a" } })
+    await scheduler.schedule({ in: 20, process: remindsUser, perception: { action: "remind", content: "b" } })
+    await scheduler.cancel(cancelled)
+
+    expect(scheduler.pendingScheduledEvents.current.map((evt) => evt.perception.content)).to.deep.equal(["b"])
+
+    await clock.advance(30_000)
+    expect(fired.map((evt) => evt.perception.content)).to.deep.equal(["b"])
+    expect(clock.pendingTimers).to.equal(0)
+  })
+
+  it("fires events in order of when they are due", async () => {
+    const clock = new FakeClock()
+    const fired: string[] = []
+    const scheduler = new CognitiveEventScheduler({ clock, onEvent: ({ perception }) => { fired.push(perception.content) } })
+    await scheduler.start()
+
+    await scheduler.schedule({ in: 30, process: remindsUser, perception: { action: "remind", content: "third" } })
+    await scheduler.schedule({ in: 10, process: remindsUser, perception: { action: "remind", content: "first" } })
+    await scheduler.schedule({ in: 20, process: remindsUser, perception: { action: "remind", content: "second" } })
+
+    expect(scheduler.pendingScheduledEvents.current.map((evt) => evt.perception.content)).to.deep.equal(["first", "second", "third"])
+
+    await clock.advance(60_000)
+    expect(fired).to.deep.equal(["first", "second", "third"])
+  })
+
+  it("rejects events that are not due at a valid time", async () => {
+    const scheduler = new CognitiveEventScheduler({ clock: new FakeClock(), onEvent: () => {} })
+    await scheduler.start()
+
+    let error: Error | undefined
+    await scheduler.schedule({ when: new Date("not a date"), process: remindsUser, perception: { action: "remind", content: "never" } })
+      .catch((err) => { error = err })
+
+    expect(error).to.be.instanceOf(RangeError)
+    expect(scheduler.pendingScheduledEvents.current).to.be.empty
+  })
+
+  it("still fires events when their removal cannot be written", async () => {
+    const clock = new FakeClock()
+    const fired: string[] = []
+    let failing = false
+    const scheduler = new CognitiveEventScheduler({
+      clock,
+      store: {
+        load: async () => [],
+        save: async () => {
+          if (failing) {
+            throw new Error("disk is full")
+          }
+        },
+      },
+      onEvent: ({ perception }) => { fired.push(perception.content) },
+    })
+    await scheduler.start()
+    await scheduler.schedule({ in: 1, process: remindsUser, perception: { action: "remind", content: "stretch" } })
+
+    const consoleError = console.error
+    console.error = () => {}
+    try {
+      failing = true
+      await clock.advance(1000)
+      await scheduler.flush()
+    } finally {
+      console.error = consoleError
+    }
+
+    expect(fired).to.deep.equal(["stretch"])
+  })
+
+  describe("persistence", () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "scheduler-"))
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it("survives a restart", async () => {
+      const filePath = path.join(dir, "nested", "events.json")
+      const clock = new FakeClock()
+
+      const before = new CognitiveEventScheduler({
+        clock,
+        store: new JsonFileSchedulerStore(filePath),
+        onEvent: () => { throw new Error("should not fire before the restart") },
+      })
+      await before.start()
+      await before.schedule({ in: 10, process: remindsUser, perception: { action: "remind", content: "overdue" }, params: { topic: "a" } })
+      await before.schedule({ in: 100, process: remindsUser, perception: { action: "remind", content: "later" }, params: { topic: "b" } })
+      before.stop()
+
+      // the server was down for a minute
+      await clock.advance(60_000)
+
+      const fired: FiredCognitiveEvent[] = []
+      const after = new CognitiveEventScheduler({
+        clock,
+        store: new JsonFileSchedulerStore(filePath),
+        resolveProcess: (name) => name === "remindsUser" ? remindsUser : undefined,
+        onEvent: (evt) => { fired.push(evt) },
+      })
+      await after.start()
+
+      expect(after.pendingScheduledEvents.current.map((evt) => evt.perception.content)).to.deep.equal(["overdue", "later"])
+
+      await clock.advance(0)
+      expect(fired.map((evt) => [evt.perception.content, evt.event.params])).to.deep.equal([["overdue", { topic: "a" }]])
+      expect(fired[0].event.process).to.equal(remindsUser)
+
+      await clock.advance(40_000)
+      expect(fired.map((evt) => evt.perception.content)).to.deep.equal(["overdue", "later"])
+
+      await after.flush()
+      expect(await new JsonFileSchedulerStore(filePath).load()).to.be.empty
+    })
+
+    it("drops restored events whose process is unknown", async () => {
+      const filePath = path.join(dir, "events.json")
+      const clock = new FakeClock()
+
+      const before = new CognitiveEventScheduler({ clock, store: new JsonFileSchedulerStore(filePath), onEvent: () => {} })
+      await before.schedule({ in: 1, process: remindsUser, perception: { action: "remind", content: "lost" } })
+
+      const fired: FiredCognitiveEvent[] = []
+      const dropped: string[] = []
+      const after = new CognitiveEventScheduler({
+        clock,
+        store: new JsonFileSchedulerStore(filePath),
+        onEvent: (evt) => { fired.push(evt) },
+        onDroppedEvent: (evt) => { dropped.push(evt.processName) },
+      })
+      await after.start()
+      await clock.advance(1000)
+
+      expect(fired).to.be.empty
+      expect(dropped).to.deep.equal(["remindsUser"])
+      await after.flush()
+      expect(await new JsonFileSchedulerStore(filePath).load()).to.be.empty
+    })
+  })
+})
+
+describe("FakeClock", () => {
+  it("resolves waits only when advanced", async () => {
+    const clock = new FakeClock()
+    let done = false
+    const waiting = clock.wait(1000).then(() => { done = true })
+
+    await clock.advance(999)
+    expect(done).to.be.false
+
+    await clock.advance(1)
+    await waiting
+    expect(done).to.be.true
+    expect(clock.now()).to.equal(1000)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  ChatMessageRoleEnum,
+  MentalProcess,
+  WorkingMemory,
+  createSoulHooksRuntime,
+  useActions,
+  useProcessManager,
+  useProcessMemory,
+  useSoulMemory,
+} from "../src/index.js";
+
+const workingMemory = new WorkingMemory({
+  soulName: "Samantha",
+  memories: [{ role: ChatMessageRoleEnum.System, content: "You are Samantha." }],
+})
+
+async function* streamOf(...chunks: string[]) {
+  for (const chunk of chunks) {
+    yield chunk
+  }
+}
+
+describe("createSoulHooksRuntime", () => {
+  it("collects speech, including streamed speech", async () => {
+    const talks: MentalProcess = async ({ workingMemory }) => {
+      const { speak, dispatch } = useActions()
+      speak("hello")
+      speak(streamOf("how ", "are ", "you?"))
+      dispatch({ action: "smiles", content: "" })
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime({ soulName: "Samantha" })
+    await runtime.invoke(talks, { workingMemory })
+
+    expect(runtime.interactionRequests).to.deep.equal([
+      { action: "says", content: "hello", name: "Samantha" },
+      { action: "says", content: "how are you?", name: "Samantha" },
+      { action: "smiles", content: "" },
+    ])
+  })
+
+  it("tracks invocationCount and previousMentalProcess", async () => {
+    const seen: { process: string, invocationCount: number, previous?: string }[] = []
+
+    const record = (process: string) => {
+      const { invocationCount, previousMentalProcess } = useProcessManager()
+      seen.push({ process, invocationCount, previous: previousMentalProcess?.name })
+    }
+
+    const introduction: MentalProcess = async ({ workingMemory }) => {
+      record("introduction")
+      return workingMemory
+    }
+
+    const chatting: MentalProcess = async ({ workingMemory }) => {
+      record("chatting")
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime()
+    await runtime.invoke(introduction, { workingMemory })
+    await runtime.invoke(introduction, { workingMemory })
+    await runtime.invoke(chatting, { workingMemory })
+    await runtime.invoke(chatting, { workingMemory })
+
+    expect(seen).to.deep.equal([
+      { process: "introduction", invocationCount: 0, previous: undefined },
+      { process: "introduction", invocationCount: 1, previous: undefined },
+      { process: "chatting", invocationCount: 0, previous: "introduction" },
+      { process: "chatting", invocationCount: 1, previous: "introduction" },
+    ])
+    expect(runtime.state.currentProcess).to.equal(chatting)
+  })
+
+  it("keeps process memory per process and soul memory across processes", async () => {
+    const counts: number[] = []
+
+    const counter: MentalProcess = async ({ workingMemory }) => {
+      const count = useProcessMemory(0)
+      const label = useProcessMemory("counter")
+      const total = useSoulMemory("total", 0)
+      count.current += 1
+      total.current += 10
+      counts.push(count.current, total.current)
+      expect(label.current).to.equal("counter")
+      return workingMemory
+    }
+
+    const other: MentalProcess = async ({ workingMemory }) => {
+      const count = useProcessMemory(100)
+      const total = useSoulMemory("total", 0)
+      counts.push(count.current, total.current)
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime()
+    await runtime.invoke(counter, { workingMemory })
+    await runtime.invoke(counter, { workingMemory })
+    await runtime.invoke(other, { workingMemory })
+
+    expect(counts).to.deep.equal([1, 10, 2, 20, 100, 20])
+  })
+
+  it("records setNextProcess and expire on the state", async () => {
+    const next: MentalProcess = async ({ workingMemory }) => workingMemory
+
+    const leaves: MentalProcess = async ({ workingMemory }) => {
+      useProcessManager().setNextProcess(next, { reason: "bored" })
+      useActions().expire()
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime()
+    await runtime.invoke(leaves, { workingMemory })
+
+    expect(runtime.state.nextProcess).to.deep.equal({ process: next, params: { reason: "bored" } })
+    expect(runtime.state.expired).to.be.true
+  })
+
+  it("does not count subprocess invocations", async () => {
+    const main: MentalProcess = async ({ workingMemory }) => workingMemory
+    const subprocess: MentalProcess = async ({ workingMemory }) => {
+      expect(useProcessManager().invocationCount).to.equal(1)
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime()
+    await runtime.invoke(main, { workingMemory })
+    await runtime.invoke(subprocess, { workingMemory, subprocess: true })
+
+    expect(runtime.state.currentProcess).to.equal(main)
+    expect(runtime.state.invocationCount).to.equal(1)
+  })
+
+  it("throws a helpful error for hooks that are not configured", async () => {
+    const usesTool: MentalProcess = async ({ workingMemory }) => {
+      await useActions().scheduleEvent({ in: 1, process: usesTool, perception: { action: "ping", content: "" } })
+      return workingMemory
+    }
+
+    const runtime = createSoulHooksRuntime()
+    let error: Error | undefined
+    try {
+      await runtime.invoke(usesTool, { workingMemory })
+    } catch (err: any) {
+      error = err
+    }
+
+    expect(error?.message).to.equal("scheduleEvent is not configured on this soul hooks runtime.")
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  ChatMessageRoleEnum,
+  JsonRPCPair,
+  JsonRPCResponse,
+  MentalProcess,
+  MockProcessor,
+  PendingToolCallsChannel,
+  ToolCallError,
+  ToolCaller,
+  ToolCallerErrorCodes,
+  WorkingMemory,
+  createSoulHooksRuntime,
+  useTools,
+  z,
+} from "../src/index.js";
+
+const fakeChannel = (opts: { hasClient?: () => boolean } = {}) => {
+  const listeners = new Set<() => void>()
+  const calls: Record<string, JsonRPCPair> = {}
+
+  const channel: PendingToolCallsChannel = {
+    calls,
+    observe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    ...opts,
+  }
+
+  // what the ToolHandler of a connected client does.
+  const respond = (handler: (method: string, params: any) => Omit<JsonRPCResponse, "id">) => {
+    for (const [id, pair] of Object.entries(calls)) {
+      if (!pair.response) {
+        pair.response = { id, ...handler(pair.request.method, pair.request.params) } as JsonRPCResponse
+      }
+    }
+    listeners.forEach((listener) => listener())
+  }
+
+  return { channel, calls, respond, listeners }
+}
+
+describe("ToolCaller", () => {
+  it("resolves with the result and removes the completed pair", async () => {
+    const { channel, calls, respond, listeners } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+
+    const result = caller.call("pingTool", { ping: "hi" })
+    const [request] = Object.values(calls).map((pair) => pair.request)
+    expect(request).to.include({ method: "pingTool" })
+    expect(request.params).to.deep.equal({ ping: "hi" })
+
+    respond((_method, params) => ({ result: { pong: params.ping } }))
+    expect(await result).to.deep.equal({ pong: "hi" })
+    expect(calls).to.deep.equal({})
+    expect(listeners.size).to.equal(0)
+    expect(caller.pending).to.equal(0)
+  })
+
+  it("gives every call its own id", async () => {
+    const { channel, calls, respond } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+
+    const results = [caller.call("echo", 1), caller.call("echo", 2)]
+    expect(Object.keys(calls)).to.have.length(2)
+    respond((_method, params) => ({ result: params }))
+    expect(await Promise.all(results)).to.deep.equal([1, 2])
+  })
+
+  it("throws the error responses as ToolCallErrors", async () => {
+    const { channel, respond } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+
+    const result = caller.call("missingTool")
+    respond(() => ({ error: { code: -32601, message: "Method not found: missingTool", data: null } }))
+
+    const err = await result.catch((err) => err)
+    expect(err).to.be.instanceOf(ToolCallError)
+    expect(err).to.include({ method: "missingTool", code: -32601, message: "Method not found: missingTool" })
+  })
+
+  it("times out and cleans up calls that are never answered", async () => {
+    const { channel, calls } = fakeChannel()
+    const caller = new ToolCaller({ channel, timeout: 1000 })
+
+    const err = await caller.call("slowTool", {}, { timeout: 10 }).catch((err) => err)
+    expect(err).to.include({ code: ToolCallerErrorCodes.Timeout })
+    expect(calls).to.deep.equal({})
+  })
+
+  it("fails right away when no client is connected", async () => {
+    const { channel, calls } = fakeChannel({ hasClient: () => false })
+    const caller = new ToolCaller({ channel })
+
+    const err = await caller.call("pingTool").catch((err) => err)
+    expect(err).to.include({ code: ToolCallerErrorCodes.NoClient })
+    expect(calls).to.deep.equal({})
+  })
+
+  it("cancels calls in flight", async () => {
+    const { channel, calls } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+
+    const result = caller.call("pingTool")
+    caller.cancelAll("the client disconnected")
+    const err = await result.catch((err) => err)
+    expect(err).to.include({ code: ToolCallerErrorCodes.Cancelled, message: "pingTool: the client disconnected" })
+    expect(calls).to.deep.equal({})
+  })
+
+  it("cancels calls when their signal aborts", async () => {
+    const { channel, calls } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+    const controller = new AbortController()
+
+    const result = caller.call("pingTool", {}, { signal: controller.signal })
+    controller.abort()
+    const err = await result.catch((err) => err)
+    expect(err).to.include({ code: ToolCallerErrorCodes.Cancelled, message: "pingTool: the tool call was aborted" })
+    expect(calls).to.deep.equal({})
+
+    const alreadyAborted = await caller.call("pingTool", {}, { signal: controller.signal }).catch((err) => err)
+    expect(alreadyAborted).to.include({ code: ToolCallerErrorCodes.Cancelled })
+    expect(calls).to.deep.equal({})
+  })
+
+  it("stops waiting for tools when their mental process is interrupted", async () => {
+    const { channel } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+    const runtime = createSoulHooksRuntime({ installGlobally: false, callTool: caller.call })
+    const controller = new AbortController()
+
+    let toolCall: Promise<unknown> | undefined
+    const callsTool: MentalProcess = async ({ workingMemory }) => {
+      toolCall = runtime.hooks.useTool("pingTool")({})
+      await toolCall.catch(() => {})
+      return workingMemory
+    }
+
+    const invoked = runtime.invoke(callsTool, { workingMemory: new WorkingMemory({ soulName: "Samantha" }), signal: controller.signal })
+    controller.abort()
+    await invoked.catch(() => {})
+
+    expect(await toolCall!.catch((err) => err)).to.include({ code: ToolCallerErrorCodes.Cancelled })
+    expect(caller.pending).to.equal(0)
+  })
+
+  it("backs useTool", async () => {
+    const { channel, respond } = fakeChannel()
+    const caller = new ToolCaller({ channel })
+    const runtime = createSoulHooksRuntime({ installGlobally: false, callTool: caller.call })
+
+    const result = runtime.hooks.useTool<{ ping: string }, { pong: string }>("pingTool")({ ping: "hello" })
+    respond((_method, params) => ({ result: { pong: params.ping } }))
+    expect(await result).to.deep.equal({ pong: "hello" })
+  })
+
+  it("lets the model call client tools with useTools", async () => {
+    const called: { name: string, params: any }[] = []
+    const mock = new MockProcessor({
+      responses: [{ response: "", toolCalls: [{ name: "lookUpWeather", params: { city: "Paris" } }] }],
+    })
+    const checksWeather: MentalProcess = async ({ workingMemory }) => {
+      const tools = useTools({
+        lookUpWeather: { description: "Looks up the current weather in a city.", params: z.object({ city: z.string() }) },
+      })
+      const [withWeather] = await workingMemory.transform({ command: "Find out what the weather is like.", tools })
+      return withWeather
+    }
+    const runtime = createSoulHooksRuntime({
+      callTool: async (name, params) => {
+        called.push({ name, params })
+        return { weather: "sunny" }
+      },
+    })
+
+    const workingMemory = new WorkingMemory({ soulName: "Samantha", processor: mock.specification })
+    const result = await runtime.invoke(checksWeather, { workingMemory }) as WorkingMemory
+
+    expect(called).to.deep.equal([{ name: "lookUpWeather", params: { city: "Paris" } }])
+    expect(result.at(result.length - 1)).to.deep.include({ role: ChatMessageRoleEnum.Function, content: '{"weather":"sunny"}' })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { HashingEmbedder, LocalVectorStore, cosineSimilarity } from "../src/index.js";
+
+describe("HashingEmbedder", () => {
+  it("is deterministic and normalized", async () => {
+    const embedder = new HashingEmbedder({ dimensions: 64 })
+    const a = await embedder.embed("The cat sat on the mat")
+    const b = await embedder.embed("The cat sat on the mat")
+
+    expect(a).to.have.length(64)
+    expect(a).to.deep.equal(b)
+    expect(Math.sqrt(a.reduce((sum, value) => sum + value * value, 0))).to.be.closeTo(1, 1e-9)
+  })
+
+  it("puts texts with shared vocabulary closer together", async () => {
+    const embedder = new HashingEmbedder()
+    const cats = await embedder.embed("cats love to sleep in the sun")
+    const sleepyCats = await embedder.embed("sleepy cats in the sun")
+    const finance = await embedder.embed("quarterly revenue exceeded projections")
+
+    expect(cosineSimilarity(cats, sleepyCats)).to.be.greaterThan(cosineSimilarity(cats, finance))
+  })
+})
+
+describe("LocalVectorStore", () => {
+  it("sets, fetches and removes records", async () => {
+    const store = new LocalVectorStore().bucket("test")
+
+    store.set("greeting", "hello world", { language: "en" })
+    expect(await store.fetch("greeting")).to.equal("hello world")
+
+    const withMetadata = await store.fetch("greeting", { includeMetadata: true })
+    expect(withMetadata?.metadata).to.deep.equal({ language: "en" })
+    expect(withMetadata?.embedding).to.have.length(256)
+
+    store.remove("greeting")
+    expect(await store.fetch("greeting")).to.be.undefined
+  })
+
+  it("searches by cosine distance with filters and limits", async () => {
+    const store = new LocalVectorStore().bucket("test")
+
+    store.set("cats", "cats love to sleep in the sun", { kind: "animal" })
+    store.set("dogs", "dogs love to play fetch in the park", { kind: "animal" })
+    store.set("revenue", "quarterly revenue exceeded projections", { kind: "finance" })
+
+    const results = await store.search("where do cats sleep?")
+    expect(results.map((result) => result.key)[0]).to.equal("cats")
+    expect(results[0].distance).to.be.closeTo(1 - results[0].similarity, 1e-9)
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].distance).to.be.at.least(results[i - 1].distance)
+    }
+
+    const animals = await store.search("revenue", { filter: { kind: "animal" } })
+    expect(animals.map((result) => result.key).sort()).to.deep.equal(["cats", "dogs"])
+
+    expect(await store.search("cats", { resultLimit: 1 })).to.have.length(1)
+
+    const close = await store.search("cats love to sleep in the sun", { maxDistance: 0.01 })
+    expect(close.map((result) => result.key)).to.deep.equal(["cats"])
+
+    const similar = await store.search("cats love to sleep in the sun", { minSimilarity: 0.99 })
+    expect(similar.map((result) => result.key)).to.deep.equal(["cats"])
+  })
+
+  it("scopes buckets per soul, blueprint and organization", async () => {
+    const store = new LocalVectorStore()
+    const samantha = store.hooksFor({ organization: "org", blueprint: "samantha", soulId: "1" })
+    const otherSoul = store.hooksFor({ organization: "org", blueprint: "samantha", soulId: "2" })
+    const otherBlueprint = store.hooksFor({ organization: "org", blueprint: "bob", soulId: "3" })
+
+    samantha.useSoulStore().set("key", "soul")
+    samantha.useBlueprintStore().set("key", "blueprint")
+    samantha.useBlueprintStore("facts").set("key", "facts")
+    samantha.useOrganizationStore().set("key", "organization")
+
+    expect(await otherSoul.useSoulStore().fetch("key")).to.be.undefined
+    expect(await otherSoul.useBlueprintStore().fetch("key")).to.equal("blueprint")
+    expect(await otherSoul.useBlueprintStore("facts").fetch("key")).to.equal("facts")
+    expect(await otherBlueprint.useBlueprintStore().fetch("key")).to.be.undefined
+    expect(await otherBlueprint.useOrganizationStore().fetch("key")).to.equal("organization")
+  })
+
+  it("rejects the flush after a failed write", async () => {
+    const store = new LocalVectorStore({
+      embedder: { model: "broken", embed: async () => { throw new Error("embedder is down") } },
+    }).bucket("test")
+
+    store.set("greeting", "hello world")
+    let error: Error | undefined
+    await store.flush().catch((err) => { error = err })
+    expect(error?.message).to.equal("embedder is down")
+
+    // the failure is only reported once.
+    await store.flush()
+    expect(await store.fetch("greeting")).to.be.undefined
+  })
+
+  describe("persistence", () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "vector-store-"))
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it("persists buckets to disk", async () => {
+      const before = new LocalVectorStore({ directory: dir })
+      before.blueprintBucket("org", "samantha").set("fact", { favoriteFood: "tartiflette" }, { source: "test" })
+      await before.flush()
+
+      const after = new LocalVectorStore({ directory: dir })
+      const bucket = after.blueprintBucket("org", "samantha")
+      expect(await bucket.fetch("fact")).to.deep.equal({ favoriteFood: "tartiflette" })
+
+      const [result] = await bucket.search("tartiflette")
+      expect(result.key).to.equal("fact")
+      expect(result.metadata).to.deep.equal({ source: "test" })
+    })
+  })
+})
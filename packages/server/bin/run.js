@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+
+import { run } from '../dist/index.mjs';
+
+await run();
+process.exit(0);
@@ -0,0 +1,322 @@
+import { createRequire } from "node:module"
+import path from "node:path"
+import esbuild from "esbuild"
+import * as engine from "@opensouls/engine"
+import type { InterruptionPolicy, MemoryIntegrator, MentalProcess, ModelRoutes, PerceptionProcessor, SoulHooks } from "@opensouls/engine"
+
+const SOUL_DIR = "soul"
+const ENTRY_POINT = "__soul-entry.ts"
+const VIRTUAL_NAMESPACE = "soul-source"
+
+const RESOLVABLE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".json"]
+
+const requireFromServer = createRequire(import.meta.url)
+
+/**
+ * files of a blueprint keyed by their path relative to the blueprint root, exactly as the
+ * CLI's FilePoster syncs them (eg. `soul/initialProcess.ts`).
+ */
+export type BlueprintFiles = Record<string, string>
+
+export interface BlueprintModules {
+  initialProcess: MentalProcess<any>
+  /**
+   * the default exports of `soul/mentalProcesses/*`, used to find processes by name (eg. for scheduled events).
+   */
+  mentalProcesses: MentalProcess<any>[]
+  subprocesses: MentalProcess<any>[]
+  memoryIntegrator?: MemoryIntegrator
+  perceptionProcessor?: PerceptionProcessor
+  /**
+   * the default export of `soul/modelRoutes.ts`, which maps model aliases ("fast", "quality", etc.) to processors.
+   */
+  modelRoutes?: ModelRoutes
+  /**
+   * the default export of `soul/interruptionPolicy.ts`, which decides if new perceptions interrupt the soul mid-speech.
+   */
+  interruptionPolicy?: InterruptionPolicy
+}
+
+export interface InstantiateOpts {
+  hooks: SoulHooks
+  env: () => Record<string, engine.Json>
+}
+
+export class BlueprintCompileError extends Error {
+  constructor(message: string, public errors: esbuild.Message[] = []) {
+    super(message)
+    this.name = "BlueprintCompileError"
+  }
+}
+
+const normalizePath = (filePath: string) => path.posix.normalize(filePath.split(path.sep).join("/")).replace(/^\.\//, "")
+
+const loaderFor = (filePath: string): esbuild.Loader => {
+  switch (path.posix.extname(filePath)) {
+    case ".ts":
+    case ".mts":
+    case ".cts":
+      return "ts"
+    case ".tsx":
+      return "tsx"
+    case ".jsx":
+      return "jsx"
+    case ".json":
+      return "json"
+    case ".md":
+    case ".txt":
+      return "text"
+    default:
+      return "js"
+  }
+}
+
+const renderTemplate = (template: string, env: Record<string, engine.Json>) => {
+  return template.replace(/{{\s*([\w.]+)\s*}}/g, (_match, key: string) => {
+    const value = key.split(".").reduce<engine.Json>((obj, part) => {
+      if (obj && typeof obj === "object" && !Array.isArray(obj)) {
+        return obj[part]
+      }
+      return undefined
+    }, env)
+    if (value === undefined || value === null) {
+      return ""
+    }
+    return typeof value === "string" ? value : JSON.stringify(value)
+  })
+}
+
+/**
+ * A CompiledBlueprint is the bundled output of a blueprint's `soul/` directory. The bundle is
+ * evaluated once per session (see #instantiate) so that every session gets its own hooks and its own
+ * MentalProcess functions.
+ */
+export class CompiledBlueprint {
+  readonly compiledAt = Date.now()
+
+  constructor(
+    readonly name: string,
+    readonly entityName: string,
+    readonly code: string,
+    readonly files: BlueprintFiles,
+  ) {}
+
+  /**
+   * The markdown files of the soul. The main `{entityName}.md` blueprint is available as `core`
+   * (unless there is an explicit `soul/staticMemories/core.md`) and under its own name.
+   */
+  get staticMemories(): Record<string, string> {
+    const staticMemories: Record<string, string> = {}
+    for (const [filePath, content] of Object.entries(this.files)) {
+      const dir = path.posix.dirname(filePath)
+      if (path.posix.extname(filePath) !== ".md") {
+        continue
+      }
+      if (dir === SOUL_DIR || dir === `${SOUL_DIR}/staticMemories`) {
+        staticMemories[path.posix.basename(filePath, ".md")] = content
+      }
+    }
+
+    staticMemories.core ??= staticMemories[this.entityName] ?? ""
+
+    return staticMemories
+  }
+
+  instantiate({ hooks, env }: InstantiateOpts): BlueprintModules {
+    const $$ = (template: string) => renderTemplate(template, env())
+
+    const load = (filePath: string) => {
+      const normalized = normalizePath(path.posix.join(SOUL_DIR, filePath))
+      const content = this.files[normalized] ?? this.files[normalizePath(filePath)]
+      if (content === undefined) {
+        throw new Error(`load: file not found in blueprint ${this.name}: ${filePath}`)
+      }
+      return content
+    }
+
+    const engineForSoul = {
+      ...engine,
+      ...hooks,
+      load,
+    }
+
+    const soulRequire = (moduleName: string) => {
+      if (moduleName === "@opensouls/engine" || moduleName === "@opensouls/core") {
+        return engineForSoul
+      }
+      return requireFromServer(moduleName)
+    }
+
+    const soulGlobal = {
+      __hooks: hooks,
+      get env() {
+        return env()
+      },
+    }
+
+    const module = { exports: {} as Record<string, any> }
+    const evaluate = new Function("require", "module", "exports", "soul", "$$", this.code)
+    evaluate(soulRequire, module, module.exports, soulGlobal, $$)
+
+    const { initialProcess, mentalProcesses, subprocesses, memoryIntegrator, perceptionProcessor, modelRoutes, interruptionPolicy } = module.exports
+
+    if (typeof initialProcess !== "function") {
+      throw new BlueprintCompileError(`${this.name}: soul/initialProcess.ts must have a default export of a MentalProcess`)
+    }
+
+    const onlyProcesses = (exported: unknown[]) => exported.filter((fn): fn is MentalProcess<any> => typeof fn === "function")
+
+    return {
+      initialProcess,
+      mentalProcesses: onlyProcesses(mentalProcesses),
+      subprocesses: onlyProcesses(subprocesses),
+      memoryIntegrator,
+      perceptionProcessor,
+      modelRoutes,
+      interruptionPolicy,
+    }
+  }
+}
+
+const findFile = (files: BlueprintFiles, candidate: string) => {
+  if (files[candidate] !== undefined) {
+    return candidate
+  }
+
+  // allow the typical ESM style of importing "./file.js" when the file on disk is "./file.ts"
+  const withoutExtension = candidate.replace(/\.(m|c)?jsx?$/, "")
+  for (const extension of RESOLVABLE_EXTENSIONS) {
+    if (files[withoutExtension + extension] !== undefined) {
+      return withoutExtension + extension
+    }
+  }
+
+  for (const extension of RESOLVABLE_EXTENSIONS) {
+    if (files[`${candidate}/index${extension}`] !== undefined) {
+      return `${candidate}/index${extension}`
+    }
+  }
+
+  return undefined
+}
+
+const optionalModule = (files: BlueprintFiles, name: string) => {
+  return findFile(files, `${SOUL_DIR}/${name}.ts`)
+}
+
+const modulesIn = (files: BlueprintFiles, dir: string) => {
+  return Object.keys(files)
+    .filter((filePath) => path.posix.dirname(filePath) === `${SOUL_DIR}/${dir}`)
+    .filter((filePath) => /\.(t|j)sx?$/.test(filePath))
+    .sort()
+}
+
+const entryPointSource = (files: BlueprintFiles) => {
+  const mentalProcessPaths = modulesIn(files, "mentalProcesses")
+  const subprocessPaths = modulesIn(files, "subprocesses")
+
+  const memoryIntegratorPath = optionalModule(files, "memoryIntegrator")
+  const perceptionProcessorPath = optionalModule(files, "perceptionProcessor")
+  const modelRoutesPath = optionalModule(files, "modelRoutes")
+  const interruptionPolicyPath = optionalModule(files, "interruptionPolicy")
+
+  const lines = [
+    `import initialProcess from "./${SOUL_DIR}/initialProcess.ts"`,
+    ...mentalProcessPaths.map((processPath, i) => `import mentalProcess${i} from "./${processPath}"`),
+    ...subprocessPaths.map((subprocessPath, i) => `import subprocess${i} from "./${subprocessPath}"`),
+    memoryIntegratorPath ? `import memoryIntegrator from "./${memoryIntegratorPath}"` : "const memoryIntegrator = undefined",
+    perceptionProcessorPath ? `import perceptionProcessor from "./${perceptionProcessorPath}"` : "const perceptionProcessor = undefined",
+    modelRoutesPath ? `import modelRoutes from "./${modelRoutesPath}"` : "const modelRoutes = undefined",
+    interruptionPolicyPath ? `import interruptionPolicy from "./${interruptionPolicyPath}"` : "const interruptionPolicy = undefined",
+    `const mentalProcesses = [${mentalProcessPaths.map((_, i) => `mentalProcess${i}`).join(", ")}]`,
+    `const subprocesses = [${subprocessPaths.map((_, i) => `subprocess${i}`).join(", ")}]`,
+    `export { initialProcess, mentalProcesses, subprocesses, memoryIntegrator, perceptionProcessor, modelRoutes, interruptionPolicy }`,
+  ]
+
+  return lines.join("\n")
+}
+
+const inMemoryFilesPlugin = (files: BlueprintFiles): esbuild.Plugin => ({
+  name: "soul-source-files",
+  setup(build) {
+    build.onResolve({ filter: /.*/ }, (args) => {
+      if (args.kind === "entry-point") {
+        return { path: ENTRY_POINT, namespace: VIRTUAL_NAMESPACE }
+      }
+
+      if (!args.path.startsWith(".") && !args.path.startsWith("/")) {
+        return { path: args.path, external: true }
+      }
+
+      const importer = args.importer === ENTRY_POINT ? "" : path.posix.dirname(args.importer)
+      const candidate = normalizePath(path.posix.join(importer, args.path))
+      const resolved = findFile(files, candidate)
+      if (!resolved) {
+        return {
+          errors: [{ text: `Could not resolve "${args.path}" from "${args.importer}"` }],
+        }
+      }
+
+      return { path: resolved, namespace: VIRTUAL_NAMESPACE }
+    })
+
+    build.onLoad({ filter: /.*/, namespace: VIRTUAL_NAMESPACE }, (args) => {
+      if (args.path === ENTRY_POINT) {
+        return { contents: entryPointSource(files), loader: "ts", resolveDir: "/" }
+      }
+
+      return {
+        contents: files[args.path],
+        loader: loaderFor(args.path),
+        resolveDir: "/",
+      }
+    })
+  },
+})
+
+/**
+ * The entity name is the name of the `soul/{entityName}.md` blueprint, falling back to
+ * the blueprint (package) name.
+ */
+const entityNameFromFiles = (blueprint: string, files: BlueprintFiles) => {
+  const markdownFile = Object.keys(files)
+    .filter((filePath) => path.posix.dirname(filePath) === SOUL_DIR && filePath.endsWith(".md"))
+    .sort()[0]
+
+  return markdownFile ? path.posix.basename(markdownFile, ".md") : blueprint
+}
+
+export const compileBlueprint = async (blueprint: string, rawFiles: BlueprintFiles): Promise<CompiledBlueprint> => {
+  const files = Object.fromEntries(
+    Object.entries(rawFiles).map(([filePath, content]) => [normalizePath(filePath), content])
+  )
+
+  if (!files[`${SOUL_DIR}/initialProcess.ts`]) {
+    throw new BlueprintCompileError(`${blueprint}: missing ${SOUL_DIR}/initialProcess.ts`)
+  }
+
+  try {
+    const result = await esbuild.build({
+      entryPoints: [ENTRY_POINT],
+      bundle: true,
+      write: false,
+      format: "cjs",
+      platform: "node",
+      target: "node18",
+      keepNames: true,
+      logLevel: "silent",
+      plugins: [inMemoryFilesPlugin(files)],
+    })
+
+    const code = result.outputFiles.map((file) => file.text).join("\n")
+
+    return new CompiledBlueprint(blueprint, entityNameFromFiles(blueprint, files), code, files)
+  } catch (err: any) {
+    const errors: esbuild.Message[] = err.errors ?? []
+    const message = errors.length > 0 ?
+      errors.map((e) => `${e.location?.file ?? ""}${e.location ? `:${e.location.line}` : ""} ${e.text}`.trim()).join("\n") :
+      err.message
+
+    throw new BlueprintCompileError(`${blueprint}: ${message}`, errors)
+  }
+}
@@ -0,0 +1,64 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import path from "node:path"
+import { BlueprintFiles, CompiledBlueprint, compileBlueprint } from "./blueprint.js"
+import { blueprintKey } from "./documentNames.js"
+
+/**
+ * Keeps the latest compiled version of every blueprint that was synced to this server.
+ * When a dataDir is configured, the source files are persisted so that souls keep working
+ * across server restarts without needing to re-run `soul-engine dev`.
+ */
+export class BlueprintRegistry {
+  private blueprints = new Map<string, CompiledBlueprint>()
+
+  constructor(private dataDir?: string) {}
+
+  async update(organization: string, blueprint: string, files: BlueprintFiles) {
+    const compiled = await compileBlueprint(blueprint, files)
+    this.blueprints.set(blueprintKey(organization, blueprint), compiled)
+    await this.persist(organization, blueprint, files)
+    return compiled
+  }
+
+  async get(organization: string, blueprint: string): Promise<CompiledBlueprint | undefined> {
+    const key = blueprintKey(organization, blueprint)
+    const existing = this.blueprints.get(key)
+    if (existing) {
+      return existing
+    }
+
+    const files = await this.load(organization, blueprint)
+    if (!files) {
+      return undefined
+    }
+
+    const compiled = await compileBlueprint(blueprint, files)
+    this.blueprints.set(key, compiled)
+    return compiled
+  }
+
+  private filePath(organization: string, blueprint: string) {
+    if (!this.dataDir) {
+      return undefined
+    }
+    return path.join(this.dataDir, "blueprints", organization, `${blueprint}.json`)
+  }
+
+  private async persist(organization: string, blueprint: string, files: BlueprintFiles) {
+    const filePath = this.filePath(organization, blueprint)
+    if (!filePath) {
+      return
+    }
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, JSON.stringify(files))
+  }
+
+  private async load(organization: string, blueprint: string): Promise<BlueprintFiles | undefined> {
+    const filePath = this.filePath(organization, blueprint)
+    if (!filePath || !existsSync(filePath)) {
+      return undefined
+    }
+    return JSON.parse(await readFile(filePath, "utf8"))
+  }
+}
@@ -0,0 +1,30 @@
+import { Command } from "commander"
+import { SoulEngineServer } from "./server.js"
+
+export const run = async () => {
+  const program = new Command()
+
+  program
+    .name("soul-engine-server")
+    .description("Run a self-hosted soul engine for `soul-engine dev --local` and `new Soul({ local: true })`")
+    .option("-p, --port <port>", "port to listen on", "4000")
+    .option("-d, --data-dir <dir>", "directory used to persist synced blueprints", ".soul-engine")
+    .action(async ({ port, dataDir }: { port: string, dataDir: string }) => {
+      const server = new SoulEngineServer({
+        port: parseInt(port, 10),
+        dataDir,
+      })
+
+      await server.listen()
+
+      return new Promise<void>((resolve) => {
+        process.once("SIGINT", async () => {
+          console.log("Received SIGINT. Exiting.")
+          await server.destroy()
+          resolve()
+        })
+      })
+    })
+
+  return program.parseAsync()
+}
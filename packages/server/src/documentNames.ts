@@ -0,0 +1,53 @@
+export enum DocumentKinds {
+  SoulSession = "soul-session",
+  DebugChat = "debug-chat",
+  SoulSourceDoc = "soul-source-doc",
+}
+
+export interface SessionDocumentName {
+  kind: DocumentKinds.SoulSession | DocumentKinds.DebugChat
+  organization: string
+  blueprint: string
+  soulId: string
+  version?: string
+}
+
+export interface SourceDocumentName {
+  kind: DocumentKinds.SoulSourceDoc
+  organization: string
+  blueprint: string
+}
+
+export type ParsedDocumentName = SessionDocumentName | SourceDocumentName
+
+/**
+ * Parses the document names used by the `Soul` client and the CLI's `FilePoster`:
+ * - `soul-session.{org}.{blueprint}.{soulId}.{version}`
+ * - `debug-chat.{org}.{blueprint}.{soulId}`
+ * - `soul-source-doc.{org}.{blueprint}`
+ */
+export const parseDocumentName = (documentName: string): ParsedDocumentName | undefined => {
+  const [kind, organization, blueprint, soulId, version] = documentName.split(".")
+  if (!organization || !blueprint) {
+    return undefined
+  }
+
+  switch (kind) {
+    case DocumentKinds.SoulSourceDoc:
+      return { kind, organization, blueprint }
+    case DocumentKinds.DebugChat:
+      if (!soulId) {
+        return undefined
+      }
+      return { kind, organization, blueprint, soulId }
+    case DocumentKinds.SoulSession:
+      if (!soulId) {
+        return undefined
+      }
+      return { kind, organization, blueprint, soulId, version: version || "prod" }
+    default:
+      return undefined
+  }
+}
+
+export const blueprintKey = (organization: string, blueprint: string) => `${organization}.${blueprint}`
@@ -0,0 +1,140 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+
+// the CLI posts whole directories of (base64 encoded) files in one request.
+const MAX_BODY_BYTES = 50 * 1024 * 1024
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+export interface HttpRequestContext {
+  request: IncomingMessage
+  response: ServerResponse
+  /**
+   * the (decoded) values of the `:name` segments of the route's pattern.
+   */
+  params: Record<string, string>
+  /**
+   * reads and parses the JSON body of the request.
+   */
+  json: <T = unknown>() => Promise<T>
+}
+
+export type HttpRouteHandler = (ctx: HttpRequestContext) => Promise<void> | void
+
+interface HttpRoute {
+  method: string
+  segments: string[]
+  handler: HttpRouteHandler
+}
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+const readBody = (request: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = []
+  let size = 0
+  request.on("data", (chunk: Buffer) => {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, "request body too large"))
+      request.destroy()
+      return
+    }
+    chunks.push(chunk)
+  })
+  request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+  request.on("error", reject)
+})
+
+/**
+ * A minimal router for the HTTP API that runs next to the websocket server (eg. `/api/:organization/rag-ingest/:bucket`).
+ * Handlers throw an HttpError to respond with an error status.
+ */
+export class HttpRouter {
+  private routes: HttpRoute[] = []
+
+  route(method: string, pattern: string, handler: HttpRouteHandler) {
+    this.routes.push({
+      method: method.toUpperCase(),
+      segments: pattern.split("/").filter(Boolean),
+      handler,
+    })
+    return this
+  }
+
+  /**
+   * Responds to the request if a route matches it, returns false otherwise.
+   */
+  async handle(request: IncomingMessage, response: ServerResponse): Promise<boolean> {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost")
+    const segments = pathname.split("/").filter(Boolean)
+
+    let pathMatched = false
+    for (const route of this.routes) {
+      const params = this.match(route, segments)
+      if (!params) {
+        continue
+      }
+      pathMatched = true
+      if (route.method !== request.method) {
+        continue
+      }
+
+      try {
+        await route.handler({
+          request,
+          response,
+          params,
+          json: async () => {
+            try {
+              return JSON.parse(await readBody(request))
+            } catch (err) {
+              if (err instanceof HttpError) {
+                throw err
+              }
+              throw new HttpError(400, "request body is not valid JSON")
+            }
+          },
+        })
+      } catch (err: any) {
+        if (err instanceof HttpError) {
+          sendJson(response, err.status, { error: err.message })
+        } else {
+          console.error("error handling", request.method, pathname, err)
+          sendJson(response, 500, { error: "internal server error" })
+        }
+      }
+      return true
+    }
+
+    if (pathMatched) {
+      sendJson(response, 405, { error: `${request.method} is not allowed on ${pathname}` })
+      return true
+    }
+
+    return false
+  }
+
+  private match(route: HttpRoute, segments: string[]) {
+    if (route.segments.length !== segments.length) {
+      return undefined
+    }
+
+    const params: Record<string, string> = {}
+    for (let i = 0; i < segments.length; i++) {
+      const expected = route.segments[i]
+      if (expected.startsWith(":")) {
+        params[expected.slice(1)] = decodeURIComponent(segments[i])
+      } else if (expected !== segments[i]) {
+        return undefined
+      }
+    }
+    return params
+  }
+}
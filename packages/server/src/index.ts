@@ -0,0 +1,6 @@
+export * from "./server.js"
+export * from "./session.js"
+export * from "./blueprint.js"
+export * from "./blueprintRegistry.js"
+export * from "./documentNames.js"
+export * from "./cli.js"
@@ -0,0 +1,262 @@
+import { Hocuspocus } from "@hocuspocus/server"
+import type { Document, onStatelessPayload } from "@hocuspocus/server"
+import { syncedStore } from "@syncedstore/core"
+import { DeveloperDispatchedPerception, EmbeddingProvider, ingestRagBodies, isValidRagMaxTokens, LocalVectorStore, RagIngestionBody, SoulEnvironment } from "@opensouls/engine"
+import type { BlueprintFiles } from "./blueprint.js"
+import path from "node:path"
+import { BlueprintRegistry } from "./blueprintRegistry.js"
+import { DocumentKinds, parseDocumentName, SessionDocumentName, SourceDocumentName } from "./documentNames.js"
+import { HttpError, HttpRequestContext, HttpRouter, sendJson } from "./http.js"
+import { SoulSession } from "./session.js"
+import { addStoreRoutes } from "./storeApi.js"
+
+export interface SoulEngineServerOpts {
+  /**
+   * defaults to 4000, which is where the Soul client and the CLI look for a local soul engine.
+   */
+  port?: number
+  address?: string
+  /**
+   * A directory used to persist synced blueprints, stores, scheduled events and the working memories of souls. When omitted, everything is kept in memory.
+   */
+  dataDir?: string
+  /**
+   * used by the soul, blueprint and organization stores. Defaults to the (offline) HashingEmbedder.
+   */
+  embedder?: EmbeddingProvider
+  quiet?: boolean
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value)
+
+const sourceDocShape = {
+  files: {} as Record<string, string>
+}
+
+/**
+ * The SoulEngineServer is a self-hosted replacement for the (now defunct) hosted soul engine.
+ * It speaks the same Hocuspocus protocol as the `Soul` client and the CLI's `FilePoster`.
+ */
+export class SoulEngineServer {
+  readonly blueprints: BlueprintRegistry
+  readonly stores: LocalVectorStore
+
+  private hocuspocus: Hocuspocus
+  private router: HttpRouter
+  private sessions = new Map<string, SoulSession>()
+  private opts: SoulEngineServerOpts
+
+  constructor(opts: SoulEngineServerOpts = {}) {
+    this.opts = opts
+    this.blueprints = new BlueprintRegistry(opts.dataDir)
+    this.stores = new LocalVectorStore({
+      directory: opts.dataDir ? path.join(opts.dataDir, "stores") : undefined,
+      embedder: opts.embedder,
+    })
+
+    this.router = new HttpRouter()
+      .route("POST", "/api/:organization/rag-ingest/:bucket", (ctx) => this.handleRagIngest(ctx))
+    addStoreRoutes(this.router, this.stores)
+
+    this.hocuspocus = new Hocuspocus({
+      port: opts.port ?? 4000,
+      ...(opts.address ? { address: opts.address } : {}),
+      quiet: opts.quiet ?? false,
+      stopOnSignals: false,
+      afterLoadDocument: async ({ document, documentName }) => {
+        const parsed = parseDocumentName(documentName)
+        if (parsed && parsed.kind !== DocumentKinds.SoulSourceDoc) {
+          this.sessionFor(documentName, parsed, document)
+        }
+      },
+      onDisconnect: async ({ documentName, clientsCount }) => {
+        if (clientsCount === 0) {
+          this.sessions.get(documentName)?.lastClientDisconnected()
+        }
+      },
+      afterUnloadDocument: async ({ documentName }) => {
+        this.sessions.get(documentName)?.close()
+        this.sessions.delete(documentName)
+      },
+      onStateless: (payload) => this.handleStateless(payload),
+      onRequest: async ({ request, response }) => {
+        if (await this.router.handle(request, response)) {
+          // hocuspocus answers every request it was not told (by a rejection) to leave alone.
+          return Promise.reject(null)
+        }
+      },
+    })
+  }
+
+  get port() {
+    return this.hocuspocus.address.port
+  }
+
+  get webSocketURL() {
+    return this.hocuspocus.webSocketURL
+  }
+
+  async listen() {
+    await this.hocuspocus.listen()
+    return this
+  }
+
+  async destroy() {
+    await this.hocuspocus.destroy()
+    // let perceptions that are being handled finish, so their checkpoints are written.
+    await Promise.all([...this.sessions.values()].map((session) => session.idle()))
+    for (const session of this.sessions.values()) {
+      session.close()
+    }
+    this.sessions.clear()
+    await this.stores.flush()
+  }
+
+  /**
+   * Returns the session for a document if it is currently loaded.
+   */
+  session(documentName: string) {
+    return this.sessions.get(documentName)
+  }
+
+  private sessionFor(documentName: string, parsed: SessionDocumentName, document: Document) {
+    const existing = this.sessions.get(documentName)
+    if (existing) {
+      return existing
+    }
+
+    const session = new SoulSession({
+      document,
+      documentName: parsed,
+      blueprints: this.blueprints,
+      stores: this.stores,
+      broadcast: (payload) => document.broadcastStateless(payload),
+      dataDir: this.opts.dataDir,
+      hasClient: () => document.getConnectionsCount() > 0,
+    })
+    this.sessions.set(documentName, session)
+    session.load().catch((err) => {
+      // eg. the blueprint was not synced yet, the next perception tries again.
+      if (!this.opts.quiet) {
+        console.warn("could not load soul", session.soulId, err.message)
+      }
+    })
+    return session
+  }
+
+  private async handleStateless({ documentName, document, payload, connection }: onStatelessPayload) {
+    const parsed = parseDocumentName(documentName)
+    if (!parsed) {
+      console.warn("stateless message for unknown document", documentName)
+      return
+    }
+
+    // only the sender made the mistake, so only the sender hears about it.
+    const badRequest = (message: string) => {
+      connection.sendStateless(JSON.stringify({
+        event: "error",
+        data: { status: 400, message },
+      }))
+    }
+
+    let message: unknown
+    try {
+      message = JSON.parse(payload)
+    } catch (err: any) {
+      return badRequest(`stateless message is not valid JSON: ${err.message}`)
+    }
+    if (!isObject(message) || typeof message.event !== "string") {
+      return badRequest("stateless message must be an object with an event")
+    }
+    const { event, data } = message
+
+    if (parsed.kind === DocumentKinds.SoulSourceDoc) {
+      if (event !== "codeSync") {
+        return badRequest(`unknown stateless event ${event}`)
+      }
+      await this.handleCodeSync(parsed, document)
+      return
+    }
+
+    switch (event) {
+      case "dispatchExternalPerception": {
+        const perception = isObject(data) ? data.perception : undefined
+        if (!isObject(perception) || typeof perception.action !== "string" || typeof perception.content !== "string") {
+          return badRequest("dispatchExternalPerception needs a perception with an action and a content")
+        }
+        this.sessionFor(documentName, parsed, document).dispatch(perception as DeveloperDispatchedPerception)
+        break
+      }
+      case "setEnvironment":
+        // the Soul leaves out an environment that was never set.
+        if (!isObject(data) || (data.environment !== undefined && !isObject(data.environment))) {
+          return badRequest("setEnvironment needs an environment object")
+        }
+        this.sessionFor(documentName, parsed, document).setEnvironment(data.environment as SoulEnvironment)
+        break
+      case "revertDoc":
+        if (parsed.kind !== DocumentKinds.DebugChat) {
+          return badRequest("revertDoc is only available in debug chat")
+        }
+        await this.sessionFor(documentName, parsed, document).reset()
+        break
+      default:
+        return badRequest(`unknown stateless event ${event}`)
+    }
+  }
+
+  private async handleRagIngest({ params, response, json }: HttpRequestContext) {
+    const bodies = await json<RagIngestionBody[]>()
+    if (!Array.isArray(bodies)) {
+      throw new HttpError(400, "expected an array of RagIngestionBody")
+    }
+    // like ingestRagBodies, a single invalid body rejects the whole request.
+    for (const [index, body] of bodies.entries()) {
+      if (!isObject(body)) {
+        throw new HttpError(400, `body ${index} is not a RagIngestionBody`)
+      }
+      if (!isValidRagMaxTokens(body.maxTokens)) {
+        throw new HttpError(400, `maxTokens of ${body.rootKey} must be a positive integer`)
+      }
+    }
+
+    const results = await ingestRagBodies(this.stores.organizationBucket(params.organization, params.bucket), bodies)
+    if (!this.opts.quiet) {
+      const chunks = results.reduce((sum, result) => sum + result.chunks, 0)
+      console.log(`ingested ${chunks} chunks into ${params.organization}/${params.bucket}`)
+    }
+    sendJson(response, 200, { results })
+  }
+
+  private reloadSessions(organization: string, blueprint: string) {
+    for (const session of this.sessions.values()) {
+      if (session.documentName.organization === organization && session.documentName.blueprint === blueprint) {
+        session.reload().catch((err) => {
+          console.error("error reloading soul", session.soulId, err)
+        })
+      }
+    }
+  }
+
+  private async handleCodeSync({ organization, blueprint }: SourceDocumentName, document: Document) {
+    const { files } = syncedStore(sourceDocShape, document)
+
+    try {
+      await this.blueprints.update(organization, blueprint, { ...files } as BlueprintFiles)
+      if (!this.opts.quiet) {
+        console.log(`compiled ${organization}/${blueprint}`)
+      }
+      this.reloadSessions(organization, blueprint)
+      document.broadcastStateless(JSON.stringify({
+        event: "compiled",
+        data: { blueprint },
+      }))
+    } catch (err: any) {
+      console.error("error compiling blueprint", err.message)
+      document.broadcastStateless(JSON.stringify({
+        event: "compileError",
+        data: { blueprint, message: err.message },
+      }))
+    }
+  }
+}
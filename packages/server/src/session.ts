@@ -0,0 +1,497 @@
+import { randomUUID } from "node:crypto"
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { observeDeep, syncedStore } from "@syncedstore/core"
+import type { Doc } from "yjs"
+import {
+  ChatMessageRoleEnum,
+  CognitiveEventScheduler,
+  createSoulHooksRuntime,
+  debugChatShape,
+  defaultMemoryIntegrator,
+  DeveloperDispatchedPerception,
+  DeveloperInteractionRequest,
+  EventLogDoc,
+  eventLogShape,
+  Json,
+  JsonFileSchedulerStore,
+  LocalVectorStore,
+  DispatchOpts,
+  MemoryIntegrator,
+  MentalProcess,
+  ModelRoutes,
+  Perception,
+  ProcessRunner,
+  SoulEnvironment,
+  SoulEvent,
+  SoulEventKinds,
+  SoulHooksRuntime,
+  ToolCaller,
+  WorkingMemory,
+} from "@opensouls/engine"
+import type { CompiledBlueprint } from "./blueprint.js"
+import type { BlueprintRegistry } from "./blueprintRegistry.js"
+import { DocumentKinds, SessionDocumentName } from "./documentNames.js"
+
+export interface SoulSessionOpts {
+  document: Doc
+  documentName: SessionDocumentName
+  blueprints: BlueprintRegistry
+  stores: LocalVectorStore
+  broadcast: (payload: string) => void
+  /**
+   * when set, scheduled events and a checkpoint of the soul's WorkingMemory are persisted in this directory.
+   */
+  dataDir?: string
+  /**
+   * whether a client is connected to the document, tool calls fail right away when there is none.
+   */
+  hasClient?: () => boolean
+}
+
+type NewSoulEvent = Omit<SoulEvent, "_id" | "_timestamp">
+
+// syncedstore does not accept undefined values, so everything going into the doc goes through JSON first.
+const toJson = <T>(obj: T): T => JSON.parse(JSON.stringify(obj))
+
+/**
+ * A SoulSession connects a single soul's event log document to a ProcessRunner, which handles perceptions
+ * one at a time, in the order they were dispatched.
+ */
+export class SoulSession {
+  readonly documentName: SessionDocumentName
+
+  private eventLog: EventLogDoc
+  private debugState?: Record<string, any>
+  private blueprints: BlueprintRegistry
+  private stores: LocalVectorStore
+  private broadcast: (payload: string) => void
+
+  private blueprint?: CompiledBlueprint
+  private processesByName = new Map<string, MentalProcess<any>>()
+  // the WorkingMemory keeps (and clones) this very object, so a reloaded blueprint's routes apply right away.
+  private modelRoutes: ModelRoutes = {}
+  private scheduler: CognitiveEventScheduler
+  private toolCaller: ToolCaller
+  private runtime: SoulHooksRuntime
+  private runner?: Promise<ProcessRunner>
+  private environment: SoulEnvironment
+  private checkpointPath?: string
+
+  private queue: Promise<void> = Promise.resolve()
+  // resolves once the subprocesses of the latest perception are done and their changes are saved.
+  private subprocesses: Promise<void> = Promise.resolve()
+  private saving: Promise<void> = Promise.resolve()
+  private closed = false
+
+  constructor({ document, documentName, blueprints, stores, broadcast, dataDir, hasClient }: SoulSessionOpts) {
+    this.documentName = documentName
+    this.blueprints = blueprints
+    this.stores = stores
+    this.broadcast = broadcast
+
+    if (documentName.kind === DocumentKinds.DebugChat) {
+      const store = syncedStore(debugChatShape, document)
+      this.eventLog = store.eventLog as EventLogDoc
+      this.debugState = store.state
+    } else {
+      this.eventLog = syncedStore(eventLogShape, document) as EventLogDoc
+    }
+
+    this.eventLog.events ||= []
+    this.eventLog.pendingToolCalls ||= {}
+    this.eventLog.metadata ||= { id: documentName.soulId }
+    this.eventLog.metadata.id = documentName.soulId
+    this.eventLog.metadata.blueprint = documentName.blueprint
+
+    this.scheduler = new CognitiveEventScheduler({
+      store: dataDir ?
+        new JsonFileSchedulerStore(path.join(dataDir, "scheduledEvents", documentName.organization, documentName.blueprint, `${documentName.soulId}.json`)) :
+        undefined,
+      resolveProcess: (name) => this.processesByName.get(name),
+      onEvent: async ({ event, perception }) => {
+        if (this.runtime.state.expired) {
+          return
+        }
+        const appended = this.appendEvent(perception) as Perception
+        await this.handle(appended, { process: event.process, params: event.params })
+      },
+    })
+
+    if (dataDir) {
+      this.checkpointPath = path.join(dataDir, "workingMemories", documentName.organization, documentName.blueprint, `${documentName.soulId}.json`)
+    }
+
+    this.toolCaller = new ToolCaller({
+      channel: {
+        calls: this.eventLog.pendingToolCalls,
+        observe: (listener) => observeDeep(this.eventLog.pendingToolCalls, listener),
+        hasClient,
+      },
+    })
+
+    this.runtime = this.createRuntime()
+  }
+
+  get soulId() {
+    return this.documentName.soulId
+  }
+
+  dispatch(developerPerception: DeveloperDispatchedPerception) {
+    if (this.runtime.state.expired) {
+      console.warn("ignoring perception for expired soul", this.soulId)
+      return
+    }
+
+    const perception = this.appendEvent({
+      ...developerPerception,
+      _kind: SoulEventKinds.Perception,
+      internal: false,
+    }) as Perception
+
+    return this.handle(perception)
+  }
+
+  private handle(perception: Perception, opts?: DispatchOpts) {
+    const handled = this.processRunner()
+      .then(async (runner) => {
+        try {
+          await runner.dispatch(perception, opts)
+        } finally {
+          await this.save(runner)
+        }
+        // the subprocesses run in the background (until the next perception cancels them), what they changed is saved once they are done.
+        this.subprocesses = runner.idle().then(() => this.save(runner))
+      })
+      .catch((err: any) => {
+        console.error("error handling perception", err)
+        this.appendError(err)
+      })
+
+    this.queue = this.queue.then(() => handled)
+
+    return handled
+  }
+
+  /**
+   * Called when a new version of the blueprint was synced. The new MentalProcesses are swapped in
+   * in between perceptions.
+   */
+  async reload() {
+    if (!this.runner) {
+      return
+    }
+
+    const runner = await this.runner
+    const blueprint = await this.loadBlueprint()
+    if (blueprint === this.blueprint) {
+      return
+    }
+
+    this.blueprint = blueprint
+    await runner.reload(this.instantiate(blueprint))
+  }
+
+  /**
+   * Loads the blueprint and starts the scheduler, so the events scheduled before a restart fire without
+   * waiting for the next perception.
+   */
+  async load() {
+    await this.processRunner()
+  }
+
+  setEnvironment(environment: SoulEnvironment) {
+    this.environment = environment
+    this.eventLog.metadata.environment = toJson(environment ?? {})
+  }
+
+  /**
+   * Waits until every perception dispatched so far has been handled, and their subprocesses are done.
+   */
+  async idle() {
+    await this.queue
+    await this.subprocesses
+  }
+
+  /**
+   * stops the timers of scheduled events, they are restored the next time this soul is loaded.
+   */
+  close() {
+    this.closed = true
+    this.scheduler.stop()
+    this.toolCaller.cancelAll("the soul was unloaded")
+  }
+
+  /**
+   * fails the tool calls that are still waiting for a response, since nobody is left to answer them.
+   */
+  lastClientDisconnected() {
+    this.toolCaller.cancelAll("no client is connected anymore")
+  }
+
+  async reset() {
+    await this.queue
+    const runner = await this.runner?.catch(() => undefined)
+    runner?.cancelSubprocesses()
+    await this.subprocesses
+    await this.scheduler.clear()
+    // the blueprint modules are bound to the hooks of the runtime, so they are re-instantiated too.
+    this.runtime = this.createRuntime()
+    this.runner = undefined
+    this.toolCaller.cancelAll("the soul was reset")
+    if (this.checkpointPath) {
+      await rm(this.checkpointPath, { force: true })
+    }
+    this.eventLog.events.splice(0, this.eventLog.events.length)
+    for (const key of Object.keys(this.eventLog.pendingToolCalls)) {
+      delete this.eventLog.pendingToolCalls[key]
+    }
+    this.syncDebugState()
+  }
+
+  private processRunner() {
+    this.runner ||= this.createProcessRunner().catch((err) => {
+      // try again on the next perception (eg. once the blueprint has been synced).
+      this.runner = undefined
+      throw err
+    })
+    return this.runner
+  }
+
+  private async createProcessRunner() {
+    const blueprint = await this.loadBlueprint()
+    this.blueprint = blueprint
+    const environment = () => this.environment as Record<string, Json> | undefined
+
+    const runner = new ProcessRunner({
+      ...this.instantiate(blueprint),
+      runtime: this.runtime,
+      workingMemory: await this.restoredWorkingMemory() ?? this.initialWorkingMemory(),
+      onSubprocessError: (err: any, subprocess) => {
+        console.error(`error in subprocess ${subprocess.name}`, err)
+        this.appendError(err)
+      },
+      soul: {
+        name: blueprint.entityName,
+        staticMemories: blueprint.staticMemories,
+        get env() {
+          return environment()
+        },
+      },
+    })
+
+    // scheduled events can only be restored once their MentalProcesses are known (and not after the soul was unloaded meanwhile).
+    if (!this.closed) {
+      await this.scheduler.start()
+    }
+
+    return runner
+  }
+
+  private initialWorkingMemory() {
+    const blueprint = this.blueprint!
+    return new WorkingMemory({
+      soulName: blueprint.entityName,
+      modelRoutes: this.modelRoutes,
+      memories: [
+        {
+          role: ChatMessageRoleEnum.System,
+          content: blueprint.staticMemories.core,
+          region: "core",
+        },
+      ],
+    })
+  }
+
+  // the WorkingMemory of the last checkpoint, so a soul picks up where it left off after a restart.
+  private async restoredWorkingMemory() {
+    if (!this.checkpointPath) {
+      return undefined
+    }
+
+    let json: string
+    try {
+      json = await readFile(this.checkpointPath, "utf8")
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        return undefined
+      }
+      throw err
+    }
+
+    const blueprint = this.blueprint!
+    try {
+      // the core memory comes from the blueprint, which might have changed since the checkpoint.
+      return WorkingMemory.fromJSON(json, { soulName: blueprint.entityName, modelRoutes: this.modelRoutes })
+        .withRegion("core", {
+          role: ChatMessageRoleEnum.System,
+          content: blueprint.staticMemories.core,
+        })
+    } catch (err) {
+      console.error(`ignoring the invalid working memory checkpoint of ${this.soulId}`, err)
+      return undefined
+    }
+  }
+
+  // saves are chained, so the debug state and checkpoint of the main process and of the subprocesses never interleave.
+  private save(runner: ProcessRunner) {
+    this.saving = this.saving.then(async () => {
+      this.syncDebugState(runner)
+      await this.checkpoint(runner)
+    })
+    return this.saving
+  }
+
+  private async checkpoint(runner: ProcessRunner) {
+    if (!this.checkpointPath) {
+      return
+    }
+
+    try {
+      const workingMemory = runner.workingMemory
+      await workingMemory.finished
+      await mkdir(path.dirname(this.checkpointPath), { recursive: true })
+      // write then rename so a crash mid-write never leaves a truncated checkpoint behind.
+      const tmpPath = `${this.checkpointPath}.tmp`
+      await writeFile(tmpPath, JSON.stringify(workingMemory))
+      await rename(tmpPath, this.checkpointPath)
+    } catch (err) {
+      console.error(`error checkpointing the working memory of ${this.soulId}`, err)
+    }
+  }
+
+  private async loadBlueprint() {
+    const { organization, blueprint: blueprintName } = this.documentName
+    const blueprint = await this.blueprints.get(organization, blueprintName)
+    if (!blueprint) {
+      throw new Error(`blueprint ${blueprintName} has not been synced to this server. Run 'soul-engine dev --local' in your blueprint.`)
+    }
+    return blueprint
+  }
+
+  private instantiate(blueprint: CompiledBlueprint) {
+    const { initialProcess, mentalProcesses, subprocesses, memoryIntegrator, perceptionProcessor, modelRoutes, interruptionPolicy } = blueprint.instantiate({
+      hooks: this.runtime.hooks,
+      env: () => (this.environment ?? {}) as Record<string, Json>,
+    })
+
+    this.processesByName = new Map(
+      [initialProcess, ...mentalProcesses, ...subprocesses].map((process) => [process.name, process])
+    )
+
+    for (const alias of Object.keys(this.modelRoutes)) {
+      delete this.modelRoutes[alias]
+    }
+    Object.assign(this.modelRoutes, modelRoutes ?? {})
+
+    return {
+      initialProcess,
+      subprocesses,
+      perceptionProcessor,
+      // blueprints still using the deprecated perceptionProcessor keep it.
+      memoryIntegrator: (memoryIntegrator ?? (perceptionProcessor ? undefined : defaultMemoryIntegrator)) as MemoryIntegrator | undefined,
+      interruptionPolicy,
+    }
+  }
+
+  private appendError(err: any) {
+    this.appendEvent({
+      _kind: SoulEventKinds.System,
+      _metadata: { type: "error" },
+      action: "error",
+      content: err?.message ?? String(err),
+    })
+  }
+
+  private appendEvent(newEvent: NewSoulEvent): SoulEvent {
+    const event = toJson({
+      ...newEvent,
+      _id: randomUUID(),
+      _timestamp: Date.now(),
+    }) as SoulEvent
+
+    this.eventLog.events.push(event)
+    this.broadcast(JSON.stringify({
+      event: "newSoulEvent",
+      data: event,
+    }))
+
+    return event
+  }
+
+  private findEvent(id: string) {
+    return this.eventLog.events.find((event) => event._id === id)
+  }
+
+  private async interactionRequest({ content, ...request }: DeveloperInteractionRequest) {
+    if (typeof content === "string") {
+      this.appendEvent({
+        ...request,
+        _kind: SoulEventKinds.InteractionRequest,
+        content,
+      })
+      return
+    }
+
+    const { _id } = this.appendEvent({
+      ...request,
+      _kind: SoulEventKinds.InteractionRequest,
+      _metadata: {
+        ...request._metadata,
+        streaming: true,
+      },
+      content: "",
+    })
+
+    const event = this.findEvent(_id)!
+    let fullContent = ""
+    try {
+      for await (const chunk of content) {
+        fullContent += chunk
+        event.content = fullContent
+      }
+    } finally {
+      // the runtime marks the request once the soul is interrupted, before the content ends.
+      if (request._metadata?.interrupted) {
+        event._metadata!.interrupted = true
+      }
+      event._metadata!.streamComplete = true
+    }
+  }
+
+  private syncDebugState(runner?: ProcessRunner) {
+    if (!this.debugState) {
+      return
+    }
+
+    this.debugState.workingMemory = toJson(runner?.workingMemory.memories ?? [])
+    this.debugState.currentProcess = runner?.currentProcess.name ?? null
+  }
+
+  private createRuntime() {
+    return createSoulHooksRuntime({
+      installGlobally: false,
+      onInteractionRequest: (request) => this.interactionRequest({
+        ...request,
+        name: request.name ?? this.blueprint?.entityName,
+      }),
+      onLog: (...args) => {
+        console.log(`[${this.soulId}]`, ...args)
+        if (this.debugState) {
+          this.appendEvent({
+            _kind: SoulEventKinds.System,
+            action: "log",
+            content: args.map((arg: any) => typeof arg === "string" ? arg : JSON.stringify(arg)).join(" "),
+          })
+        }
+      },
+      scheduleEvent: (evt) => this.scheduler.schedule(evt),
+      cancelScheduledEvent: (eventId) => this.scheduler.cancel(eventId),
+      state: {
+        pendingScheduledEvents: this.scheduler.pendingScheduledEvents,
+      },
+      callTool: this.toolCaller.call,
+      ...this.stores.hooksFor(this.documentName),
+    })
+  }
+}
@@ -0,0 +1,107 @@
+import { createHash } from "node:crypto"
+import type { LocalVectorStore, VectorBucket } from "@opensouls/engine"
+import { HttpError, HttpRequestContext, HttpRouter, sendJson } from "./http.js"
+
+interface BucketScope {
+  organization: string
+  bucket: string
+  blueprint?: string
+}
+
+const contentOf = (content: unknown) => typeof content === "string" ? content : JSON.stringify(content)
+
+// matches `hashContent` of the CLI, which hashes the file contents.
+const hashContent = (content: unknown) => createHash("sha256").update(contentOf(content)).digest("hex")
+
+const bucketFor = (stores: LocalVectorStore, { organization, blueprint, bucket }: BucketScope) => {
+  return blueprint ? stores.blueprintBucket(organization, blueprint, bucket) : stores.organizationBucket(organization, bucket)
+}
+
+const sendManifest = async (ctx: HttpRequestContext, bucket: VectorBucket, { organization, blueprint, bucket: name }: BucketScope) => {
+  const entries: Record<string, { key: string, contentHash: string }> = {}
+  for (const record of await bucket.all()) {
+    entries[record.key] = { key: record.key, contentHash: hashContent(record.content) }
+  }
+
+  sendJson(ctx.response, 200, {
+    bucket: {
+      name,
+      organizationId: organization,
+      ...(blueprint ? { blueprintId: blueprint } : {}),
+    },
+    entries,
+  })
+}
+
+const sendRecord = async ({ response }: HttpRequestContext, bucket: VectorBucket, key: string) => {
+  const content = await bucket.fetch(key)
+  if (content === undefined) {
+    throw new HttpError(404, `no record ${key} in ${bucket.name}`)
+  }
+  response.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" })
+  response.end(contentOf(content))
+}
+
+const saveRecord = async (ctx: HttpRequestContext, bucket: VectorBucket) => {
+  const { key, content } = await ctx.json<{ key?: unknown, content?: unknown }>()
+  if (typeof key !== "string" || key.length === 0 || typeof content !== "string") {
+    throw new HttpError(400, "expected a body of {key, content}")
+  }
+  if (key.includes("/")) {
+    // keys are path segments of the record routes, where a slash would be read as another segment.
+    throw new HttpError(400, `key ${key} cannot contain a slash`)
+  }
+
+  bucket.set(key, content)
+  await bucket.flush()
+  sendJson(ctx.response, 200, { key, contentHash: hashContent(content) })
+}
+
+const removeRecord = async ({ response }: HttpRequestContext, bucket: VectorBucket, key: string) => {
+  bucket.remove(key)
+  await bucket.flush()
+  sendJson(response, 200, { key })
+}
+
+/**
+ * The store API used by `soul-engine stores push` and `soul-engine stores pull`. Organization buckets live at
+ * `/api/:organization/stores/:bucket` and blueprint buckets at `/api/:organization/stores/:blueprint/:bucket`.
+ * The buckets are the same ones souls see with useOrganizationStore and useBlueprintStore.
+ */
+export const addStoreRoutes = (router: HttpRouter, stores: LocalVectorStore) => {
+  const organizationBucket = ({ organization, bucket }: Record<string, string>) => ({ organization, bucket })
+  const blueprintBucket = ({ organization, blueprint, bucket }: Record<string, string>) => ({ organization, blueprint, bucket })
+
+  return router
+    .route("GET", "/api/:organization/stores/:bucket", (ctx) => {
+      const scope = organizationBucket(ctx.params)
+      return sendManifest(ctx, bucketFor(stores, scope), scope)
+    })
+    .route("POST", "/api/:organization/stores/:bucket", (ctx) => {
+      return saveRecord(ctx, bucketFor(stores, organizationBucket(ctx.params)))
+    })
+    .route("GET", "/api/:organization/stores/:first/:second", async (ctx) => {
+      // this is either a record of an organization bucket (/:bucket/:key) or the manifest of a
+      // blueprint bucket (/:blueprint/:bucket). An existing record wins. Keys are URL encoded (and
+      // pushed keys cannot contain a slash), so a key never adds a segment.
+      const { organization, first, second } = ctx.params
+      const orgBucket = stores.organizationBucket(organization, first)
+      if (await orgBucket.fetch(second) !== undefined) {
+        return sendRecord(ctx, orgBucket, second)
+      }
+      const scope = { organization, blueprint: first, bucket: second }
+      return sendManifest(ctx, bucketFor(stores, scope), scope)
+    })
+    .route("POST", "/api/:organization/stores/:blueprint/:bucket", (ctx) => {
+      return saveRecord(ctx, bucketFor(stores, blueprintBucket(ctx.params)))
+    })
+    .route("DELETE", "/api/:organization/stores/:bucket/:key", (ctx) => {
+      return removeRecord(ctx, bucketFor(stores, organizationBucket(ctx.params)), ctx.params.key)
+    })
+    .route("GET", "/api/:organization/stores/:blueprint/:bucket/:key", (ctx) => {
+      return sendRecord(ctx, bucketFor(stores, blueprintBucket(ctx.params)), ctx.params.key)
+    })
+    .route("DELETE", "/api/:organization/stores/:blueprint/:bucket/:key", (ctx) => {
+      return removeRecord(ctx, bucketFor(stores, blueprintBucket(ctx.params)), ctx.params.key)
+    })
+}
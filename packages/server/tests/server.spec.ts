@@ -0,0 +1,677 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { HocuspocusProvider, HocuspocusProviderWebsocket } from "@hocuspocus/provider";
+import { syncedStore } from "@syncedstore/core";
+import { Soul } from "@opensouls/soul";
+import WebSocket from "ws";
+import { createHash } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { SoulEngineServer } from "../src/index.js";
+
+const organization = "local"
+
+const blueprintFiles = {
+  "soul/Greeter.md": "You are Greeter, you say hello.",
+  "soul/initialProcess.ts": `
+    import { MentalProcess, useActions, useProcessManager } from "@opensouls/engine"
+
+    const greets: MentalProcess = async ({ workingMemory }) => {
+      const { speak } = useActions()
+      const { invocationCount } = useProcessManager()
+      speak(\`hello #\${invocationCount} from \${workingMemory.soulName}\`)
+      return workingMemory
+    }
+
+    export default greets
+  `,
+}
+
+async function syncBlueprint(server: SoulEngineServer, blueprint: string, files: Record<string, string>) {
+  const websocketProvider = new HocuspocusProviderWebsocket({
+    url: server.webSocketURL,
+    WebSocketPolyfill: WebSocket,
+  })
+
+  const provider = new HocuspocusProvider({
+    websocketProvider,
+    name: `soul-source-doc.${organization}.${blueprint}`,
+  })
+
+  const store = syncedStore({ files: {} as Record<string, string> }, provider.document)
+
+  try {
+    await new Promise<void>((resolve) => provider.on("synced", resolve))
+
+    const compiled = new Promise<{ event: string, data: any }>((resolve) => {
+      provider.on("stateless", ({ payload }: { payload: string }) => resolve(JSON.parse(payload)))
+    })
+
+    Object.assign(store.files, files)
+    provider.sendStateless(JSON.stringify({ event: "codeSync" }))
+
+    return await compiled
+  } finally {
+    provider.destroy()
+    websocketProvider.destroy()
+  }
+}
+
+async function sendStateless(server: SoulEngineServer, name: string, payload: string) {
+  const websocketProvider = new HocuspocusProviderWebsocket({
+    url: server.webSocketURL,
+    WebSocketPolyfill: WebSocket,
+  })
+  const provider = new HocuspocusProvider({ websocketProvider, name })
+
+  try {
+    await new Promise<void>((resolve) => provider.on("synced", resolve))
+    const reply = new Promise<{ event: string, data: any }>((resolve) => {
+      provider.on("stateless", ({ payload }: { payload: string }) => resolve(JSON.parse(payload)))
+    })
+
+    provider.sendStateless(payload)
+
+    return await reply
+  } finally {
+    provider.destroy()
+    websocketProvider.destroy()
+  }
+}
+
+function connectSoul(server: SoulEngineServer, blueprint: string, soulId?: string) {
+  const webSocket = new HocuspocusProviderWebsocket({
+    url: server.webSocketURL,
+    WebSocketPolyfill: WebSocket,
+  })
+
+  const soul = new Soul({
+    organization,
+    blueprint,
+    soulId,
+    local: true,
+    webSocket,
+  })
+
+  return {
+    soul,
+    disconnect: async () => {
+      await soul.disconnect()
+      webSocket.destroy()
+    },
+  }
+}
+
+const nextSay = (soul: Soul) => new Promise<string>((resolve) => {
+  soul.once("says", async ({ content }) => resolve(await content()))
+})
+
+describe("SoulEngineServer", () => {
+  let server: SoulEngineServer
+
+  before(async () => {
+    server = new SoulEngineServer({ port: 0, quiet: true })
+    await server.listen()
+  })
+
+  after(async () => {
+    await server.destroy()
+  })
+
+  it("compiles a synced blueprint", async () => {
+    const reply = await syncBlueprint(server, "greeter", blueprintFiles)
+    expect(reply.event).to.equal("compiled")
+
+    const compiled = await server.blueprints.get(organization, "greeter")
+    expect(compiled?.entityName).to.equal("Greeter")
+    expect(compiled?.staticMemories.core).to.equal("You are Greeter, you say hello.")
+  })
+
+  it("reports compile errors", async () => {
+    const reply = await syncBlueprint(server, "broken", {
+      "soul/initialProcess.ts": `import missing from "./missing.js"\nexport default missing`,
+    })
+    expect(reply.event).to.equal("compileError")
+    expect(reply.data.message).to.contain("missing.js")
+  })
+
+  it("answers stateless messages that are not JSON with a 400", async () => {
+    const { event, data } = await sendStateless(server, `soul-source-doc.${organization}.greeter`, "{not json")
+    expect(event).to.equal("error")
+    expect(data.status).to.equal(400)
+  })
+
+  it("answers stateless messages that are not an event object with a 400", async () => {
+    const { event, data } = await sendStateless(server, `soul-source-doc.${organization}.greeter`, "null")
+    expect(event).to.equal("error")
+    expect(data.status).to.equal(400)
+  })
+
+  it("answers perceptions without data with a 400", async () => {
+    const { event, data } = await sendStateless(
+      server,
+      `soul-session.${organization}.greeter.no-data`,
+      JSON.stringify({ event: "dispatchExternalPerception" }),
+    )
+    expect(event).to.equal("error")
+    expect(data.status).to.equal(400)
+    expect(data.message).to.contain("perception")
+  })
+
+  it("runs the mental processes of a soul", async () => {
+    await syncBlueprint(server, "greeter", blueprintFiles)
+
+    const { soul, disconnect } = connectSoul(server, "greeter")
+
+    try {
+      const said: string[] = []
+      const secondSay = new Promise<void>((resolve) => {
+        soul.on("says", async ({ content }) => {
+          said.push(await content())
+          if (said.length === 2) {
+            resolve()
+          }
+        })
+      })
+
+      await soul.dispatch({ action: "said", content: "hi", name: "friend" })
+      await soul.dispatch({ action: "said", content: "hi again", name: "friend" })
+      await secondSay
+
+      expect(said).to.deep.equal(["hello #0 from Greeter", "hello #1 from Greeter"])
+      expect(soul.events.map((event) => event.action)).to.deep.equal(["said", "said", "says", "says"])
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("swaps in a newly synced blueprint between perceptions", async () => {
+    const saysVersion = (version: string) => ({
+      ...blueprintFiles,
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions } from "@opensouls/engine"
+
+        const greets: MentalProcess = async ({ workingMemory }) => {
+          useActions().speak("${version}")
+          return workingMemory
+        }
+
+        export default greets
+      `,
+    })
+
+    await syncBlueprint(server, "reloader", saysVersion("v1"))
+
+    const { soul, disconnect } = connectSoul(server, "reloader")
+
+    try {
+      const firstSay = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "hi", name: "friend" })
+      expect(await firstSay).to.equal("v1")
+
+      await syncBlueprint(server, "reloader", saysVersion("v2"))
+
+      const secondSay = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "hi again", name: "friend" })
+      expect(await secondSay).to.equal("v2")
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("routes model aliases with the blueprint's modelRoutes", async () => {
+    await syncBlueprint(server, "router", {
+      ...blueprintFiles,
+      "soul/modelRoutes.ts": `
+        import { ModelRoutes } from "@opensouls/engine"
+
+        const modelRoutes: ModelRoutes = {
+          quality: {
+            processor: { name: "mock", options: { responses: [{ response: "routed to quality", repeat: true }] } },
+          },
+        }
+
+        export default modelRoutes
+      `,
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions } from "@opensouls/engine"
+
+        const answers: MentalProcess = async ({ workingMemory }) => {
+          const [withAnswer, answer] = await workingMemory.transform({ command: "Answer the user." }, { model: "quality" })
+          useActions().speak(answer)
+          return withAnswer
+        }
+
+        export default answers
+      `,
+    })
+
+    const { soul, disconnect } = connectSoul(server, "router")
+
+    try {
+      const said = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "hi", name: "friend" })
+      expect(await said).to.equal("routed to quality")
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("resumes the working memory of a soul after a restart", async () => {
+    const dataDir = await mkdtemp(path.join(tmpdir(), "soul-engine-"))
+    const files = {
+      ...blueprintFiles,
+      "soul/initialProcess.ts": `
+        import { ChatMessageRoleEnum, MentalProcess, useActions } from "@opensouls/engine"
+
+        const counts: MentalProcess = async ({ workingMemory }) => {
+          const heard = workingMemory.memories.filter((memory) => memory.role === ChatMessageRoleEnum.User)
+          useActions().speak(\`heard \${heard.map((memory) => memory.content).join(", ")}\`)
+          return workingMemory
+        }
+
+        export default counts
+      `,
+    }
+
+    const sayAfterRestart = async (content: string) => {
+      const restarted = new SoulEngineServer({ port: 0, quiet: true, dataDir })
+      await restarted.listen()
+      const { soul, disconnect } = connectSoul(restarted, "counter", "resumed-soul")
+      try {
+        const said = nextSay(soul)
+        await soul.dispatch({ action: "said", content, name: "friend" })
+        return await said
+      } finally {
+        await disconnect()
+        await restarted.destroy()
+      }
+    }
+
+    try {
+      const first = new SoulEngineServer({ port: 0, quiet: true, dataDir })
+      await first.listen()
+      await syncBlueprint(first, "counter", files)
+      await first.destroy()
+
+      expect(await sayAfterRestart("one")).to.equal('heard friend said: "one"')
+      expect(await sayAfterRestart("two")).to.equal('heard friend said: "one", friend said: "two"')
+    } finally {
+      await rm(dataDir, { recursive: true, force: true })
+    }
+  })
+
+  it("fires the events scheduled before a restart without waiting for a perception", async () => {
+    const dataDir = await mkdtemp(path.join(tmpdir(), "soul-engine-"))
+    const files = {
+      ...blueprintFiles,
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions } from "@opensouls/engine"
+        import reminds from "./mentalProcesses/reminds.js"
+
+        const schedules: MentalProcess = async ({ workingMemory }) => {
+          const { scheduleEvent, speak } = useActions()
+          await scheduleEvent({ in: 0.5, process: reminds, perception: { action: "remind", content: "stretch", name: "timer" } })
+          speak("scheduled")
+          return workingMemory
+        }
+
+        export default schedules
+      `,
+      "soul/mentalProcesses/reminds.ts": `
+        import { MentalProcess, useActions, usePerceptions } from "@opensouls/engine"
+
+        const reminds: MentalProcess = async ({ workingMemory }) => {
+          useActions().speak(\`time to \${usePerceptions().invokingPerception?.content}\`)
+          return workingMemory
+        }
+
+        export default reminds
+      `,
+    }
+
+    try {
+      const first = new SoulEngineServer({ port: 0, quiet: true, dataDir })
+      await first.listen()
+      await syncBlueprint(first, "reminder", files)
+      const before = connectSoul(first, "reminder", "reminded-soul")
+      const scheduled = nextSay(before.soul)
+      await before.soul.dispatch({ action: "said", content: "remind me", name: "friend" })
+      expect(await scheduled).to.equal("scheduled")
+      await before.disconnect()
+      await first.destroy()
+
+      const restarted = new SoulEngineServer({ port: 0, quiet: true, dataDir })
+      await restarted.listen()
+      const { soul, disconnect } = connectSoul(restarted, "reminder", "reminded-soul")
+      try {
+        // the reminder might fire before the client synced, so it is looked for in the event log.
+        for (let waited = 0; waited < 5_000 && !soul.events.some((event) => event.content === "time to stretch"); waited += 20) {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+        }
+        expect(soul.events.map((event) => event.action)).to.deep.equal(["remind", "says"])
+      } finally {
+        await disconnect()
+        await restarted.destroy()
+      }
+    } finally {
+      await rm(dataDir, { recursive: true, force: true })
+    }
+  })
+
+  it("runs the blueprint's subprocesses after the main process", async () => {
+    await syncBlueprint(server, "notetaker", {
+      ...blueprintFiles,
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions } from "@opensouls/engine"
+
+        const readsNotes: MentalProcess = async ({ workingMemory }) => {
+          const notes = workingMemory.memories.filter((memory) => memory.region === "notes")
+          useActions().speak(\`notes: \${notes.map((memory) => memory.content).join(", ")}\`)
+          return workingMemory
+        }
+
+        export default readsNotes
+      `,
+      "soul/subprocesses/takesNotes.ts": `
+        import { ChatMessageRoleEnum, MentalProcess, usePerceptions } from "@opensouls/engine"
+
+        const takesNotes: MentalProcess = async ({ workingMemory }) => {
+          const { invokingPerception } = usePerceptions()
+          return workingMemory.withMemory({
+            role: ChatMessageRoleEnum.Assistant,
+            content: \`noted \${invokingPerception?.content}\`,
+            region: "notes",
+          })
+        }
+
+        export default takesNotes
+      `,
+    })
+
+    const { soul, disconnect } = connectSoul(server, "notetaker")
+
+    try {
+      const first = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "hi", name: "friend" })
+      expect(await first).to.equal("notes: ")
+
+      const second = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "bye", name: "friend" })
+      expect(await second).to.equal("notes: noted hi")
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("interrupts the soul mid-speech with the blueprint's interruptionPolicy", async () => {
+    await syncBlueprint(server, "rambler", {
+      ...blueprintFiles,
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions, usePerceptions } from "@opensouls/engine"
+
+        const rambles: MentalProcess = async ({ workingMemory }) => {
+          const { invokingPerception } = usePerceptions()
+          if (invokingPerception?.content === "stop") {
+            useActions().speak("sorry!")
+            return workingMemory
+          }
+
+          useActions().speak((async function* () {
+            yield "Let me tell you "
+            // the rest never comes, only the interruption ends this speech.
+            await new Promise(() => {})
+          })())
+          return workingMemory
+        }
+
+        export default rambles
+      `,
+      "soul/interruptionPolicy.ts": `export default "always"`,
+    })
+
+    const { soul, disconnect } = connectSoul(server, "rambler")
+
+    try {
+      const rambling = new Promise<any>((resolve) => soul.once("says", resolve))
+      await soul.dispatch({ action: "said", content: "hi", name: "friend" })
+      const rambled = await rambling
+
+      const apology = nextSay(soul)
+      await soul.dispatch({ action: "said", content: "stop", name: "friend" })
+
+      expect(await rambled.content()).to.equal("Let me tell you ")
+      expect(rambled.interactionRequest._metadata.interrupted).to.equal(true)
+      expect(await apology).to.equal("sorry!")
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("gives souls a store that is shared across the blueprint", async () => {
+    await syncBlueprint(server, "librarian", {
+      "soul/Librarian.md": "You are a librarian.",
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions, useBlueprintStore, usePerceptions } from "@opensouls/engine"
+
+        const remembers: MentalProcess = async ({ workingMemory }) => {
+          const { speak } = useActions()
+          const { invokingPerception } = usePerceptions()
+          const store = useBlueprintStore("books")
+
+          if (invokingPerception?.action === "donated") {
+            store.set(invokingPerception.content, invokingPerception.content, { donor: invokingPerception.name ?? null })
+            speak("thank you!")
+            return workingMemory
+          }
+
+          const [book] = await store.search(invokingPerception?.content ?? "")
+          speak(book ? \`try \${book.key}\` : "nothing found")
+          return workingMemory
+        }
+
+        export default remembers
+      `,
+    })
+
+    const donor = connectSoul(server, "librarian")
+    const reader = connectSoul(server, "librarian")
+
+    try {
+      const thanks = nextSay(donor.soul)
+      await donor.soul.dispatch({ action: "donated", content: "a field guide to mushrooms", name: "friend" })
+      await thanks
+
+      const recommendation = nextSay(reader.soul)
+      await reader.soul.dispatch({ action: "asked", content: "mushrooms", name: "reader" })
+      expect(await recommendation).to.equal("try a field guide to mushrooms")
+    } finally {
+      await donor.disconnect()
+      await reader.disconnect()
+    }
+  })
+
+  it("ingests RAG documents posted by the CLI", async () => {
+    await syncBlueprint(server, "archivist", {
+      "soul/Archivist.md": "You are an archivist.",
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions, usePerceptions, useRag } from "@opensouls/engine"
+
+        const answers: MentalProcess = async ({ workingMemory }) => {
+          const { speak } = useActions()
+          const { invokingPerception } = usePerceptions()
+          const [hit] = await useRag().search({ query: invokingPerception?.content ?? "", limit: 1 })
+          speak(hit ? \`\${hit.metadata.rootKey} \${hit.metadata.section}\` : "nothing found")
+          return workingMemory
+        }
+
+        export default answers
+      `,
+    })
+
+    const post = (body: unknown) => fetch(`http://localhost:${server.port}/api/${organization}/rag-ingest/__blueprint-rag-archivist`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+
+    const response = await post([
+      { rootKey: "history.md", content: Buffer.from("# Rome\nRome was not built in a day.\n# Egypt\nThe pyramids of Giza.").toString("base64") },
+    ])
+    expect(response.status).to.equal(200)
+    expect(await response.json()).to.deep.equal({ results: [{ rootKey: "history.md", chunks: 2 }] })
+
+    expect((await post({ not: "an array" })).status).to.equal(400)
+    expect((await post([{ rootKey: "history.md", content: "", maxTokens: 0 }])).status).to.equal(400)
+    expect((await post([null])).status).to.equal(400)
+
+    const { soul, disconnect } = connectSoul(server, "archivist")
+    try {
+      const answer = nextSay(soul)
+      await soul.dispatch({ action: "asked", content: "who built the pyramids of giza", name: "visitor" })
+      expect(await answer).to.equal("history.md Egypt")
+    } finally {
+      await disconnect()
+    }
+  })
+
+  it("serves the stores to `soul-engine stores push` and `stores pull`", async () => {
+    await syncBlueprint(server, "curator", {
+      "soul/Curator.md": "You are a curator.",
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions, useBlueprintStore, usePerceptions } from "@opensouls/engine"
+
+        const reads: MentalProcess = async ({ workingMemory }) => {
+          const { speak } = useActions()
+          const { invokingPerception } = usePerceptions()
+          const note = await useBlueprintStore("notes").fetch(invokingPerception?.content ?? "")
+          speak(note ?? "no such note")
+          return workingMemory
+        }
+
+        export default reads
+      `,
+    })
+
+    const api = `http://localhost:${server.port}/api/${organization}/stores`
+    const sha256 = (content: string) => createHash("sha256").update(content).digest("hex")
+
+    expect(await (await fetch(`${api}/curator/notes`)).json()).to.deep.equal({
+      bucket: { name: "notes", organizationId: organization, blueprintId: "curator" },
+      entries: {},
+    })
+
+    const pushed = await fetch(`${api}/curator/notes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: "monet.md", content: "Water lilies, 1906." }),
+    })
+    expect(pushed.status).to.equal(200)
+
+    const manifest = await (await fetch(`${api}/curator/notes`)).json()
+    expect(manifest.entries).to.deep.equal({ "monet.md": { key: "monet.md", contentHash: sha256("Water lilies, 1906.") } })
+    expect(await (await fetch(`${api}/curator/notes/monet.md`)).text()).to.equal("Water lilies, 1906.")
+
+    const { soul, disconnect } = connectSoul(server, "curator")
+    try {
+      const note = nextSay(soul)
+      await soul.dispatch({ action: "asked", content: "monet.md", name: "visitor" })
+      expect(await note).to.equal("Water lilies, 1906.")
+    } finally {
+      await disconnect()
+    }
+
+    expect((await fetch(`${api}/curator/notes/monet.md`, { method: "DELETE" })).status).to.equal(200)
+    expect((await (await fetch(`${api}/curator/notes`)).json()).entries).to.deep.equal({})
+    expect((await fetch(`${api}/curator/notes/monet.md`)).status).to.equal(404)
+
+    // organization buckets have one less path segment.
+    await fetch(`${api}/shared`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: "hours.txt", content: "9 to 5" }),
+    })
+    expect(Object.keys((await (await fetch(`${api}/shared`)).json()).entries)).to.deep.equal(["hours.txt"])
+    expect(await (await fetch(`${api}/shared/hours.txt`)).text()).to.equal("9 to 5")
+    expect(await server.stores.organizationBucket(organization, "shared").fetch("hours.txt")).to.equal("9 to 5")
+
+    // souls can use keys with slashes, the CLI encodes them.
+    server.stores.organizationBucket(organization, "shared").set("faq/hours.txt", "10 to 6")
+    expect(await (await fetch(`${api}/shared/${encodeURIComponent("faq/hours.txt")}`)).text()).to.equal("10 to 6")
+    expect((await fetch(`${api}/shared/${encodeURIComponent("faq/hours.txt")}`, { method: "DELETE" })).status).to.equal(200)
+    expect(await server.stores.organizationBucket(organization, "shared").fetch("faq/hours.txt")).to.be.undefined
+
+    const slashed = await fetch(`${api}/shared`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: "faq/hours.txt", content: "10 to 6" }),
+    })
+    expect(slashed.status).to.equal(400)
+  })
+
+  it("answers store writes that could not be applied with a 500", async () => {
+    const broken = new SoulEngineServer({
+      port: 0,
+      quiet: true,
+      embedder: { model: "broken", embed: async () => { throw new Error("embedder is down") } },
+    })
+    await broken.listen()
+
+    const consoleError = console.error
+    console.error = () => {}
+    try {
+      const pushed = await fetch(`http://localhost:${broken.port}/api/${organization}/stores/shared`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: "hours.txt", content: "9 to 5" }),
+      })
+      expect(pushed.status).to.equal(500)
+    } finally {
+      console.error = consoleError
+      await broken.destroy()
+    }
+  })
+
+  it("answers useTool calls with the tools registered on the Soul", async () => {
+    await syncBlueprint(server, "integrator", {
+      "soul/Integrator.md": "You are an integrator.",
+      "soul/initialProcess.ts": `
+        import { MentalProcess, useActions, usePerceptions, useTool } from "@opensouls/engine"
+
+        const callsTools: MentalProcess = async ({ workingMemory }) => {
+          const { speak } = useActions()
+          const { invokingPerception } = usePerceptions()
+          const tool = useTool<{ ping: string }, { pong: string }>(invokingPerception!.action, { timeout: 2000 })
+
+          try {
+            const { pong } = await tool({ ping: invokingPerception!.content })
+            speak("Your tool ponged: " + pong)
+          } catch (err: any) {
+            speak(\`\${err.name} \${err.code}\`)
+          }
+          return workingMemory
+        }
+
+        export default callsTools
+      `,
+    })
+
+    const { soul, disconnect } = connectSoul(server, "integrator")
+    soul.registerTool<{ ping: string }, { pong: string }>("pingTool", async ({ ping }) => ({ pong: ping }))
+
+    try {
+      const ponged = nextSay(soul)
+      await soul.dispatch({ action: "pingTool", content: "ping" })
+      expect(await ponged).to.equal("Your tool ponged: ping")
+
+      const notFound = nextSay(soul)
+      await soul.dispatch({ action: "missingTool", content: "ping" })
+      expect(await notFound).to.equal("ToolCallError -32601")
+
+      expect(Object.keys(soul.store.pendingToolCalls ?? {})).to.have.length(0)
+    } finally {
+      await disconnect()
+    }
+  })
+})
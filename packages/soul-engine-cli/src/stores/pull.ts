@@ -72,7 +72,7 @@ export class StorePuller {
   fetchFile(key: string) {
     const { apiKey } = this.opts
 
-    const url = this.url() + "/" + key
+    const url = this.url() + "/" + encodeURIComponent(key)
     return fetch(url, {
       headers: {
         "Authorization": `Bearer ${apiKey}`,
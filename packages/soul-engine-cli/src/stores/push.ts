@@ -81,7 +81,7 @@ export class StorePusher {
   deleteFile(key: string) {
     const { apiKey } = this.opts
 
-    const url = this.url() + "/" + key
+    const url = this.url() + "/" + encodeURIComponent(key)
     return fetch(url, {
       method: 'DELETE',
       headers: {
@@ -0,0 +1,12 @@
+import { ModelRoutes } from "@opensouls/engine";
+
+// The processors and models behind the aliases the cognitive steps use (eg. `{ model: "quality" }`).
+// Swap a route here to move every step using it to another provider, for example:
+//   fast: { processor: "ollama", model: "ollama/llama3:8b" },
+const modelRoutes: ModelRoutes = {
+  fast: { processor: "openai", model: "gpt-3.5-turbo-0125" },
+  quality: { processor: "openai", model: "gpt-4o", fallbacks: ["fast"] },
+  vision: { processor: "openai", model: "gpt-4o" },
+}
+
+export default modelRoutes
@@ -1,3 +1,4 @@
 export * from "./soul.js"
 export * from "./event-log.js"
 export * from "./sockets/soul-engine-socket.js"
+export * from "./tool-handler.js"
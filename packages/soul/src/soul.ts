@@ -9,7 +9,7 @@ import { v4 as uuidv4, validate as validateUuid } from 'uuid'
 import { getConnectedWebsocket } from "./sockets/soul-engine-socket.js";
 import { ContentStreamer } from "./content-streamer.js";
 import { syncedEventStore } from "./event-log.js";
-import { ToolHandler } from './tool-handler.js';
+import { RegisterToolOpts, Tool, ToolHandler, ToolHandlerOpts } from './tool-handler.js';
 
 export type { InteractionRequest, SoulEvent } from "@opensouls/core"
 
@@ -45,6 +45,10 @@ export interface SoulOpts {
   webSocket?: HocuspocusProviderWebsocket,
   environment?: SoulEnvironment,
   debug?: boolean
+  /**
+   * defaults for the tools registered with registerTool.
+   */
+  tools?: ToolHandlerOpts
 }
 
 export function said(entity: string, content: string): DeveloperDispatchedPerception {
@@ -128,7 +132,8 @@ export class Soul extends EventEmitter<SoulEvents> {
     token,
     version,
     webSocket,
-    environment
+    environment,
+    tools,
   }: SoulOpts) {
     super()
     if (debug && !token) {
@@ -147,13 +152,14 @@ export class Soul extends EventEmitter<SoulEvents> {
     this.local = Boolean(local)
     this.token = token || "anonymous"
     this.version = version || "prod"
+    this.toolHandler = new ToolHandler(this, tools)
+
     if (webSocket) {
       this.websocket = webSocket
       this.connection = this.getProvider()
+      this.toolHandler.start()
     }
 
-    this.toolHandler = new ToolHandler(this)
-
     this.errorHandler = (error) => {
       console.warn("warning: error handler not registered. use onError() to catch errors.")
       throw error.message;
@@ -252,8 +258,8 @@ export class Soul extends EventEmitter<SoulEvents> {
     }))
   }
 
-  registerTool<Params = Json, Response = Json>(tool: string, handler: (params: Params) => Promise<Response>) {
-    return this.toolHandler.registerTool(tool, handler)
+  registerTool<Params = Json, Response = Json>(tool: string, handler: Tool<Params, Response>, opts?: RegisterToolOpts<Params, Response>) {
+    return this.toolHandler.registerTool(tool, handler, opts)
   }
 
   async dispatch(perception: DeveloperDispatchedPerception) {
@@ -1,20 +1,99 @@
 import { Json, JsonRPCCall, JsonRPCResponse } from "@opensouls/core";
+import type { ZodSchema } from "zod";
 import { Soul } from "./soul.js";
 import { observeDeep } from "@syncedstore/core";
 
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * The JSON-RPC error codes ToolHandler responds with. Errors thrown by a tool keep their own `code`
+ * (if they have one) and otherwise use `ServerError`.
+ */
+export const ToolErrorCodes = {
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerError: -32000,
+  Timeout: -32001,
+  Cancelled: -32800,
+} as const;
+
+export interface ToolCallContext {
+  /**
+   * aborted when the tool call times out or the ToolHandler is stopped.
+   */
+  signal: AbortSignal
+}
+
+export type Tool<Params = Json, Response = Json> = (params: Params, context: ToolCallContext) => Promise<Response>
+
+export interface RegisterToolOpts<Params = Json, Response = Json> {
+  /**
+   * validates the params sent by the soul, a failure responds with an InvalidParams error.
+   */
+  params?: ZodSchema<Params>
+  /**
+   * validates what the tool returns, a failure responds with an InternalError.
+   */
+  result?: ZodSchema<Response>
+  /**
+   * milliseconds before the call is aborted and answered with a Timeout error. Defaults to the ToolHandler's timeout.
+   */
+  timeout?: number
+}
+
+export interface ToolHandlerOpts {
+  /**
+   * the default timeout (in milliseconds) of every tool, defaults to 30 seconds.
+   */
+  timeout?: number
+  /**
+   * how many tool calls run at once, the rest wait for a free slot. Defaults to 4.
+   */
+  maxConcurrency?: number
+}
+
+interface RegisteredTool {
+  handler: Tool<any, any>
+  opts: RegisterToolOpts<any, any>
+}
+
+class ToolCallError extends Error {
+  constructor(public code: number, message: string, public data: Json = null) {
+    super(message);
+  }
+}
+
+const toJson = (obj: unknown): Json => JSON.parse(JSON.stringify(obj ?? null));
+
+// the data of an error is left out when it cannot be serialized (eg. because it is circular).
+const toJsonOrNull = (obj: unknown): Json => {
+  try {
+    return toJson(obj);
+  } catch {
+    return null;
+  }
+}
+
 export class ToolHandler {
-  private tools: Record<string, (params: any) => Promise<any>> = {};
-  
+  private tools: Record<string, RegisteredTool> = {};
+
   private inProgress: Set<string>;
+  private running = 0;
+  // bumped by stop, so the calls that were running before it do not free slots after it.
+  private generation = 0;
+  private queue: JsonRPCCall[] = [];
+  private controllers = new Set<AbortController>();
 
   private stopObserving?: () => void;
 
-  constructor(private soul: Soul) {
+  constructor(private soul: Soul, private opts: ToolHandlerOpts = {}) {
     this.inProgress = new Set();
   }
 
-  registerTool<Params = Json, Response = Json>(tool: string, handler: (params: Params) => Promise<Response>) {
-    this.tools[tool] = handler;
+  registerTool<Params = Json, Response = Json>(tool: string, handler: Tool<Params, Response>, opts: RegisterToolOpts<Params, Response> = {}) {
+    this.tools[tool] = { handler, opts };
   }
 
   start() {
@@ -31,51 +110,118 @@ export class ToolHandler {
           if (this.inProgress.has(request.id)) {
             return false;
           }
-          if (!this.tools[request.method]) {
-            console.warn("Soul tried to call", request.method, "but this tool is not registered.")
-            return false;
-          }
           return true;
         }
       );
 
       for (const [, { request }] of pending) {
         this.inProgress.add(request.id);
-        this.executeTool(request).finally(() => {
-          this.inProgress.delete(request.id);
-        })
+        this.queue.push(request);
       }
-      
+
+      this.drain();
     })
   }
 
   stop() {
     this.stopObserving?.();
+    this.queue = [];
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    // the calls dropped from the queue are picked up again when the handler is restarted.
+    this.inProgress.clear();
+    this.running = 0;
+    this.generation += 1;
+  }
+
+  private drain() {
+    const maxConcurrency = this.opts.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    while (this.running < maxConcurrency && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      const generation = this.generation;
+      this.running += 1;
+      this.executeTool(request).finally(() => {
+        if (generation !== this.generation) {
+          return;
+        }
+        this.running -= 1;
+        this.inProgress.delete(request.id);
+        this.drain();
+      })
+    }
   }
 
   private async executeTool(request: JsonRPCCall) {
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
     try {
-      const toolHandler = this.tools[request.method];
-      if (!toolHandler) {
-        throw {
-          code: 404,
-          message: "Method not found"
+      const tool = this.tools[request.method];
+      if (!tool) {
+        throw new ToolCallError(ToolErrorCodes.MethodNotFound, `Method not found: ${request.method}`);
+      }
+      const { handler, opts } = tool;
+
+      let params = request.params;
+      if (opts.params) {
+        const parsed = opts.params.safeParse(params);
+        if (!parsed.success) {
+          throw new ToolCallError(ToolErrorCodes.InvalidParams, `Invalid params for ${request.method}: ${parsed.error.message}`, toJson(parsed.error.issues));
         }
+        params = parsed.data;
       }
-      const result = await toolHandler(request.params);
-      this.soul.store.pendingToolCalls![request.id]!.response = {
+
+      const timeout = opts.timeout ?? this.opts.timeout ?? DEFAULT_TIMEOUT;
+      const timedOut = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(new ToolCallError(ToolErrorCodes.Timeout, `${request.method} timed out after ${timeout}ms`));
+          controller.abort();
+        }, timeout);
+      });
+      const cancelled = new Promise<never>((_resolve, reject) => {
+        controller.signal.addEventListener("abort", () => {
+          reject(new ToolCallError(ToolErrorCodes.Cancelled, `${request.method} was cancelled`));
+        });
+      });
+
+      let result = await Promise.race([handler(params, { signal: controller.signal }), timedOut, cancelled]);
+
+      if (opts.result) {
+        const parsed = opts.result.safeParse(result);
+        if (!parsed.success) {
+          throw new ToolCallError(ToolErrorCodes.InternalError, `Invalid result from ${request.method}: ${parsed.error.message}`, toJson(parsed.error.issues));
+        }
+        result = parsed.data;
+      }
+
+      this.respond(request, {
         id: request.id,
-        result,
-      };
+        result: toJson(result),
+      });
     } catch (err: any) {
-      this.soul.store.pendingToolCalls![request.id]!.response = {
+      this.respond(request, {
         error: {
-          code: err.code || -32000,
-          message: err.message || "Internal error",
-          data: err.data || null,
+          // JSON-RPC codes are integers, node's error codes (eg. "ENOENT") are not.
+          code: Number.isInteger(err?.code) ? err.code : ToolErrorCodes.ServerError,
+          message: err?.message || "Internal error",
+          data: toJsonOrNull(err?.data),
         },
         id: request.id,
-      }
+      })
+    } finally {
+      clearTimeout(timer);
+      this.controllers.delete(controller);
+    }
+  }
+
+  private respond(request: JsonRPCCall, response: JsonRPCResponse) {
+    const pair = this.soul.store.pendingToolCalls?.[request.id];
+    if (!pair || pair.response) {
+      // the soul gave up on (and removed) the call in the meantime.
+      return;
     }
+    pair.response = response;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { z } from "zod";
+import { JsonRPCResponse } from "@opensouls/core";
+import { syncedEventStore } from "../src/event-log.js";
+import { Soul } from "../src/soul.js";
+import { ToolErrorCodes, ToolHandler, ToolHandlerOpts } from "../src/tool-handler.js";
+
+const setup = (opts?: ToolHandlerOpts) => {
+  const store = syncedEventStore()
+  const handler = new ToolHandler({ store } as unknown as Soul, opts)
+
+  let nextId = 0
+  const call = (method: string, params: any) => {
+    const id = `call-${nextId++}`
+    store.pendingToolCalls![id] = { request: { id, method, params } }
+    return new Promise<JsonRPCResponse>((resolve) => {
+      const check = () => {
+        const response = store.pendingToolCalls![id]?.response
+        if (response) {
+          resolve(JSON.parse(JSON.stringify(response)))
+          return
+        }
+        setTimeout(check, 5)
+      }
+      check()
+    })
+  }
+
+  return { handler, call }
+}
+
+describe("ToolHandler", () => {
+  it("responds with the result of a tool", async () => {
+    const { handler, call } = setup()
+    handler.registerTool<{ ping: string }, { pong: string }>("pingTool", async ({ ping }) => ({ pong: ping }))
+    handler.start()
+
+    expect(await call("pingTool", { ping: "hi" })).to.deep.equal({ id: "call-0", result: { pong: "hi" } })
+    handler.stop()
+  })
+
+  it("responds with method not found for unregistered tools", async () => {
+    const { handler, call } = setup()
+    handler.start()
+
+    const response = await call("missingTool", {})
+    expect(response).to.have.nested.property("error.code", ToolErrorCodes.MethodNotFound)
+    handler.stop()
+  })
+
+  it("only passes on integer error codes and JSON error data", async () => {
+    const { handler, call } = setup()
+    const circular: Record<string, unknown> = {}
+    circular.self = circular
+    handler.registerTool("readFile", async () => {
+      throw Object.assign(new Error("no such file"), { code: "ENOENT", data: circular })
+    })
+    handler.registerTool("teapot", async () => {
+      throw Object.assign(new Error("short and stout"), { code: 418, data: { spout: true } })
+    })
+    handler.start()
+
+    expect(await call("readFile", {})).to.deep.include({ error: { code: ToolErrorCodes.ServerError, message: "no such file", data: null } })
+    expect(await call("teapot", {})).to.deep.include({ error: { code: 418, message: "short and stout", data: { spout: true } } })
+    handler.stop()
+  })
+
+  it("validates params and results with zod", async () => {
+    const { handler, call } = setup()
+    handler.registerTool("double", async ({ n }: { n: number }) => ({ doubled: n * 2 }), {
+      params: z.object({ n: z.number() }),
+      result: z.object({ doubled: z.number().max(10) }),
+    })
+    handler.start()
+
+    expect(await call("double", { n: 2 })).to.deep.equal({ id: "call-0", result: { doubled: 4 } })
+    expect(await call("double", { n: "two" })).to.have.nested.property("error.code", ToolErrorCodes.InvalidParams)
+    expect(await call("double", { n: 100 })).to.have.nested.property("error.code", ToolErrorCodes.InternalError)
+    handler.stop()
+  })
+
+  it("times out (and aborts) slow tools", async () => {
+    const { handler, call } = setup({ timeout: 1000 })
+    let aborted = false
+    handler.registerTool("slowTool", (_params, { signal }) => new Promise((resolve) => {
+      signal.addEventListener("abort", () => {
+        aborted = true
+      })
+      setTimeout(() => resolve("too late"), 500)
+    }), { timeout: 20 })
+    handler.start()
+
+    const response = await call("slowTool", {})
+    expect(response).to.have.nested.property("error.code", ToolErrorCodes.Timeout)
+    expect(aborted).to.be.true
+    handler.stop()
+  })
+
+  it("limits how many tools run at once", async () => {
+    const { handler, call } = setup({ maxConcurrency: 2 })
+    let running = 0
+    let maxRunning = 0
+    handler.registerTool("busyTool", async () => {
+      running += 1
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      running -= 1
+      return "done"
+    })
+    handler.start()
+
+    const responses = await Promise.all([1, 2, 3, 4, 5].map(() => call("busyTool", {})))
+    expect(responses.every((response) => "result" in response)).to.be.true
+    expect(maxRunning).to.equal(2)
+    handler.stop()
+  })
+
+  it("picks up the queued calls again when it is restarted", async () => {
+    const { handler, call } = setup({ maxConcurrency: 1 })
+    handler.registerTool("stuckTool", () => new Promise(() => {}))
+    handler.registerTool("pingTool", async () => "pong")
+    handler.start()
+
+    const stuck = call("stuckTool", {})
+    const queued = call("pingTool", {})
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    handler.stop()
+    expect(await stuck).to.have.nested.property("error.code", ToolErrorCodes.Cancelled)
+
+    handler.start()
+    const [afterRestart, later] = await Promise.all([queued, call("pingTool", {})])
+    expect(afterRestart).to.deep.equal({ id: "call-1", result: "pong" })
+    expect(later).to.deep.equal({ id: "call-2", result: "pong" })
+    handler.stop()
+  })
+})